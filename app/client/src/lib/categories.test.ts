@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { formatCategoryValue, formatSample, scaleToBest } from "./categories";
+
+describe("scaleToBest", () => {
+  it("scales against the biggest value where higher is better", () => {
+    expect(scaleToBest(10, [5, 10, 20], true)).toBe(0.5);
+    expect(scaleToBest(3, [0, 0], true)).toBe(0);
+  });
+
+  it("gives the smallest value the full scale where lower is better", () => {
+    expect(scaleToBest(2, [2, 4], false)).toBe(1);
+    expect(scaleToBest(4, [2, 4], false)).toBe(0.5);
+    expect(scaleToBest(0, [0, 3], false)).toBe(1);
+  });
+});
+
+describe("formatCategoryValue", () => {
+  it("shows rates the way Yahoo does", () => {
+    expect(formatCategoryValue(0.9154, true)).toBe(".915");
+    expect(formatCategoryValue(2.456, true)).toBe("2.46");
+    expect(formatCategoryValue(41, false)).toBe("41.00");
+  });
+
+  it("labels the sample", () => {
+    expect(formatSample(1234.4, "SA")).toBe("1,234 SA");
+  });
+});
@@ -0,0 +1,25 @@
+// A team's season figure against the league's best in that category, 0 to
+// 1. Where lower is better the best (smallest) value reaches 1 and the rest
+// shrink in proportion, so a GAA twice the league's best scales to 0.5.
+export function scaleToBest(value: number, values: number[], higherIsBetter: boolean) {
+  const finite = values.filter(Number.isFinite);
+  if (!finite.length || !Number.isFinite(value)) return 0;
+  if (higherIsBetter) {
+    const max = Math.max(...finite);
+    return max ? value / max : 0;
+  }
+  const min = Math.min(...finite);
+  return value > 0 ? min / value : 1;
+}
+
+// Season figure as shown beside the radar: rates below 1 (SV%) keep three
+// places, the rest two.
+export function formatCategoryValue(value: number, isRate: boolean) {
+  if (!isRate) return value.toFixed(2);
+  return Math.abs(value) < 1 ? value.toFixed(3).replace(/^0\./, ".") : value.toFixed(2);
+}
+
+// "1,234 SA", "182 TOI", "9 weeks"
+export function formatSample(sample: number, label: string) {
+  return `${Math.round(sample).toLocaleString("en-US")} ${label}`;
+}
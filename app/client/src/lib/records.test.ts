@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { formatRecordValue, holderWhen, recordForHeading, streakSpan, winLossTie } from "./records";
+
+const holder = { value: 7, managerId: "m1", teamKey: "t1", teamName: "Aces", year: 2022, week: 3 };
+
+describe("stats page records", () => {
+  it("maps page headings to Yahoo stat labels", () => {
+    const goals = { statId: "1", label: "G", higherIsBetter: true, isRate: false, singleWeek: holder, singleSeason: null };
+    expect(recordForHeading([goals], "Goals")).toBe(goals);
+    expect(recordForHeading([goals], "Hits")).toBeNull();
+  });
+
+  it("formats values and when a record was set", () => {
+    expect(formatRecordValue(12.4, false)).toBe("12");
+    expect(formatRecordValue(2.149, true)).toBe("2.15");
+    expect(holderWhen(holder)).toBe("Week 3, Season 2022");
+    expect(holderWhen({ ...holder, week: null })).toBe("Season 2022");
+    expect(winLossTie({ managerId: "m1", name: "M", wins: 151, losses: 40, ties: 3 })).toBe("151-40-3");
+  });
+
+  it("describes streaks within and across seasons", () => {
+    const streak = { managerId: "m1", name: "M", length: 3, from: { year: 2016, week: 5 }, to: { year: 2016, week: 7 }, active: false };
+    expect(streakSpan(streak)).toBe("Week 5 - 7, Season 2016");
+    expect(streakSpan({ ...streak, to: { year: 2017, week: 1 } })).toBe("Week 5, Season 2016 - Week 1, Season 2017");
+  });
+});
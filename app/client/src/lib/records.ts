@@ -0,0 +1,41 @@
+import type { CategoryRecord, ManagerRecord, MatchupStreak, RecordHolder } from "@shared/contract";
+
+// Category headings on the Webflow stats page and the Yahoo stat each one
+// shows.
+export const STATS_PAGE_CATEGORIES: Record<string, string> = {
+  Goals: "G",
+  Assists: "A",
+  Points: "P",
+  "Penalty Minutes": "PIM",
+  "Powerplay Points": "PPP",
+  "Shots on Goal": "SOG",
+  Hits: "HIT",
+  Blocks: "BLK",
+  "Faceoffs Won": "FW",
+};
+
+export function recordForHeading(records: CategoryRecord[], heading: string) {
+  const label = STATS_PAGE_CATEGORIES[heading];
+  return records.find((r) => r.label === label) ?? null;
+}
+
+export function formatRecordValue(value: number, isRate: boolean) {
+  return isRate ? value.toFixed(2) : String(Math.round(value));
+}
+
+export function holderWhen(holder: RecordHolder) {
+  return holder.week == null ? `Season ${holder.year}` : `Week ${holder.week}, Season ${holder.year}`;
+}
+
+// "Week 5 - 23, Season 2016", or both ends in full when a streak spans
+// two seasons.
+export function streakSpan({ from, to }: MatchupStreak) {
+  if (from.year === to.year) {
+    return from.week === to.week ? `Week ${from.week}, Season ${from.year}` : `Week ${from.week} - ${to.week}, Season ${from.year}`;
+  }
+  return `Week ${from.week}, Season ${from.year} - Week ${to.week}, Season ${to.year}`;
+}
+
+export function winLossTie({ wins, losses, ties }: ManagerRecord) {
+  return `${wins}-${losses}-${ties}`;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { buildStandingsFrames, playoffWeeks } from "./standings";
+
+describe("buildStandingsFrames", () => {
+  it("accumulates 2 points a win and 1 a tie, week by week", () => {
+    const { frames, order, maxPoints } = buildStandingsFrames({
+      teams: ["Aces", "Bruisers", "Cyclones"],
+      weeks: [1, 2],
+      outcome: [
+        ["T", "W"],
+        ["T", "L"],
+        ["W", null],
+      ],
+    });
+    expect(order).toEqual(["Aces", "Bruisers", "Cyclones"]);
+    expect(frames.map((f) => f.week)).toEqual([1, 2]);
+    expect(frames[0].entries.map((e) => [e.team, e.points, e.rank])).toEqual([
+      ["Cyclones", 2, 1],
+      ["Aces", 1, 2],
+      ["Bruisers", 1, 3],
+    ]);
+    expect(frames[1].entries.map((e) => [e.team, e.points, e.wins, e.losses, e.ties])).toEqual([
+      ["Aces", 3, 1, 0, 1],
+      ["Cyclones", 2, 1, 0, 0],
+      ["Bruisers", 1, 0, 1, 1],
+    ]);
+    expect(frames[1].byTeam.get("Bruisers")?.rank).toBe(3);
+    expect(maxPoints).toBe(3);
+  });
+
+  it("breaks ties on points by wins, then fewer losses, then name", () => {
+    const { frames } = buildStandingsFrames({
+      teams: ["Dekes", "Cyclones", "Bruisers", "Aces"],
+      weeks: [1, 2],
+      outcome: [
+        ["W", "L"],
+        ["T", "T"],
+        ["T", "T"],
+        ["L", "W"],
+      ],
+    });
+    expect(frames[1].entries.map((e) => e.team)).toEqual(["Aces", "Dekes", "Bruisers", "Cyclones"]);
+  });
+
+  it("has no frames without a matrix or weeks", () => {
+    expect(buildStandingsFrames(null)).toEqual({ frames: [], order: [], maxPoints: 0 });
+    expect(buildStandingsFrames({ teams: ["Aces"], weeks: [] })).toEqual({ frames: [], order: ["Aces"], maxPoints: 0 });
+  });
+
+  it("leaves playoff weeks out unless asked to include them", () => {
+    const matrix = {
+      teams: ["Aces", "Bruisers"],
+      weeks: [1, 2, 3],
+      outcome: [
+        ["L", "W", "W"],
+        ["W", "L", "L"],
+      ],
+      stage: [
+        ["regular", "regular", "playoffs"],
+        ["regular", "regular", "playoffs"],
+      ],
+    };
+    expect(playoffWeeks(matrix)).toEqual([3]);
+    const regular = buildStandingsFrames(matrix);
+    expect(regular.frames.map((f) => f.week)).toEqual([1, 2]);
+    expect(regular.frames[1].entries.map((e) => [e.team, e.points])).toEqual([
+      ["Aces", 2],
+      ["Bruisers", 2],
+    ]);
+    const all = buildStandingsFrames(matrix, { includePlayoffs: true });
+    expect(all.frames[2].entries.map((e) => e.team)).toEqual(["Aces", "Bruisers"]);
+    expect(all.maxPoints).toBe(4);
+  });
+});
@@ -0,0 +1,118 @@
+export type StandingsEntry = {
+  team: string;
+  rank: number;
+  points: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  teamIndex: number;
+};
+
+export type StandingsFrame = {
+  week: number;
+  entries: StandingsEntry[];
+  byTeam: Map<string, StandingsEntry>;
+};
+
+export type StandingsData = {
+  frames: StandingsFrame[];
+  order: string[];
+  maxPoints: number;
+};
+
+type StandingsInput = {
+  teams: string[];
+  weeks: number[];
+  outcome?: (string | null)[][];
+  // "regular" | "playoffs" | "consolation" per team and week
+  stage?: (string | null)[][];
+};
+
+type StandingsOptions = {
+  includePlayoffs?: boolean;
+};
+
+// A week counts as playoffs once any matchup in it is a playoff or
+// consolation game.
+export function playoffWeeks(matrix: StandingsInput | null) {
+  if (!matrix?.stage) return [];
+  return matrix.weeks.filter((_, weekIdx) =>
+    matrix.stage!.some((row) => row?.[weekIdx] != null && row[weekIdx] !== "regular")
+  );
+}
+
+// One cumulative standings table per week for the race animation:
+// 2 points a win, 1 a tie; ties on points break by wins, then fewer
+// losses, then name. Playoff weeks are left out unless asked for, since
+// they aren't part of the regular-season table.
+export function buildStandingsFrames(
+  matrix: StandingsInput | null,
+  { includePlayoffs = false }: StandingsOptions = {}
+): StandingsData {
+  if (!matrix) {
+    return {
+      frames: [],
+      order: [],
+      maxPoints: 0,
+    };
+  }
+  const { teams, weeks, outcome } = matrix;
+  const teamCount = teams.length;
+  if (!teamCount || !weeks.length) {
+    return {
+      frames: [],
+      order: teams.slice(),
+      maxPoints: 0,
+    };
+  }
+
+  const wins = Array(teamCount).fill(0);
+  const losses = Array(teamCount).fill(0);
+  const ties = Array(teamCount).fill(0);
+  const frames: StandingsFrame[] = [];
+  let maxPoints = 0;
+
+  const skipped = new Set(includePlayoffs ? [] : playoffWeeks(matrix));
+
+  weeks.forEach((week, weekIdx) => {
+    if (skipped.has(week)) return;
+    for (let idx = 0; idx < teamCount; idx += 1) {
+      const result = outcome?.[idx]?.[weekIdx];
+      if (result === "W") wins[idx] += 1;
+      else if (result === "L") losses[idx] += 1;
+      else if (result === "T" || result === "D") ties[idx] += 1;
+    }
+
+    const ranked = teams
+      .map((team, idx) => {
+        const points = wins[idx] * 2 + ties[idx];
+        maxPoints = Math.max(maxPoints, points);
+        return {
+          team,
+          points,
+          wins: wins[idx],
+          losses: losses[idx],
+          ties: ties[idx],
+          teamIndex: idx,
+          rank: 0,
+        } as StandingsEntry;
+      })
+      .sort((a, b) => {
+        if (b.points !== a.points) return b.points - a.points;
+        if (b.wins !== a.wins) return b.wins - a.wins;
+        if (a.losses !== b.losses) return a.losses - b.losses;
+        return a.team.localeCompare(b.team);
+      })
+      .map((entry, orderIdx) => ({ ...entry, rank: orderIdx + 1 }));
+
+    const byTeam = new Map<string, StandingsEntry>();
+    ranked.forEach((entry) => byTeam.set(entry.team, entry));
+    frames.push({ week, entries: ranked, byTeam });
+  });
+
+  return {
+    frames,
+    order: teams.slice(),
+    maxPoints,
+  };
+}
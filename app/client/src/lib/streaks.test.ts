@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { findStretches, movesBeforeStretch } from "./streaks";
+
+describe("findStretches", () => {
+  it("finds win and loss runs of the minimum length", () => {
+    const weeks = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+    const outcomes = ["W", "W", "W", "T", "L", "L", "L", "L", "W"];
+    expect(findStretches(weeks, outcomes)).toEqual([
+      { result: "W", startWeek: 1, endWeek: 3, length: 3 },
+      { result: "L", startWeek: 5, endWeek: 8, length: 4 },
+    ]);
+    expect(findStretches(weeks, outcomes, 4)).toHaveLength(1);
+  });
+
+  it("lets missing weeks and ties break a run", () => {
+    expect(findStretches([1, 2, 3, 4], ["W", null, "W", "W"])).toEqual([]);
+    expect(findStretches([1, 2, 3], ["T", "T", "T"])).toEqual([]);
+  });
+});
+
+describe("movesBeforeStretch", () => {
+  it("keeps moves from the weeks just before the run", () => {
+    const moves = [{ week: null }, { week: 2 }, { week: 3 }, { week: 4 }, { week: 5 }];
+    const stretch = { result: "W" as const, startWeek: 5, endWeek: 7, length: 3 };
+    expect(movesBeforeStretch(moves, stretch)).toEqual([{ week: 3 }, { week: 4 }]);
+    expect(movesBeforeStretch(moves, stretch, 1)).toEqual([{ week: 4 }]);
+  });
+});
@@ -0,0 +1,46 @@
+export type Stretch = {
+  result: "W" | "L";
+  startWeek: number;
+  endWeek: number;
+  length: number;
+};
+
+// Runs of consecutive wins or losses at least minLength long. A tie or a
+// week without a result ends the run.
+export function findStretches(
+  weeks: number[],
+  outcomes: (string | null | undefined)[],
+  minLength = 3
+): Stretch[] {
+  const stretches: Stretch[] = [];
+  let runStart = 0;
+  for (let idx = 1; idx <= weeks.length; idx += 1) {
+    const current = outcomes[runStart];
+    if (idx < weeks.length && outcomes[idx] === current) continue;
+    const length = idx - runStart;
+    if ((current === "W" || current === "L") && length >= minLength) {
+      stretches.push({
+        result: current,
+        startWeek: weeks[runStart],
+        endWeek: weeks[idx - 1],
+        length,
+      });
+    }
+    runStart = idx;
+  }
+  return stretches;
+}
+
+// Moves made in the `lookback` weeks before a stretch began.
+export function movesBeforeStretch<T extends { week: number | null }>(
+  moves: T[],
+  stretch: Stretch,
+  lookback = 2
+): T[] {
+  return moves.filter(
+    (move) =>
+      move.week != null &&
+      move.week < stretch.startWeek &&
+      move.week >= stretch.startWeek - lookback
+  );
+}
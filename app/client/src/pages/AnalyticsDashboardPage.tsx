@@ -14,6 +14,8 @@ import {
   Tooltip as RechartsTooltip,
   BarChart,
   Bar,
+  LineChart,
+  Line,
   ScatterChart,
   Scatter,
   Cell,
@@ -27,6 +29,26 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { formatCategoryValue, formatSample, scaleToBest } from "@/lib/categories";
+import { buildStandingsFrames, playoffWeeks } from "@/lib/standings";
+import { findStretches, movesBeforeStretch } from "@/lib/streaks";
+import type {
+  CategoryStatsResponse,
+  LuckResponse,
+  WinLossRecord,
+  MatchupPreviewResponse,
+  PlayoffGame,
+  PlayoffOddsResponse,
+  PlayoffsResponse,
+  PowerRankingsResponse,
+  RosterMovesEntry,
+  SeasonAnalyticsResponse,
+  StrengthOfScheduleResponse,
+  TradeImpactResponse,
+  TransactionEntry,
+  TransactionsResponse,
+  WeeklyMatrixResponse,
+} from "@shared/contract";
 
 type LegendEntry = {
   value: string;
@@ -50,60 +72,6 @@ const RadarLegendContent = ({ payload }: { payload?: LegendEntry[] }) => {
   );
 };
 
-type WeeklyMatrixResponse = {
-  season_year: number;
-  league_key: string;
-  teams: string[];
-  weeks: number[];
-  points: (number | null)[][];
-  outcome: (string | null)[][];
-  oppPoints: (number | null)[][];
-  oppName: (string | null)[][];
-};
-
-type CategoryStatsResponse = {
-  season_year: number;
-  league_key: string;
-  categories: {
-    id: string;
-    name: string;
-    display_name: string;
-    sort_order: number | null;
-    decimal_places: number | null;
-  }[];
-  teams: {
-    key: string;
-    name: string;
-    totals: Record<string, number>;
-    outcomes: Record<
-      string,
-      {
-        wins: number;
-        losses: number;
-        ties: number;
-        winPct: number | null;
-        played: number;
-      }
-    >;
-  }[];
-};
-
-type StandingsEntry = {
-  team: string;
-  rank: number;
-  points: number;
-  wins: number;
-  losses: number;
-  ties: number;
-  teamIndex: number;
-};
-
-type StandingsFrame = {
-  week: number;
-  entries: StandingsEntry[];
-  byTeam: Map<string, StandingsEntry>;
-};
-
 type StandingsDisplayRow = {
   team: string;
   color: string;
@@ -125,6 +93,7 @@ type HoverState = {
   result: string;
   oppName: string;
   oppValue: number | null;
+  oppStrength: number | null;
 };
 
 type RadarDatum = {
@@ -132,6 +101,8 @@ type RadarDatum = {
   label: string;
   total: number;
   totalScaled: number;
+  isRate: boolean;
+  sample: string | null;
   winPct: number;
   wins: number;
   losses: number;
@@ -145,65 +116,6 @@ type RadarTeamDataset = {
   data: RadarDatum[];
 };
 
-type SharpeEntry = {
-  teamKey: string;
-  teamName: string;
-  categories: {
-    statId: string;
-    label: string;
-    mean: number;
-    stdDev: number;
-    sharpe: number | null;
-    samples: number;
-  }[];
-};
-
-type EbitdaEntry = {
-  teamKey: string;
-  teamName: string;
-  totalDelta: number;
-  categories: {
-    statId: string;
-    label: string;
-    actual: number;
-    expected: number;
-    delta: number;
-  }[];
-};
-
-type ContributionEntry = {
-  teamKey: string;
-  teamName: string;
-  total: number;
-  categories: {
-    statId: string;
-    label: string;
-    value: number;
-  }[];
-};
-
-type RosterMovesEntry = {
-  teamKey: string;
-  teamName: string;
-  moves: number;
-  trades: number;
-  wins: number;
-  losses: number;
-  ties: number;
-  winPct: number | null;
-};
-
-type SeasonAnalyticsResponse = {
-  season_year: number;
-  league_key: string;
-  from: number;
-  to: number;
-  sharpe: SharpeEntry[];
-  ebitda: EbitdaEntry[];
-  contributionTree: ContributionEntry[];
-  rosterMoves: RosterMovesEntry[];
-};
-
 type YahooStandingsResponse = {
   fantasy_content?: {
     league?: [unknown, {
@@ -249,6 +161,77 @@ function deepFindFirstValue(node: any, key: string): any {
   return walk(node);
 }
 
+// Forwards the page's ?league=&year= selection to the API routes.
+function apiUrl(path: string, extra: Record<string, string> = {}) {
+  const current = new URLSearchParams(window.location.search);
+  const params = new URLSearchParams(extra);
+  for (const key of ["league", "year"]) {
+    const value = current.get(key);
+    if (value) params.set(key, value);
+  }
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+function BracketGame({ game }: { game: PlayoffGame }) {
+  return (
+    <div className="overflow-hidden rounded-lg border border-border bg-card/40 text-sm">
+      {game.teams.map((team, idx) => {
+        const won = game.winnerKey === team.key;
+        const lost = game.winnerKey != null && !won;
+        return (
+          <div
+            key={team.key}
+            className={`flex items-center justify-between gap-3 px-3 py-2 ${idx ? "border-t border-border/60" : ""} ${
+              lost ? "text-muted-foreground" : "text-foreground"
+            }`}
+          >
+            <span className={won ? "font-semibold" : ""}>
+              {team.seed != null && <span className="mr-2 text-xs text-muted-foreground">{team.seed}</span>}
+              {team.name}
+            </span>
+            <span className="tabular-nums">{team.categoryWins}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function seasonLabel(year: number) {
+  const start = year % 100;
+  return `${String(start).padStart(2, "0")}/${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+// One line per player, from the selected team's side of the move.
+function describeMove(tx: TransactionEntry, teamKey: string) {
+  return tx.players
+    .filter((p) => p.fromTeamKey === teamKey || p.toTeamKey === teamKey)
+    .map((p) => {
+      const incoming = p.toTeamKey === teamKey;
+      if (p.action === "trade") return `${incoming ? "Acquired" : "Traded"} ${p.name}`;
+      return `${incoming ? "Added" : "Dropped"} ${p.name}`;
+    });
+}
+
+function formatSplit(value: number | null, digits = 1) {
+  return value == null ? "–" : value.toFixed(digits);
+}
+
+function formatPct(value: number | null) {
+  return value == null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function formatRecord(rec: WinLossRecord) {
+  return rec.ties ? `${rec.wins}-${rec.losses}-${rec.ties}` : `${rec.wins}-${rec.losses}`;
+}
+
+function formatRankDelta(delta: number | null) {
+  if (delta == null) return "new";
+  if (delta === 0) return "–";
+  return delta > 0 ? `▲${delta}` : `▼${-delta}`;
+}
+
 function clamp01(value: number) {
   return Math.max(0, Math.min(1, value));
 }
@@ -372,7 +355,7 @@ function formatDiff(a: number | null, b: number | null) {
 function useHeatmapData(matrix: WeeklyMatrixResponse | null) {
   return useMemo(() => {
     if (!matrix) return null;
-    const { teams, weeks, points, outcome, oppName, oppPoints } = matrix;
+    const { teams, weeks, points, outcome, oppName, oppPoints, stage } = matrix;
     const MAX_WEEKS = 21;
     const weekCount = Math.min(weeks.length, MAX_WEEKS);
     const trimmedWeeks = weeks.slice(0, weekCount);
@@ -383,6 +366,7 @@ function useHeatmapData(matrix: WeeklyMatrixResponse | null) {
     const outcomeTrimmed = outcome ? trimMaybe(outcome) : [];
     const oppNameTrimmed = oppName ? trimMaybe(oppName) : [];
     const oppPointsTrimmed = oppPoints ? trimMaybe(oppPoints) : [];
+    const stageTrimmed = stage ? trimMaybe(stage) : [];
 
     let min = Infinity;
     let max = -Infinity;
@@ -405,6 +389,7 @@ function useHeatmapData(matrix: WeeklyMatrixResponse | null) {
       outcome: outcomeTrimmed,
       oppName: oppNameTrimmed,
       oppPoints: oppPointsTrimmed,
+      stage: stageTrimmed,
       min,
       max,
     };
@@ -415,20 +400,12 @@ function computeRadarDatasets(stats: CategoryStatsResponse | null) {
   return useMemo(() => {
     if (!stats) return null;
     const rawCategories = stats.categories || [];
-    const categories = rawCategories.filter((category) => {
-      const label = (category.display_name || category.name || category.id || "").toUpperCase();
-      return label !== "SA";
-    });
+    // display-only stats (SA, GA, TOI) feed the rates but aren't contested
+    const categories = rawCategories.filter((category) => !category.is_only_display);
     const { teams } = stats;
-    const maxByCategory: Record<string, number> = {};
-    for (const team of teams) {
-      for (const category of categories) {
-        const value = team.totals[category.id] ?? 0;
-        if (!Number.isFinite(value)) continue;
-        if (!maxByCategory[category.id] || value > maxByCategory[category.id]) {
-          maxByCategory[category.id] = value;
-        }
-      }
+    const valuesByCategory: Record<string, number[]> = {};
+    for (const category of categories) {
+      valuesByCategory[category.id] = teams.map((team) => team.totals[category.id] ?? 0);
     }
 
     const datasets: RadarTeamDataset[] = teams.map((team) => {
@@ -446,12 +423,16 @@ function computeRadarDatasets(stats: CategoryStatsResponse | null) {
         totalWins += outcome.wins;
         totalLosses += outcome.losses;
         totalTies += outcome.ties;
-        const max = maxByCategory[category.id] || 1;
         return {
           id: category.id,
           label: category.display_name,
           total,
-          totalScaled: max ? total / max : 0,
+          totalScaled: scaleToBest(total, valuesByCategory[category.id], category.higherIsBetter),
+          isRate: category.isRate,
+          sample:
+            category.sampleLabel && team.samples[category.id] != null
+              ? formatSample(team.samples[category.id], category.sampleLabel)
+              : null,
           winPct: outcome.winPct ?? 0,
           wins: outcome.wins,
           losses: outcome.losses,
@@ -483,8 +464,27 @@ export default function AnalyticsDashboardPage() {
   const [analytics, setAnalytics] = useState<SeasonAnalyticsResponse | null>(null);
   const [analyticsError, setAnalyticsError] = useState<string | null>(null);
   const [selectedContributionTeam, setSelectedContributionTeam] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<TransactionsResponse | null>(null);
+  const [transactionsError, setTransactionsError] = useState<string | null>(null);
+  const [selectedTimelineTeam, setSelectedTimelineTeam] = useState<string | null>(null);
+  const [selectedTrade, setSelectedTrade] = useState<string | null>(null);
+  const [tradeImpact, setTradeImpact] = useState<TradeImpactResponse | null>(null);
+  const [tradeImpactError, setTradeImpactError] = useState<string | null>(null);
   const [standingsProgress, setStandingsProgress] = useState(0);
   const [standingsPlaying, setStandingsPlaying] = useState(false);
+  const [standingsIncludePlayoffs, setStandingsIncludePlayoffs] = useState(false);
+  const [playoffs, setPlayoffs] = useState<PlayoffsResponse | null>(null);
+  const [playoffsError, setPlayoffsError] = useState<string | null>(null);
+  const [playoffOdds, setPlayoffOdds] = useState<PlayoffOddsResponse | null>(null);
+  const [playoffOddsError, setPlayoffOddsError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<MatchupPreviewResponse | null>(null);
+  const [powerRankings, setPowerRankings] = useState<PowerRankingsResponse | null>(null);
+  const [powerRankingsError, setPowerRankingsError] = useState<string | null>(null);
+  const [luck, setLuck] = useState<LuckResponse | null>(null);
+  const [luckError, setLuckError] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<StrengthOfScheduleResponse | null>(null);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [heatmapShowSchedule, setHeatmapShowSchedule] = useState(false);
   const [fallbackRosterMoves, setFallbackRosterMoves] = useState<RosterMovesEntry[] | null>(null);
   const [hover, setHover] = useState<HoverState | null>(null);
   const tooltipRef = useRef<HTMLDivElement | null>(null);
@@ -494,7 +494,7 @@ export default function AnalyticsDashboardPage() {
 
     const fetchHeatmap = async () => {
       try {
-        const res = await fetch("/api/weekly-matrix");
+        const res = await fetch(apiUrl("/api/weekly-matrix"));
         const json = await res.json();
         if (!res.ok) throw new Error(json?.error || res.statusText);
         if (!cancelled) setHeatmap(json);
@@ -505,7 +505,7 @@ export default function AnalyticsDashboardPage() {
 
     const fetchRadar = async () => {
       try {
-        const res = await fetch("/api/category-stats");
+        const res = await fetch(apiUrl("/api/category-stats"));
         const json = await res.json();
         if (!res.ok) throw new Error(json?.error || res.statusText);
         if (!cancelled) setRadarStats(json);
@@ -516,7 +516,7 @@ export default function AnalyticsDashboardPage() {
 
     const fetchAnalytics = async () => {
       try {
-        const res = await fetch("/api/season-analytics");
+        const res = await fetch(apiUrl("/api/season-analytics"));
         const json = await res.json();
         if (!res.ok) throw new Error(json?.error || res.statusText);
         if (!cancelled) setAnalytics(json);
@@ -525,9 +525,94 @@ export default function AnalyticsDashboardPage() {
       }
     };
 
+    const fetchTransactions = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/transactions"));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setTransactions(json);
+      } catch (err) {
+        if (!cancelled) setTransactionsError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    const fetchPlayoffs = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/playoffs"));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setPlayoffs(json);
+      } catch (err) {
+        if (!cancelled) setPlayoffsError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    const fetchPlayoffOdds = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/playoff-odds"));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setPlayoffOdds(json);
+      } catch (err) {
+        if (!cancelled) setPlayoffOddsError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    const fetchPowerRankings = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/power-rankings"));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setPowerRankings(json);
+      } catch (err) {
+        if (!cancelled) setPowerRankingsError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    const fetchLuck = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/luck-index"));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setLuck(json);
+      } catch (err) {
+        if (!cancelled) setLuckError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    const fetchSchedule = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/strength-of-schedule"));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setSchedule(json);
+      } catch (err) {
+        if (!cancelled) setScheduleError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    // no preview once the season is over, which isn't worth an error
+    const fetchPreview = async () => {
+      try {
+        const res = await fetch(apiUrl("/api/matchup-preview"));
+        if (!res.ok) return;
+        const json = await res.json();
+        if (!cancelled) setPreview(json);
+      } catch {
+        // the card simply stays hidden
+      }
+    };
+
     fetchHeatmap();
     fetchRadar();
     fetchAnalytics();
+    fetchTransactions();
+    fetchPlayoffs();
+    fetchPlayoffOdds();
+    fetchPreview();
+    fetchPowerRankings();
+    fetchLuck();
+    fetchSchedule();
     return () => {
       cancelled = true;
     };
@@ -541,7 +626,7 @@ export default function AnalyticsDashboardPage() {
     let cancelled = false;
     const loadStandingsFallback = async () => {
       try {
-        const res = await fetch("/api/standings");
+        const res = await fetch(apiUrl("/api/standings"));
         const json: YahooStandingsResponse = await res.json();
         if (!res.ok) throw new Error("standings fetch failed");
         const teamsRaw = json.fantasy_content?.league?.[1]?.standings?.[0]?.teams;
@@ -573,71 +658,62 @@ export default function AnalyticsDashboardPage() {
 
   const heatmapData = useHeatmapData(heatmap);
   const radarData = computeRadarDatasets(radarStats);
-  const standingsData = useMemo(() => {
-    if (!heatmapData) {
-      return {
-        frames: [] as StandingsFrame[],
-        order: [] as string[],
-        maxPoints: 0,
-      };
-    }
-    const { teams, weeks, outcome } = heatmapData;
-    const teamCount = teams.length;
-    if (!teamCount || !weeks.length) {
-      return {
-        frames: [] as StandingsFrame[],
-        order: teams.slice(),
-        maxPoints: 0,
-      };
-    }
-
-    const wins = Array(teamCount).fill(0);
-    const losses = Array(teamCount).fill(0);
-    const ties = Array(teamCount).fill(0);
-    const frames: StandingsFrame[] = [];
-    let maxPoints = 0;
-
-    weeks.forEach((week, weekIdx) => {
-      for (let idx = 0; idx < teamCount; idx += 1) {
-        const result = outcome?.[idx]?.[weekIdx];
-        if (result === "W") wins[idx] += 1;
-        else if (result === "L") losses[idx] += 1;
-        else if (result === "T" || result === "D") ties[idx] += 1;
-      }
+  const heatmapPlayoffWeeks = useMemo(() => new Set(playoffWeeks(heatmapData)), [heatmapData]);
+  const standingsData = useMemo(
+    () => buildStandingsFrames(heatmapData, { includePlayoffs: standingsIncludePlayoffs }),
+    [heatmapData, standingsIncludePlayoffs]
+  );
 
-      const ranked = teams
-        .map((team, idx) => {
-          const points = wins[idx] * 2 + ties[idx];
-          maxPoints = Math.max(maxPoints, points);
-          return {
-            team,
-            points,
-            wins: wins[idx],
-            losses: losses[idx],
-            ties: ties[idx],
-            teamIndex: idx,
-            rank: 0,
-          } as StandingsEntry;
-        })
-        .sort((a, b) => {
-          if (b.points !== a.points) return b.points - a.points;
-          if (b.wins !== a.wins) return b.wins - a.wins;
-          if (a.losses !== b.losses) return a.losses - b.losses;
-          return a.team.localeCompare(b.team);
-        })
-        .map((entry, orderIdx) => ({ ...entry, rank: orderIdx + 1 }));
-
-      const byTeam = new Map<string, StandingsEntry>();
-      ranked.forEach((entry) => byTeam.set(entry.team, entry));
-      frames.push({ week, entries: ranked, byTeam });
+  // one row per week, one column per team, for the odds line chart
+  const playoffOddsRows = useMemo(() => {
+    if (!playoffOdds) return [];
+    const names = new Map(playoffOdds.teams.map((t) => [t.teamKey, t.name]));
+    return playoffOdds.history.map((h) => {
+      const row: Record<string, number> = { week: h.week };
+      for (const t of h.teams) row[names.get(t.teamKey) ?? t.teamKey] = Math.round(t.playoffPct * 1000) / 10;
+      return row;
+    });
+  }, [playoffOdds]);
+
+  const powerRankingRows = useMemo(() => {
+    if (!powerRankings) return [];
+    return powerRankings.history.map((h) => {
+      const row: Record<string, number> = { week: h.week };
+      for (const t of h.teams) row[t.teamName] = t.rank;
+      return row;
     });
+  }, [powerRankings]);
+
+  const powerWeightShares = useMemo(() => {
+    if (!powerRankings) return "";
+    const { form, allPlay, sharpe, schedule } = powerRankings.weights;
+    const total = form + allPlay + sharpe + schedule;
+    return [form, allPlay, sharpe, schedule].map((w) => `${Math.round((w / total) * 100)}%`).join(" / ");
+  }, [powerRankings]);
+
+  const scheduleRows = useMemo(() => {
+    if (!schedule) return [];
+    return schedule.teams.map((t) => ({
+      teamName: t.teamName,
+      past: t.past.strength != null ? Math.round(t.past.strength * 1000) / 10 : null,
+      remaining: t.remaining.strength != null ? Math.round(t.remaining.strength * 1000) / 10 : null,
+    }));
+  }, [schedule]);
 
-    return {
-      frames,
-      order: teams.slice(),
-      maxPoints,
-    };
-  }, [heatmapData]);
+  // teamKey -> week -> opponent strength, for the heatmap overlay
+  const scheduleByTeamWeek = useMemo(() => {
+    const byTeam = new Map<string, Map<number, number | null>>();
+    for (const t of schedule?.teams ?? []) {
+      byTeam.set(t.teamKey, new Map(t.weeks.map((w) => [w.week, w.strength])));
+    }
+    return byTeam;
+  }, [schedule]);
+  const scheduleRemainingByTeam = useMemo(
+    () => new Map((schedule?.teams ?? []).map((t) => [t.teamKey, t.remaining])),
+    [schedule]
+  );
+  const showScheduleOverlay = heatmapShowSchedule && scheduleByTeamWeek.size > 0;
+  const showRestColumn = showScheduleOverlay && (schedule?.remainingWeeks.length ?? 0) > 0;
 
   const frameCount = standingsData.frames.length;
   const finalFrameIndex = frameCount ? frameCount - 1 : 0;
@@ -890,6 +966,68 @@ export default function AnalyticsDashboardPage() {
     }));
   }, [analytics?.rosterMoves, fallbackRosterMoves]);
 
+  const timelineTeams = useMemo(
+    () => (heatmap ? heatmap.teamKeys.map((key, idx) => ({ key, name: heatmap.teams[idx] })) : []),
+    [heatmap]
+  );
+
+  useEffect(() => {
+    if (!timelineTeams.length) return;
+    if (selectedTimelineTeam && timelineTeams.some((t) => t.key === selectedTimelineTeam)) return;
+    setSelectedTimelineTeam(timelineTeams[0].key);
+  }, [timelineTeams, selectedTimelineTeam]);
+
+  const timeline = useMemo(() => {
+    if (!heatmap || !selectedTimelineTeam) return null;
+    const teamIdx = heatmap.teamKeys.indexOf(selectedTimelineTeam);
+    if (teamIdx === -1) return null;
+    const moves = (transactions?.transactions ?? []).filter((tx) =>
+      tx.teams.some((t) => t.key === selectedTimelineTeam)
+    );
+    const outcomes = heatmap.outcome[teamIdx] ?? [];
+    const weeks = heatmap.weeks.map((week, weekIdx) => ({
+      week,
+      result: outcomes[weekIdx] ?? null,
+      moves: moves.filter((tx) => tx.week === week),
+    }));
+    const stretches = findStretches(heatmap.weeks, outcomes).map((stretch) => ({
+      ...stretch,
+      leadUp: movesBeforeStretch(moves, stretch),
+    }));
+    return { weeks, stretches };
+  }, [heatmap, transactions, selectedTimelineTeam]);
+
+  const trades = useMemo(
+    () => (transactions?.transactions ?? []).filter((tx) => tx.type === "trade" && tx.status === "successful").reverse(),
+    [transactions]
+  );
+
+  useEffect(() => {
+    if (!trades.length) return;
+    if (selectedTrade && trades.some((tx) => tx.key === selectedTrade)) return;
+    setSelectedTrade(trades[0].key);
+  }, [trades, selectedTrade]);
+
+  useEffect(() => {
+    if (!selectedTrade) return;
+    let cancelled = false;
+    const fetchTradeImpact = async () => {
+      try {
+        setTradeImpactError(null);
+        const res = await fetch(apiUrl("/api/trade-impact", { trade: selectedTrade }));
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) setTradeImpact(json);
+      } catch (err) {
+        if (!cancelled) setTradeImpactError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    fetchTradeImpact();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTrade]);
+
   useEffect(() => {
     if (!hover || !tooltipRef.current) return;
     const el = tooltipRef.current;
@@ -915,7 +1053,7 @@ export default function AnalyticsDashboardPage() {
       <div className="mx-auto w-full max-w-7xl px-4 pb-10 pt-12 sm:px-6 lg:px-10">
         <header className="mb-10">
           <h1 className="mt-2 text-3xl font-semibold tracking-tight">
-            HRHL Season Analysis 24/25
+            HRHL Season Analysis {heatmap ? seasonLabel(heatmap.season_year) : ""}
           </h1>
         </header>
 
@@ -946,6 +1084,21 @@ export default function AnalyticsDashboardPage() {
                       {standingsPlaying ? "Pause" : "Play"}
                     </button>
                     <span>Week {currentWeekNumber}</span>
+                    {heatmapPlayoffWeeks.size > 0 && (
+                      <button
+                        onClick={() => {
+                          setStandingsPlaying(false);
+                          setStandingsIncludePlayoffs((prev) => !prev);
+                        }}
+                        className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                          standingsIncludePlayoffs
+                            ? "border-foreground bg-foreground text-background"
+                            : "border-border text-muted-foreground hover:border-foreground/40"
+                        }`}
+                      >
+                        {standingsIncludePlayoffs ? "Incl. playoffs" : "Regular season"}
+                      </button>
+                    )}
                   </div>
                   <div className="flex-1 sm:flex sm:justify-end">
                     <input
@@ -1048,12 +1201,487 @@ export default function AnalyticsDashboardPage() {
             </section>
           ) : null}
 
+          {(powerRankings || powerRankingsError) && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">
+                  Power Rankings{powerRankings ? ` · Week ${powerRankings.week}` : ""}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  {powerRankings
+                    ? `Form over the last ${powerRankings.formWeeks} weeks, all-play record, category Sharpe and strength of schedule, each scored against the league and weighted ${powerWeightShares}.`
+                    : "Form, all-play record, category Sharpe and strength of schedule."}
+                </p>
+              </div>
+              {powerRankingsError && <p className="text-sm text-red-400">{powerRankingsError}</p>}
+              {powerRankings && (
+                <div className="grid gap-6 xl:grid-cols-2">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <table className="w-full text-sm">
+                        <thead className="text-xs text-muted-foreground">
+                          <tr>
+                            <th className="py-1 text-left font-medium">#</th>
+                            <th className="py-1 text-left font-medium" />
+                            <th className="py-1 text-left font-medium">Team</th>
+                            <th className="py-1 text-right font-medium">Record</th>
+                            <th className="py-1 text-right font-medium">Form</th>
+                            <th className="py-1 text-right font-medium">All-play</th>
+                            <th className="py-1 text-right font-medium">Sharpe</th>
+                            <th className="py-1 text-right font-medium">SoS</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {powerRankings.teams.map((team) => (
+                            <tr key={team.teamKey} className="border-t border-border/60">
+                              <td className="py-1 tabular-nums">{team.rank}</td>
+                              <td
+                                className={`py-1 text-xs tabular-nums ${
+                                  team.delta && team.delta > 0
+                                    ? "text-emerald-400"
+                                    : team.delta && team.delta < 0
+                                    ? "text-red-400"
+                                    : "text-muted-foreground"
+                                }`}
+                              >
+                                {formatRankDelta(team.delta)}
+                              </td>
+                              <td className="py-1">{team.teamName}</td>
+                              <td className="py-1 text-right tabular-nums">{formatRecord(team.record)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.components.form)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.components.allPlay)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatSplit(team.components.sharpe, 2)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.components.schedule)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="h-72 pt-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={powerRankingRows} margin={{ top: 8, right: 12, bottom: 8 }}>
+                          <CartesianGrid stroke="rgba(255,255,255,0.05)" />
+                          <XAxis
+                            dataKey="week"
+                            stroke="#6b7280"
+                            tick={{ fill: "#9ca3af", fontSize: 10 }}
+                            tickFormatter={(w) => `W${w}`}
+                          />
+                          <YAxis
+                            reversed
+                            allowDecimals={false}
+                            domain={[1, powerRankings.teams.length]}
+                            stroke="#6b7280"
+                            tick={{ fill: "#6b7280", fontSize: 10 }}
+                          />
+                          <RechartsTooltip
+                            contentStyle={{ background: "#111", border: "1px solid #333", fontSize: 12 }}
+                            formatter={(value) => `#${value}`}
+                            labelFormatter={(w) => `Week ${w}`}
+                          />
+                          {powerRankings.teams.map((team, idx) => (
+                            <Line
+                              key={team.teamKey}
+                              type="monotone"
+                              dataKey={team.teamName}
+                              stroke={SCATTER_COLORS[idx % SCATTER_COLORS.length]}
+                              strokeWidth={2}
+                              dot={false}
+                              isAnimationActive={false}
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </section>
+          )}
+
+          {preview && preview.matchups.length > 0 && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">Week {preview.week} Preview</h2>
+                <p className="text-sm text-muted-foreground">
+                  Chance of taking each category, from both teams&apos; weekly margins in weeks{" "}
+                  {preview.basedOnWeeks[0]}–{preview.basedOnWeeks[preview.basedOnWeeks.length - 1]}.
+                </p>
+              </div>
+              <div className="grid gap-6 md:grid-cols-2">
+                {preview.matchups.map((m) => (
+                  <Card key={`${m.teamA.key}-${m.teamB.key}`}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="flex items-center justify-between gap-3 text-base font-semibold">
+                        <span>{m.teamA.name}</span>
+                        <span className="text-xs font-normal text-muted-foreground">
+                          {m.expectedA.toFixed(1)} – {m.expectedB.toFixed(1)}
+                        </span>
+                        <span className="text-right">{m.teamB.name}</span>
+                      </CardTitle>
+                      <CardDescription className="flex justify-between text-xs">
+                        <span>Win {formatPct(m.winProbA)}</span>
+                        {m.tieProb >= 0.005 && <span>Tie {formatPct(m.tieProb)}</span>}
+                        <span>Win {formatPct(m.winProbB)}</span>
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-1.5">
+                      {m.categories.map((cat) => (
+                        <div key={cat.statId} className="flex items-center gap-2 text-xs">
+                          <span className="w-10 text-right tabular-nums text-muted-foreground">{formatPct(cat.probA)}</span>
+                          <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-accent">
+                            <div
+                              className="absolute inset-y-0 left-0 rounded-full bg-emerald-400/80"
+                              style={{ width: `${cat.probA * 100}%` }}
+                            />
+                          </div>
+                          <span className="w-10 tabular-nums text-muted-foreground">{formatPct(1 - cat.probA)}</span>
+                          <span className="w-12 text-foreground">{cat.label}</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {playoffs?.usesPlayoff && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">Playoff Bracket</h2>
+                <p className="text-sm text-muted-foreground">
+                  {playoffs.numPlayoffTeams ?? "?"} teams from week {playoffs.playoffStartWeek ?? "?"}
+                  {playoffs.numConsolationTeams ? `, ${playoffs.numConsolationTeams} in the consolation bracket` : ""}.
+                  {" "}Seeds come from the regular-season standings.
+                </p>
+              </div>
+              {playoffsError && <p className="text-sm text-red-400">{playoffsError}</p>}
+              {playoffs.champion && (
+                <p className="text-sm font-semibold text-amber-400">Champion: {playoffs.champion.name}</p>
+              )}
+              {playoffs.rounds.length ? (
+                <div className="flex gap-6 overflow-x-auto pb-2">
+                  {playoffs.rounds.map((round) => (
+                    <div key={round.week} className="min-w-[240px] space-y-3">
+                      <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        Round {round.round} · Week {round.week}
+                        {round.settled ? "" : " · in progress"}
+                      </p>
+                      {(["championship", "consolation"] as const).map((bracket) => {
+                        const games = round.games.filter((g) => g.bracket === bracket);
+                        if (!games.length) return null;
+                        return (
+                          <div key={bracket} className="space-y-2">
+                            {bracket === "consolation" && (
+                              <p className="text-[11px] uppercase tracking-wide text-muted-foreground/70">Consolation</p>
+                            )}
+                            {games.map((game) => (
+                              <BracketGame key={game.teams.map((t) => t.key).join("-")} game={game} />
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {playoffs.seeds
+                    .filter((s) => s.inPlayoffs)
+                    .map((s) => (
+                      <span key={s.teamKey} className="rounded-full border border-border bg-accent px-3 py-1 text-sm text-muted-foreground">
+                        #{s.seed} {s.name}
+                      </span>
+                    ))}
+                </div>
+              )}
+              {playoffs.eliminated.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Eliminated: {playoffs.eliminated.map((e) => `${e.name} (wk ${e.week})`).join(", ")}
+                </p>
+              )}
+            </section>
+          )}
+
+          {(playoffOdds || playoffOddsError) && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">Playoff Odds</h2>
+                <p className="text-sm text-muted-foreground">
+                  {playoffOdds
+                    ? `${playoffOdds.iterations.toLocaleString()} simulations of the remaining regular season${
+                        playoffOdds.remainingWeeks.length ? ` (weeks ${playoffOdds.remainingWeeks.join(", ")})` : ""
+                      }, drawing each category from the team’s weekly margins so far. Top ${playoffOdds.numPlayoffTeams} make the playoffs.`
+                    : "Simulated chances of making the playoffs."}
+                </p>
+              </div>
+              {playoffOddsError && <p className="text-sm text-red-400">{playoffOddsError}</p>}
+              {playoffOdds && (
+                <div className="grid gap-6 xl:grid-cols-2">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <table className="w-full text-sm">
+                        <thead className="text-xs text-muted-foreground">
+                          <tr>
+                            <th className="py-1 text-left font-medium">Team</th>
+                            <th className="py-1 text-right font-medium">Playoffs</th>
+                            {playoffOdds.numByes > 0 && <th className="py-1 text-right font-medium">Bye</th>}
+                            <th className="py-1 text-right font-medium">Exp. seed</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {playoffOdds.teams.map((team) => (
+                            <tr key={team.teamKey} className="border-t border-border/60">
+                              <td className="py-1">{team.name}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.playoffPct)}</td>
+                              {playoffOdds.numByes > 0 && (
+                                <td className="py-1 text-right tabular-nums">{formatPct(team.byePct)}</td>
+                              )}
+                              <td className="py-1 text-right tabular-nums">{team.expectedSeed.toFixed(1)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="h-72 pt-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={playoffOddsRows} margin={{ top: 8, right: 12, bottom: 8 }}>
+                          <CartesianGrid stroke="rgba(255,255,255,0.05)" />
+                          <XAxis
+                            dataKey="week"
+                            stroke="#6b7280"
+                            tick={{ fill: "#9ca3af", fontSize: 10 }}
+                            tickFormatter={(w) => `W${w}`}
+                          />
+                          <YAxis
+                            domain={[0, 100]}
+                            stroke="#6b7280"
+                            tick={{ fill: "#6b7280", fontSize: 10 }}
+                            tickFormatter={(v) => `${v}%`}
+                          />
+                          <RechartsTooltip
+                            contentStyle={{ background: "#111", border: "1px solid #333", fontSize: 12 }}
+                            formatter={(value) => `${value}%`}
+                            labelFormatter={(w) => `After week ${w}`}
+                          />
+                          {playoffOdds.teams.map((team, idx) => (
+                            <Line
+                              key={team.teamKey}
+                              type="monotone"
+                              dataKey={team.name}
+                              stroke={SCATTER_COLORS[idx % SCATTER_COLORS.length]}
+                              strokeWidth={2}
+                              dot={false}
+                              isAnimationActive={false}
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </section>
+          )}
+
+          {(luck || luckError) && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">Luck Index</h2>
+                <p className="text-sm text-muted-foreground">
+                  Each week replayed against every other team&apos;s stats that week. Luck is actual wins minus the
+                  wins that all-play rate would have earned over the same schedule; above zero means a soft draw.
+                </p>
+              </div>
+              {luckError && <p className="text-sm text-red-400">{luckError}</p>}
+              {luck && (
+                <div className="grid gap-6 xl:grid-cols-2">
+                  <Card>
+                    <CardContent className="h-72 pt-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={luck.teams} layout="vertical" margin={{ top: 8, right: 12, bottom: 8 }}>
+                          <CartesianGrid stroke="rgba(255,255,255,0.05)" horizontal={false} />
+                          <XAxis type="number" stroke="#6b7280" tick={{ fill: "#6b7280", fontSize: 10 }} />
+                          <YAxis
+                            type="category"
+                            dataKey="teamName"
+                            stroke="#6b7280"
+                            width={160}
+                            interval={0}
+                            tick={{ fill: "#9ca3af", fontSize: 11 }}
+                          />
+                          <RechartsTooltip
+                            cursor={{ fill: "rgba(0,0,0,0.2)" }}
+                            content={({ active, payload }) => {
+                              if (!active || !payload?.length) return null;
+                              const bar = payload[0]?.payload;
+                              if (!bar) return null;
+                              return (
+                                <div className="pointer-events-none rounded-xl border border-border bg-card/95 px-3 py-2 text-xs text-card-foreground shadow-xl">
+                                  <p className="font-medium">{bar.teamName}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {bar.actualWins.toFixed(1)} wins vs {bar.expectedWins.toFixed(1)} expected
+                                  </p>
+                                </div>
+                              );
+                            }}
+                          />
+                          <Bar dataKey="luck">
+                            {luck.teams.map((entry) => (
+                              <Cell key={entry.teamKey} fill={entry.luck < 0 ? NEGATIVE_SOLID : POSITIVE_SOLID} />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <table className="w-full text-sm">
+                        <thead className="text-xs text-muted-foreground">
+                          <tr>
+                            <th className="py-1 text-left font-medium">Team</th>
+                            <th className="py-1 text-right font-medium">Actual</th>
+                            <th className="py-1 text-right font-medium">All-play</th>
+                            <th className="py-1 text-right font-medium">All-play %</th>
+                            <th className="py-1 text-right font-medium">Luck</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {luck.teams.map((team) => (
+                            <tr key={team.teamKey} className="border-t border-border/60">
+                              <td className="py-1">{team.teamName}</td>
+                              <td className="py-1 text-right tabular-nums">{formatRecord(team.actual)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatRecord(team.allPlay)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.allPlayPct)}</td>
+                              <td
+                                className={`py-1 text-right tabular-nums ${team.luck < 0 ? "text-red-400" : "text-emerald-400"}`}
+                              >
+                                {team.luck > 0 ? "+" : ""}
+                                {team.luck.toFixed(1)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </section>
+          )}
+
+          {(schedule || scheduleError) && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">Strength of Schedule</h2>
+                <p className="text-sm text-muted-foreground">
+                  How good each team&apos;s opponents have been: the share of categories they win and of standings
+                  points they take, averaged over the games played
+                  {schedule?.remainingWeeks.length ? " and the games still to come" : ""}. Rank 1 is the toughest.
+                </p>
+              </div>
+              {scheduleError && <p className="text-sm text-red-400">{scheduleError}</p>}
+              {schedule && (
+                <div className="grid gap-6 xl:grid-cols-2">
+                  <Card>
+                    <CardContent className="h-72 pt-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={scheduleRows} layout="vertical" margin={{ top: 8, right: 12, bottom: 8 }}>
+                          <CartesianGrid stroke="rgba(255,255,255,0.05)" horizontal={false} />
+                          <XAxis
+                            type="number"
+                            domain={[0, 100]}
+                            stroke="#6b7280"
+                            tick={{ fill: "#6b7280", fontSize: 10 }}
+                            tickFormatter={(v) => `${v}%`}
+                          />
+                          <YAxis
+                            type="category"
+                            dataKey="teamName"
+                            stroke="#6b7280"
+                            width={160}
+                            interval={0}
+                            tick={{ fill: "#9ca3af", fontSize: 11 }}
+                          />
+                          <RechartsTooltip
+                            cursor={{ fill: "rgba(0,0,0,0.2)" }}
+                            contentStyle={{ background: "#111", border: "1px solid #333", fontSize: 12 }}
+                            formatter={(value) => `${value}%`}
+                          />
+                          <Bar dataKey="past" name="Played" fill={SCATTER_COLORS[0]} isAnimationActive={false} />
+                          {schedule.remainingWeeks.length > 0 && (
+                            <Bar dataKey="remaining" name="Remaining" fill={SCATTER_COLORS[1]} isAnimationActive={false} />
+                          )}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <table className="w-full text-sm">
+                        <thead className="text-xs text-muted-foreground">
+                          <tr>
+                            <th className="py-1 text-left font-medium">#</th>
+                            <th className="py-1 text-left font-medium">Team</th>
+                            <th className="py-1 text-right font-medium">Opp cat %</th>
+                            <th className="py-1 text-right font-medium">Opp pts %</th>
+                            <th className="py-1 text-right font-medium">Played</th>
+                            {schedule.remainingWeeks.length > 0 && (
+                              <th className="py-1 text-right font-medium">Remaining</th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {schedule.teams.map((team) => (
+                            <tr key={team.teamKey} className="border-t border-border/60">
+                              <td className="py-1 tabular-nums">{team.pastRank ?? "–"}</td>
+                              <td className="py-1">{team.teamName}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.past.catWinPct)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.past.pointsPct)}</td>
+                              <td className="py-1 text-right tabular-nums">{formatPct(team.past.strength)}</td>
+                              {schedule.remainingWeeks.length > 0 && (
+                                <td className="py-1 text-right tabular-nums">
+                                  {formatPct(team.remaining.strength)}
+                                  {team.remainingRank != null && (
+                                    <span className="ml-1 text-xs text-muted-foreground">#{team.remainingRank}</span>
+                                  )}
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </section>
+          )}
+
           <section className="space-y-4">
             <div>
               <h2 className="text-2xl font-semibold tracking-tight">Weekly Category Wins</h2>
               <p className="text-sm text-muted-foreground">
                 Compare each team’s cumulative production (filled radar) against category win percentage (outline).
               </p>
+              {schedule && (
+                <button
+                  onClick={() => setHeatmapShowSchedule((prev) => !prev)}
+                  className={`mt-2 rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                    heatmapShowSchedule
+                      ? "border-foreground bg-foreground text-background"
+                      : "border-border text-muted-foreground hover:border-foreground/40"
+                  }`}
+                >
+                  Opponent strength
+                </button>
+              )}
             </div>
             {!heatmapData && !heatmapError && (
               <div className="h-48 animate-pulse rounded-xl bg-accent/40" />
@@ -1061,6 +1689,12 @@ export default function AnalyticsDashboardPage() {
             {heatmapError && (
               <p className="text-sm text-red-400">{heatmapError}</p>
             )}
+            {heatmap?.warnings.length ? (
+              <p className="text-sm text-amber-400">
+                Missing week{heatmap.warnings.length === 1 ? "" : "s"}{" "}
+                {heatmap.warnings.map((w) => w.week ?? "?").join(", ")}: Yahoo didn’t respond, so these totals are partial.
+              </p>
+            ) : null}
             {heatmapData && (
               <div className="relative">
                 <div className="overflow-x-auto rounded-xl border border-border">
@@ -1073,11 +1707,23 @@ export default function AnalyticsDashboardPage() {
                         {heatmapData.weeks.map((week) => (
                           <th
                             key={week}
-                            className="sticky top-0 z-10 border-b border-border bg-[#131313] px-3 py-3 text-center font-semibold"
+                            className={`sticky top-0 z-10 border-b border-border bg-[#131313] px-3 py-3 text-center font-semibold ${
+                              heatmapPlayoffWeeks.has(week) ? "text-amber-400" : ""
+                            }`}
+                            title={heatmapPlayoffWeeks.has(week) ? "Playoff week" : undefined}
                           >
                             W{week}
+                            {heatmapPlayoffWeeks.has(week) ? " · P" : ""}
                           </th>
                         ))}
+                        {showRestColumn && (
+                          <th
+                            className="sticky top-0 z-10 border-b border-border bg-[#131313] px-3 py-3 text-center font-semibold"
+                            title="Average strength of the opponents still to play"
+                          >
+                            Rest
+                          </th>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -1095,11 +1741,14 @@ export default function AnalyticsDashboardPage() {
                             const label = formatResult(value, safResult ?? "");
                             const bg = colorForValue(value, heatmapData.min, heatmapData.max);
                             const fg = textColorForValue(value, heatmapData.min, heatmapData.max);
+                            const oppStrength = showScheduleOverlay
+                              ? scheduleByTeamWeek.get(heatmap?.teamKeys[rowIdx] ?? "")?.get(week) ?? null
+                              : null;
                             return (
                               <td
                                 key={`${team}-${week}`}
                                 tabIndex={0}
-                                className="min-w-[72px] cursor-pointer px-3 py-3 text-center align-middle font-medium outline-none transition"
+                                className="relative min-w-[72px] cursor-pointer px-3 py-3 text-center align-middle font-medium outline-none transition"
                                 style={{ background: bg, color: fg }}
                                 onMouseEnter={(evt) =>
                                   setHover({
@@ -1111,6 +1760,7 @@ export default function AnalyticsDashboardPage() {
                                     result: result ?? "",
                                     oppName: opp ?? "",
                                     oppValue: oppVal,
+                                    oppStrength,
                                   })
                                 }
                                 onMouseMove={(evt) =>
@@ -1136,14 +1786,26 @@ export default function AnalyticsDashboardPage() {
                                     result: result ?? "",
                                     oppName: opp ?? "",
                                     oppValue: oppVal,
+                                    oppStrength,
                                   });
                                 }}
                                 onBlur={() => setHover(null)}
                               >
                                 {label}
+                                {oppStrength != null && (
+                                  <span
+                                    className="absolute bottom-1 left-1 h-1 rounded-full bg-white/70"
+                                    style={{ width: `calc(${oppStrength * 100}% - 0.5rem)` }}
+                                  />
+                                )}
                               </td>
                             );
                           })}
+                          {showRestColumn && (
+                            <td className="px-3 py-3 text-center align-middle text-xs tabular-nums text-muted-foreground">
+                              {formatPct(scheduleRemainingByTeam.get(heatmap?.teamKeys[rowIdx] ?? "")?.strength ?? null)}
+                            </td>
+                          )}
                         </tr>
                       ))}
                     </tbody>
@@ -1170,6 +1832,11 @@ export default function AnalyticsDashboardPage() {
                     <p className="mt-1 text-xs text-muted-foreground">
                       {formatDiff(hover.value, hover.oppValue)}
                     </p>
+                    {hover.oppStrength != null && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Opponent strength {formatPct(hover.oppStrength)}
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -1234,8 +1901,11 @@ export default function AnalyticsDashboardPage() {
                                       {datum.label}
                                     </span>
                                     <span className="block text-sm font-semibold text-card-foreground">
-                                      Total: {datum.total.toFixed(2)}
+                                      {datum.isRate ? "Rate" : "Total"}: {formatCategoryValue(datum.total, datum.isRate)}
                                     </span>
+                                    {datum.sample && (
+                                      <span className="block text-xs text-muted-foreground">Sample: {datum.sample}</span>
+                                    )}
                                     <span className="block text-xs text-muted-foreground">
                                       Wins {datum.wins} · Losses {datum.losses}
                                       {datum.ties ? ` · Ties ${datum.ties}` : ""}
@@ -1277,6 +1947,19 @@ export default function AnalyticsDashboardPage() {
                           </RadarChart>
                         </ResponsiveContainer>
                       </div>
+                      {dataset.data.some((datum) => datum.isRate) && (
+                        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          {dataset.data
+                            .filter((datum) => datum.isRate)
+                            .map((datum) => (
+                              <span key={datum.id}>
+                                <span className="font-semibold text-foreground">{datum.label}</span>{" "}
+                                {formatCategoryValue(datum.total, true)}
+                                {datum.sample ? ` over ${datum.sample}` : ""}
+                              </span>
+                            ))}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
@@ -1612,6 +2295,212 @@ export default function AnalyticsDashboardPage() {
               </Card>
             </div>
           </section>
+
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-2xl font-semibold tracking-tight">Transaction Timeline</h2>
+              <p className="text-sm text-muted-foreground">
+                Adds, drops and trades week by week, and the moves made just before each winning or losing stretch.
+              </p>
+            </div>
+            {transactionsError && (
+              <p className="text-sm text-red-400">{transactionsError}</p>
+            )}
+
+            <Card>
+              <CardHeader className="pb-4">
+                {timelineTeams.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {timelineTeams.map((team) => {
+                      const isActive = team.key === selectedTimelineTeam;
+                      return (
+                        <button
+                          key={team.key}
+                          onClick={() => setSelectedTimelineTeam(team.key)}
+                          className={`rounded-full border px-3 py-1 text-sm transition ${
+                            isActive
+                              ? "border-foreground bg-foreground text-background"
+                              : "border-border bg-accent text-muted-foreground hover:border-foreground/40"
+                          }`}
+                        >
+                          {team.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {(!heatmap || !transactions) && !transactionsError && !heatmapError && (
+                  <div className="h-40 animate-pulse rounded-xl border border-border bg-accent/30" />
+                )}
+                {timeline && transactions && (
+                  <>
+                    <div className="flex gap-2 overflow-x-auto pb-2">
+                      {timeline.weeks.map((wk) => (
+                        <div key={wk.week} className="flex w-24 shrink-0 flex-col gap-2">
+                          <div
+                            className={`rounded-lg px-2 py-1 text-center text-xs font-semibold ${
+                              wk.result === "W"
+                                ? "bg-emerald-500/20 text-emerald-300"
+                                : wk.result === "L"
+                                  ? "bg-red-500/20 text-red-300"
+                                  : "bg-accent text-muted-foreground"
+                            }`}
+                          >
+                            Wk {wk.week} · {wk.result ?? "–"}
+                          </div>
+                          {wk.moves.map((tx) => (
+                            <div
+                              key={tx.key}
+                              className="rounded-md border border-border bg-card/60 px-2 py-1 text-[11px] text-muted-foreground"
+                              title={new Date(tx.timestamp).toLocaleString()}
+                            >
+                              {describeMove(tx, selectedTimelineTeam!).map((line) => (
+                                <p key={line}>{line}</p>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+
+                    {timeline.stretches.length ? (
+                      <div className="grid gap-4 md:grid-cols-2">
+                        {timeline.stretches.map((stretch) => (
+                          <div key={stretch.startWeek} className="rounded-xl border border-border bg-accent/20 p-4">
+                            <p className={`text-sm font-semibold ${stretch.result === "W" ? "text-emerald-300" : "text-red-300"}`}>
+                              {stretch.length}-week {stretch.result === "W" ? "winning" : "losing"} stretch, weeks {stretch.startWeek}–{stretch.endWeek}
+                            </p>
+                            {stretch.leadUp.length ? (
+                              <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                                {stretch.leadUp.flatMap((tx) =>
+                                  describeMove(tx, selectedTimelineTeam!).map((line) => (
+                                    <li key={`${tx.key}-${line}`}>Wk {tx.week}: {line}</li>
+                                  ))
+                                )}
+                              </ul>
+                            ) : (
+                              <p className="mt-2 text-xs text-muted-foreground">No moves in the two weeks before.</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No winning or losing stretch of three weeks or more yet.</p>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </section>
+
+          {trades.length > 0 && (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold tracking-tight">Trade Impact</h2>
+                <p className="text-sm text-muted-foreground">
+                  Each side&apos;s weekly category output and win rate before and after a trade, and what the incoming players produced.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {trades.map((tx) => {
+                  const isActive = tx.key === selectedTrade;
+                  return (
+                    <button
+                      key={tx.key}
+                      onClick={() => setSelectedTrade(tx.key)}
+                      className={`rounded-full border px-3 py-1 text-sm transition ${
+                        isActive
+                          ? "border-foreground bg-foreground text-background"
+                          : "border-border bg-accent text-muted-foreground hover:border-foreground/40"
+                      }`}
+                    >
+                      {tx.teams.map((t) => t.name).join(" ⇄ ")}
+                      {tx.week != null ? ` · Wk ${tx.week}` : ""}
+                    </button>
+                  );
+                })}
+              </div>
+              {tradeImpactError && (
+                <p className="text-sm text-red-400">{tradeImpactError}</p>
+              )}
+              {tradeImpact && tradeImpact.trade.key === selectedTrade && (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Before: {tradeImpact.beforeWeeks.length ? `weeks ${tradeImpact.beforeWeeks.join(", ")}` : "no settled weeks"}
+                    {" · "}
+                    After: {tradeImpact.afterWeeks.length ? `weeks ${tradeImpact.afterWeeks.join(", ")}` : "no settled weeks yet"}
+                  </p>
+                  <div className="grid gap-6 xl:grid-cols-2">
+                    {tradeImpact.sides.map((side) => (
+                      <Card key={side.team.key}>
+                        <CardHeader className="pb-4">
+                          <CardTitle className="text-lg font-semibold">{side.team.name}</CardTitle>
+                          <CardDescription>
+                            Received {side.received.map((p) => p.name).join(", ") || "nothing"}
+                            {" · "}
+                            Sent {side.sent.map((p) => p.name).join(", ") || "nothing"}
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                          <table className="w-full text-sm">
+                            <thead className="text-xs text-muted-foreground">
+                              <tr>
+                                <th className="py-1 text-left font-medium">Category</th>
+                                <th className="py-1 text-right font-medium">Before / wk</th>
+                                <th className="py-1 text-right font-medium">After / wk</th>
+                                <th className="py-1 text-right font-medium">Win % before → after</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {tradeImpact.categories.map((cat) => {
+                                const before = side.before[cat.id];
+                                const after = side.after[cat.id];
+                                const digits = cat.decimal_places ?? 1;
+                                return (
+                                  <tr key={cat.id} className="border-t border-border/60">
+                                    <td className="py-1">{cat.display_name}</td>
+                                    <td className="py-1 text-right">{formatSplit(before?.perWeek ?? null, digits)}</td>
+                                    <td className="py-1 text-right">{formatSplit(after?.perWeek ?? null, digits)}</td>
+                                    <td className="py-1 text-right">
+                                      {formatPct(before?.winPct ?? null)} → {formatPct(after?.winPct ?? null)}
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                          {side.received.length > 0 && (
+                            <div className="space-y-2">
+                              <p className="text-xs font-medium text-muted-foreground">Incoming players, active lineup per week</p>
+                              {side.received.map((player) => (
+                                <div key={player.playerKey} className="rounded-lg border border-border bg-accent/20 px-3 py-2 text-xs">
+                                  <p className="font-medium text-foreground">
+                                    {player.name}
+                                    <span className="ml-2 text-muted-foreground">
+                                      {player.weeksActive} week{player.weeksActive === 1 ? "" : "s"} active
+                                    </span>
+                                  </p>
+                                  {player.weeksActive > 0 && (
+                                    <p className="mt-1 text-muted-foreground">
+                                      {tradeImpact.categories
+                                        .map((cat) => `${cat.display_name} ${formatSplit(player.perWeek[cat.id] ?? null, cat.decimal_places ?? 1)}`)
+                                        .join(" · ")}
+                                    </p>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </>
+              )}
+            </section>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Navigate, useParams } from "react-router-dom";
+
+import WebflowPage from "@/components/WebflowPage";
+
+// The hand-written Webflow articles, loaded on demand by file name. Listed
+// one by one: the rest of the export (index, stats, 404, ...) sits next to
+// them and isn't an article.
+const EXPORTED_ARTICLES = import.meta.glob<string>(
+  [
+    "../../../../aspudden-dj-international-head-coach-admits-he-fell-for-social-media-draft-tips.html",
+    "../../../../draft-day-crystal-ball-bold-predictions-for-eight-teams-set-to-shake-up-the-league.html",
+    "../../../../in-league-loans-would-unlock-my-true-potential-as-manager-and-heres-why.html",
+    "../../../../maybe-a-little-fascism-is-just-what-the-league-needs.html",
+    "../../../../nifty-team-head-coach-spotted-scouting-at-london-bar.html",
+    "../../../../off-season-escapes-a-fantasy-hockey-managers-guide-to-st-tropez.html",
+    "../../../../we-should-all-petition-yahoo-to-remove-pims.html",
+  ],
+  { query: "?raw", import: "default" }
+);
+
+type ArticleState = { status: "loading" } | { status: "ready"; html: string } | { status: "missing" };
+
+async function loadArticle(slug: string) {
+  const exported = EXPORTED_ARTICLES[`../../../../${slug}.html`];
+  if (exported) return exported();
+
+  // anything else may be a generated weekly recap
+  const res = await fetch(`/api/articles/${encodeURIComponent(slug)}`);
+  if (!res.ok) return null;
+  return res.text();
+}
+
+const ArticlePage = () => {
+  const { slug = "" } = useParams();
+  const [article, setArticle] = useState<ArticleState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setArticle({ status: "loading" });
+    loadArticle(slug)
+      .then((html) => {
+        if (!cancelled) setArticle(html ? { status: "ready", html } : { status: "missing" });
+      })
+      .catch((err) => {
+        console.warn(`Could not load article ${slug}`, err);
+        if (!cancelled) setArticle({ status: "missing" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  if (article.status === "missing") return <Navigate to="/404" replace />;
+  if (article.status === "loading") return null;
+  return <WebflowPage html={article.html} />;
+};
+
+export default ArticlePage;
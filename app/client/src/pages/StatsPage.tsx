@@ -0,0 +1,137 @@
+import { useCallback } from "react";
+
+import type { RecordsResponse } from "@shared/contract";
+
+import WebflowPage from "@/components/WebflowPage";
+import { formatRecordValue, holderWhen, recordForHeading, streakSpan, winLossTie } from "@/lib/records";
+import statsHtml from "../../../../stats.html?raw";
+
+type RowContent = {
+  name: string;
+  when?: string;
+  value: string;
+};
+
+// The label such as "Single Week" inside the block headed by `heading`.
+// The Webflow export has no hooks of its own, so blocks are found by their
+// visible text.
+function sectionLabel(root: HTMLElement, heading: string, label: string) {
+  const block = Array.from(root.querySelectorAll<HTMLElement>(".fill.flex.vertical")).find(
+    (el) => el.querySelector("h3")?.textContent?.trim() === heading
+  );
+  return Array.from(block?.querySelectorAll<HTMLElement>(".text-size-small") ?? []).find((el) =>
+    el.textContent?.trim().startsWith(label)
+  );
+}
+
+// The holder rows under that label.
+function sectionRows(root: HTMLElement, heading: string, label: string) {
+  const labelEl = sectionLabel(root, heading, label);
+  return Array.from(labelEl?.parentElement?.querySelectorAll<HTMLElement>(".flex.gap-xs.align-center") ?? []);
+}
+
+function fillRow(row: HTMLElement, { name, when, value }: RowContent) {
+  row.style.display = "";
+  // the export's logos belong to whoever held the record when it was built
+  const logo = row.querySelector<HTMLElement>("[class*='team-logo-medium']");
+  if (logo) logo.className = "team-logo-medium";
+  const nameEl = row.querySelector<HTMLElement>(".grow .text-weight-semibold");
+  if (nameEl) nameEl.textContent = name;
+  const whenEl = row.querySelector<HTMLElement>(".grow .text-color-secondary");
+  if (whenEl) whenEl.textContent = when ?? "";
+  const valueEl = row.querySelector<HTMLElement>("h1");
+  if (valueEl) valueEl.textContent = value;
+}
+
+// Fills the rows in order and hides the ones left over.
+function fillRows(rows: HTMLElement[], contents: RowContent[]) {
+  rows.forEach((row, idx) => {
+    const content = contents[idx];
+    if (content) fillRow(row, content);
+    else row.style.display = "none";
+  });
+}
+
+function renderRecords(root: HTMLElement, data: RecordsResponse) {
+  root.querySelectorAll<HTMLElement>(".fill.flex.vertical h3").forEach((h3) => {
+    const heading = h3.textContent?.trim() ?? "";
+    const record = recordForHeading(data.categories, heading);
+    if (!record) return;
+    for (const [label, holder] of [
+      ["Single Week", record.singleWeek],
+      ["Season", record.singleSeason],
+    ] as const) {
+      fillRows(
+        sectionRows(root, heading, label),
+        holder ? [{ name: holder.teamName, when: holderWhen(holder), value: formatRecordValue(holder.value, record.isRate) }] : []
+      );
+    }
+  });
+
+  const titles = data.championships.filter((c) => c.titles.length);
+  fillRows(
+    sectionRows(root, "Champion Titles", "Champion"),
+    titles.map((c) => ({ name: c.name, when: c.titles.join(", "), value: String(c.titles.length) }))
+  );
+  const runnerUps = data.championships
+    .filter((c) => c.runnerUps.length)
+    .sort((a, b) => b.runnerUps.length - a.runnerUps.length);
+  fillRows(
+    sectionRows(root, "Champion Titles", "Runner up"),
+    runnerUps.map((c) => ({ name: c.name, when: c.runnerUps.join(", "), value: String(c.runnerUps.length) }))
+  );
+
+  const [first, second] = data.allTime;
+  const winsLabel = sectionLabel(root, "Wins", "Wins, All Time");
+  if (winsLabel) winsLabel.textContent = first && second?.wins === first.wins ? "Wins, All Time (Tie)" : "Wins, All Time";
+  fillRows(
+    sectionRows(root, "Wins", "Wins, All Time"),
+    data.allTime.map((r) => ({ name: r.name, when: winLossTie(r), value: String(r.wins) }))
+  );
+  fillRows(
+    sectionRows(root, "Wins", "Consecutive Matchup Victories"),
+    data.winStreaks.map((s) => ({ name: s.name, when: streakSpan(s), value: String(s.length) }))
+  );
+
+  const mostLosses = [...data.allTime].sort((a, b) => b.losses - a.losses || a.wins - b.wins);
+  fillRows(
+    sectionRows(root, "Losses", "Losses, All Time"),
+    mostLosses.map((r) => ({ name: r.name, when: winLossTie(r), value: String(r.losses) }))
+  );
+  fillRows(
+    sectionRows(root, "Losses", "Consecutive Matchup Losses"),
+    data.lossStreaks.map((s) => ({ name: s.name, when: streakSpan(s), value: String(s.length) }))
+  );
+}
+
+const StatsPage = () => {
+  const onReady = useCallback((container: HTMLElement) => {
+    let cancelled = false;
+    const params = new URLSearchParams(window.location.search);
+    const qs = ["league", "year"]
+      .filter((key) => params.get(key))
+      .map((key) => `${key}=${encodeURIComponent(params.get(key)!)}`)
+      .join("&");
+
+    const load = async () => {
+      try {
+        const res = await fetch(qs ? `/api/records?${qs}` : "/api/records");
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || res.statusText);
+        if (!cancelled) renderRecords(container, json);
+      } catch (err) {
+        // the exported copy stays up when the API is unavailable
+        console.warn("Could not load league records", err);
+      }
+    };
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return <WebflowPage html={statsHtml} onReady={onReady} />;
+};
+
+export default StatsPage;
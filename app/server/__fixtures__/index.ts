@@ -0,0 +1,50 @@
+import path from "path";
+import { fileURLToPath } from "url";
+
+import { collectSeasonFacts } from "../facts";
+import type { SeasonHistory } from "../history";
+import { buildManagerRegistry, teamManagers } from "../managers";
+import { createReplayFetch, createYahooClient } from "../yahoo";
+
+/* =========================
+   Test fixtures
+   =========================
+   A frozen four-team season in the recorder's format (see yahoo/fixtures.ts):
+   week 1 has a tied category, week 2 has a category with no stat_winner and
+   one "won" by a team outside the matchup, week 3 is still in progress.
+   Aces (team 1) also have weekly rosters for weeks 1 and 2, Cyclones
+   (team 3) for week 2, and the transaction log has one move in each week
+   plus a preseason add; the week 1 trade sends Aces' player to Cyclones.
+   888.l.4242 is the same league's finished two-week 2022 season, with the
+   same four managers under other team names and with teams 1 and 2 swapped.
+   Its week 2 is the playoffs: Old Aces beat Old Bruisers in the final and
+   Old Cyclones win the consolation game.
+*/
+
+export const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "yahoo");
+export const FIXTURE_LEAGUE_KEY = "999.l.4242";
+
+export const teamKey = (id: number) => `${FIXTURE_LEAGUE_KEY}.t.${id}`;
+
+export function fixtureClient() {
+  return createYahooClient({
+    getAccessToken: async () => "fixture",
+    fetchJson: createReplayFetch(FIXTURE_DIR),
+  });
+}
+
+// Both fixture seasons as collectLeagueHistory would return them, with
+// managers identified by GUID alone.
+export async function fixtureHistory(yahoo = fixtureClient()): Promise<SeasonHistory[]> {
+  const registry = buildManagerRegistry({});
+  const seasons = [
+    { year: 2022, leagueKey: "888.l.4242" },
+    { year: 2023, leagueKey: FIXTURE_LEAGUE_KEY },
+  ];
+  return Promise.all(
+    seasons.map(async ({ year, leagueKey }) => {
+      const teams = await yahoo.teams(leagueKey);
+      return { year, leagueKey, teams, managers: teamManagers(registry, teams), season: await collectSeasonFacts(yahoo, leagueKey) };
+    })
+  );
+}
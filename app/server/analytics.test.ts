@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { contributionEntries, ebitdaEntries, rosterMoveEntries, sharpeEntries } from "./analytics";
+import { collectSeasonFacts } from "./facts";
+import { getTeamStandingsSummary } from "./season";
+
+const yahoo = fixtureClient();
+const season = () => collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+
+function categoryOf<T extends { statId: string }>(entries: { teamKey: string; categories: T[] }[], team: number, statId: string) {
+  return entries.find((e) => e.teamKey === teamKey(team))?.categories.find((c) => c.statId === statId);
+}
+
+describe("sharpeEntries", () => {
+  it("divides the mean weekly margin by its standard deviation", async () => {
+    const sharpe = sharpeEntries(await season());
+    expect(categoryOf(sharpe, 1, "1")).toEqual({ statId: "1", label: "G", mean: 3.5, stdDev: 1.5, sharpe: 3.5 / 1.5, samples: 2 });
+    expect(categoryOf(sharpe, 1, "2")).toMatchObject({ mean: 1.5, stdDev: 3.5, sharpe: 1.5 / 3.5 });
+    expect(categoryOf(sharpe, 2, "1")).toMatchObject({ mean: -1, stdDev: 1, sharpe: -1 });
+  });
+
+  it("counts a tied week as a zero margin and scores lower-is-better stats as wins", async () => {
+    // GAA 2.5 v 2.5, then 1.8 v 2.2
+    const gaa = categoryOf(sharpeEntries(await season()), 1, "23")!;
+    expect(gaa.samples).toBe(2);
+    expect(gaa.mean).toBeCloseTo(0.2);
+    expect(gaa.sharpe).toBeCloseTo(1);
+  });
+});
+
+describe("ebitdaEntries", () => {
+  it("compares category wins to the team's share of league volume", async () => {
+    const ebitda = ebitdaEntries(await season());
+    const goals = categoryOf(ebitda, 1, "1")!;
+    expect(goals.actual).toBe(2);
+    expect(goals.expected).toBeCloseTo((11 / 27) * 3);
+    expect(goals.delta).toBeCloseTo(2 - (11 / 27) * 3);
+
+    const assists = categoryOf(ebitda, 1, "2")!;
+    expect(assists.actual).toBe(1);
+    expect(assists.expected).toBeCloseTo((17 / 56) * 4);
+
+    // GAA beats one of three and ties one in week 1, then is the league's best
+    const gaa = categoryOf(ebitda, 1, "23")!;
+    expect(gaa.actual).toBe(0.5);
+    expect(gaa.expected).toBeCloseTo(1.5);
+
+    const aces = ebitda.find((e) => e.teamKey === teamKey(1))!;
+    expect(aces.totalDelta).toBeCloseTo(aces.categories.reduce((sum, c) => sum + c.delta, 0));
+  });
+});
+
+describe("contributionEntries", () => {
+  it("counts category wins with ties as half", async () => {
+    const tree = contributionEntries(await season());
+    expect(tree.map((e) => [e.teamName, e.total])).toEqual([
+      ["Aces", 3.5],
+      ["Bruisers", 3],
+      ["Cyclones", 2],
+      ["Dekes", 1.5],
+    ]);
+    expect(categoryOf(tree, 1, "23")?.value).toBe(0.5);
+  });
+});
+
+describe("rosterMoveEntries", () => {
+  it("joins standings with move and trade counts", async () => {
+    const { teamDir } = await season();
+    const moves = rosterMoveEntries(teamDir, await getTeamStandingsSummary(yahoo, FIXTURE_LEAGUE_KEY));
+    expect(moves[0]).toEqual({
+      teamKey: teamKey(1),
+      teamName: "Aces",
+      moves: 12,
+      trades: 1,
+      wins: 3,
+      losses: 0,
+      ties: 1,
+      winPct: 0.75,
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import type {
+  ContributionEntry,
+  EbitdaEntry,
+  RosterMovesEntry,
+  SharpeEntry,
+} from "../shared/contract";
+import type { Category } from "../shared/contract";
+import {
+  type CategoryFact,
+  type OutcomeRecord,
+  type SeasonFacts,
+  addToMap,
+  ensureNestedMap,
+  leagueCategoryTotals,
+  leagueWinEquivalents,
+  teamCategoryMargins,
+  teamCategoryOutcomes,
+  teamCategoryTotals,
+  teamKeysOf,
+} from "./facts";
+import { calculateMean, calculateStdDev } from "./math";
+import { type TeamSummary, higherIsBetter, isRateCategory } from "./season";
+
+/* =========================
+   Season analytics
+   ========================= */
+
+// Consistency of weekly category margins: mean / stdDev of (own - opponent),
+// signed so a positive Sharpe is good in lower-is-better categories too.
+export function sharpeEntries(season: SeasonFacts): SharpeEntry[] {
+  const { teamDir, categories } = season;
+  const marginsByTeam = teamCategoryMargins(season.facts, categories);
+  return teamKeysOf(season).map((teamKey) => {
+    const marginMap = marginsByTeam.get(teamKey) || new Map<string, number[]>();
+    const teamName = teamDir.get(teamKey) || teamKey;
+    const categoriesData = categories.flatMap((cat) => {
+      const values = marginMap.get(cat.id) || [];
+      if (!values.length) return [];
+      const mean = calculateMean(values);
+      const stdDev = calculateStdDev(values, mean);
+      const sharpeValue = stdDev ? mean / stdDev : null;
+      return [{
+        statId: cat.id,
+        label: cat.display_name,
+        mean,
+        stdDev,
+        sharpe: sharpeValue,
+        samples: values.length,
+      }];
+    });
+    return {
+      teamKey,
+      teamName,
+      categories: categoriesData,
+    };
+  });
+}
+
+// Volume share says nothing where lower is better or for rates, so those
+// categories expect each week's all-play rate instead: the share of the
+// other teams' values that week the team's value beat, ties counting half.
+function allPlayExpectedWins(facts: CategoryFact[], cat: Category) {
+  const higher = higherIsBetter(cat);
+  const byWeek = new Map<string, Map<string, number>>();
+  for (const f of facts) {
+    if (f.statId === cat.id && f.value != null) ensureNestedMap(byWeek, String(f.week)).set(f.teamKey, f.value);
+  }
+  const expected = new Map<string, number>();
+  for (const values of byWeek.values()) {
+    if (values.size < 2) continue;
+    for (const [teamKey, own] of values) {
+      let beaten = 0;
+      for (const [other, value] of values) {
+        if (other === teamKey) continue;
+        if (own === value) beaten += 0.5;
+        else if ((own > value) === higher) beaten += 1;
+      }
+      addToMap(expected, teamKey, beaten / (values.size - 1));
+    }
+  }
+  return expected;
+}
+
+// Category wins above what a team's share of league-wide production would
+// predict: expected = (team volume / league volume) * category wins handed out.
+export function ebitdaEntries(season: SeasonFacts): EbitdaEntry[] {
+  const { teamDir, categories, facts } = season;
+  const totalsByTeam = teamCategoryTotals(facts, categories);
+  const outcomesByTeam = teamCategoryOutcomes(facts);
+  const totalsByCategory = leagueCategoryTotals(facts);
+  const winEquivalentsByCategory = leagueWinEquivalents(facts);
+  const allPlayByCategory = new Map(
+    categories
+      .filter((cat) => !cat.is_only_display && (!higherIsBetter(cat) || isRateCategory(cat)))
+      .map((cat) => [cat.id, allPlayExpectedWins(facts, cat)])
+  );
+  return teamKeysOf(season).map((teamKey) => {
+    const totalsMap = totalsByTeam.get(teamKey) || new Map<string, number>();
+    const outcomesMap = outcomesByTeam.get(teamKey) || new Map<string, OutcomeRecord>();
+    const teamName = teamDir.get(teamKey) || teamKey;
+    let totalDelta = 0;
+    const categoriesData = categories.map((cat) => {
+      const volume = totalsMap.get(cat.id) ?? 0;
+      const rec = outcomesMap.get(cat.id) || { wins: 0, losses: 0, ties: 0 };
+      const actual = rec.wins + rec.ties * 0.5;
+      const totalVolume = totalsByCategory.get(cat.id) || 0;
+      const totalWins = winEquivalentsByCategory.get(cat.id) || 0;
+      const allPlay = allPlayByCategory.get(cat.id);
+      const expected = allPlay
+        ? allPlay.get(teamKey) ?? 0
+        : totalVolume > 0 ? (volume / totalVolume) * totalWins : 0;
+      const delta = actual - expected;
+      totalDelta += delta;
+      return {
+        statId: cat.id,
+        label: cat.display_name,
+        actual,
+        expected,
+        delta,
+      };
+    });
+    return {
+      teamKey,
+      teamName,
+      totalDelta,
+      categories: categoriesData,
+    };
+  });
+}
+
+// Category wins per team, ties counting half.
+export function contributionEntries(season: SeasonFacts): ContributionEntry[] {
+  const { teamDir, categories } = season;
+  const outcomesByTeam = teamCategoryOutcomes(season.facts);
+  return teamKeysOf(season).map((teamKey) => {
+    const outcomesMap = outcomesByTeam.get(teamKey) || new Map<string, OutcomeRecord>();
+    const teamName = teamDir.get(teamKey) || teamKey;
+    let total = 0;
+    const categoriesData = categories.map((cat) => {
+      const rec = outcomesMap.get(cat.id) || { wins: 0, losses: 0, ties: 0 };
+      const value = rec.wins + rec.ties * 0.5;
+      total += value;
+      return {
+        statId: cat.id,
+        label: cat.display_name,
+        value,
+      };
+    });
+    return {
+      teamKey,
+      teamName,
+      total,
+      categories: categoriesData,
+    };
+  });
+}
+
+export function rosterMoveEntries(teamDir: Map<string, string>, standings: Map<string, TeamSummary>): RosterMovesEntry[] {
+  return [...standings.entries()].map(([teamKey, summary]) => {
+    const name = teamDir.get(teamKey) || teamKey;
+    const wins = summary.wins || 0;
+    const losses = summary.losses || 0;
+    const ties = summary.ties || 0;
+    const totalGames = wins + losses + ties;
+    const winPct = summary.winPct != null
+      ? summary.winPct
+      : totalGames > 0
+      ? (wins + ties * 0.5) / totalGames
+      : null;
+    return {
+      teamKey,
+      teamName: name,
+      moves: summary.moves || 0,
+      trades: summary.trades || 0,
+      wins,
+      losses,
+      ties,
+      winPct,
+    };
+  });
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { type TokenRequest, createAuth, createOAuthStates } from "./auth";
+import { createMemoryTokenStore, emptyTokenRecord } from "./tokenStore";
+
+const config = {
+  clientId: "id",
+  clientSecret: "secret",
+  redirectUri: "https://example.test/auth/callback",
+  seedRefreshToken: "seed",
+};
+
+// Hands out access-1, access-2, ... and rotates the refresh token each time.
+function yahooTokens() {
+  const calls: Record<string, string>[] = [];
+  const requestToken: TokenRequest = async (params) => {
+    calls.push(params);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const n = calls.length;
+    const tokens = { access_token: `access-${n}`, refresh_token: `refresh-${n}`, expires_in: 3600 };
+    return { ok: true, status: 200, text: JSON.stringify(tokens) };
+  };
+  return { calls, requestToken };
+}
+
+describe("createAuth", () => {
+  it("shares one refresh between concurrent callers", async () => {
+    const store = createMemoryTokenStore({ ...emptyTokenRecord(), accessToken: "stale", refreshToken: "refresh-0" });
+    const { calls, requestToken } = yahooTokens();
+    const auth = createAuth(store, config, requestToken);
+
+    const tokens = await Promise.all([1, 2, 3, 4].map(() => auth.ensureAccessToken()));
+    expect(tokens).toEqual(["access-1", "access-1", "access-1", "access-1"]);
+    expect(calls).toEqual([{ grant_type: "refresh_token", refresh_token: "refresh-0" }]);
+    const record = await store.read();
+    expect(record?.refreshToken).toBe("refresh-1");
+    expect(record?.rotations).toHaveLength(1);
+
+    // a fresh token is served from the store
+    expect(await auth.ensureAccessToken()).toBe("access-1");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("starts over after a failed refresh", async () => {
+    const store = createMemoryTokenStore();
+    let down = true;
+    const auth = createAuth(store, config, async () =>
+      down
+        ? { ok: false, status: 503, text: "unavailable" }
+        : { ok: true, status: 200, text: JSON.stringify({ access_token: "access", expires_in: 3600 }) }
+    );
+
+    await expect(Promise.all([auth.ensureAccessToken(), auth.ensureAccessToken()])).rejects.toThrow(/503/);
+    down = false;
+    expect(await auth.ensureAccessToken()).toBe("access");
+    // the seed from .env stays the refresh token until Yahoo rotates it
+    expect((await store.read())?.refreshToken).toBe("seed");
+  });
+});
+
+describe("createOAuthStates", () => {
+  it("accepts a state it issued once, before it expires", () => {
+    let now = 1_000_000;
+    const states = createOAuthStates("admin", () => now);
+    const state = states.issue();
+    expect(states.consume(state)).toBe(true);
+    expect(states.consume(state)).toBe(false);
+
+    const late = states.issue();
+    now += 11 * 60 * 1000;
+    expect(states.consume(late)).toBe(false);
+  });
+
+  it("rejects forged, foreign and missing states", () => {
+    const states = createOAuthStates("admin");
+    const [nonce, expiry, signature] = states.issue().split(".");
+    expect(states.consume(`${nonce}.${Number(expiry) + 1}.${signature}`)).toBe(false);
+    expect(states.consume(createOAuthStates("other").issue())).toBe(false);
+    expect(states.consume(undefined)).toBe(false);
+    // without ADMIN_SECRET no login can complete
+    const unsigned = createOAuthStates(undefined);
+    expect(unsigned.consume(unsigned.issue())).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import express from "express";
+import fetch from "node-fetch";
+
+import { requireAdminSecret, sameSecret } from "./http";
+
+import {
+  type TokenResponse,
+  type TokenStore,
+  applyTokenResponse,
+  emptyTokenRecord,
+  tokenFingerprint,
+} from "./tokenStore";
+
+/* =========================
+   OAuth (refresh token)
+   ========================= */
+
+export interface OAuthConfig {
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  redirectUri: string | undefined;
+  // .env only seeds the store; once Yahoo rotates the token the stored one wins
+  seedRefreshToken: string | undefined;
+}
+
+export type TokenRequest = (params: Record<string, string>) => Promise<{ ok: boolean; status: number; text: string }>;
+
+function yahooTokenRequest(config: OAuthConfig): TokenRequest {
+  return async (params) => {
+    const basic = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64");
+    const r = await fetch("https://api.login.yahoo.com/oauth2/get_token", {
+      method: "POST",
+      headers: { Authorization: `Basic ${basic}`, "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(params),
+    });
+    const txt = await r.text();
+    return { ok: r.ok, status: r.status, text: txt };
+  };
+}
+
+export function createAuth(tokenStore: TokenStore, config: OAuthConfig, requestToken = yahooTokenRequest(config)) {
+  let refreshing: Promise<string> | null = null;
+
+  async function rotateTokens() {
+    const record = (await tokenStore.read()) || emptyTokenRecord();
+    const refreshToken = record.refreshToken || config.seedRefreshToken;
+    if (!refreshToken) {
+      throw new Error("Missing refresh token. Visit /admin/login?secret=<ADMIN_SECRET> once to authorize, or set YAHOO_REFRESH_TOKEN in .env");
+    }
+    const { ok, status, text } = await requestToken({ grant_type: "refresh_token", refresh_token: refreshToken });
+    if (!ok) throw new Error(`refresh get_token ${status}: ${text}`);
+    const json = JSON.parse(text) as TokenResponse;
+    const seeded = record.refreshToken ? record : { ...record, refreshToken };
+    const next = applyTokenResponse(seeded, json, "refresh");
+    if (next.refreshToken !== refreshToken) console.warn("Yahoo rotated refresh_token; saved to token store");
+    await tokenStore.write(next);
+    if (!next.accessToken) throw new Error("refresh get_token returned no access_token");
+    return next.accessToken;
+  }
+
+  // The scheduler asks for a token from several fetches at once; they share
+  // one refresh so a rotated refresh_token is spent and stored exactly once.
+  function refreshAccessToken() {
+    refreshing ??= rotateTokens().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  }
+
+  async function ensureAccessToken() {
+    const record = await tokenStore.read();
+    if (record?.accessToken && Date.now() < record.accessTokenExpiresAt) return record.accessToken;
+    return refreshAccessToken();
+  }
+
+  return { requestToken, refreshAccessToken, ensureAccessToken };
+}
+
+export type Auth = ReturnType<typeof createAuth>;
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// OAuth `state` values look like <nonce>.<expiry>.<signature>, signed with
+// ADMIN_SECRET: only a login this server started can complete, once, within
+// ten minutes. Without a secret nothing verifies.
+export function createOAuthStates(secret: string | undefined, now = Date.now) {
+  const spent = new Map<string, number>();
+  const sign = (payload: string) => crypto.createHmac("sha256", secret ?? "").update(payload).digest("base64url");
+
+  function issue() {
+    const payload = `${crypto.randomBytes(16).toString("base64url")}.${now() + STATE_TTL_MS}`;
+    return `${payload}.${sign(payload)}`;
+  }
+
+  function consume(state: unknown) {
+    if (!secret || typeof state !== "string") return false;
+    const [nonce, expiry, signature, ...rest] = state.split(".");
+    if (!nonce || !expiry || !signature || rest.length) return false;
+    if (!sameSecret(signature, sign(`${nonce}.${expiry}`))) return false;
+    for (const [key, until] of spent) if (until <= now()) spent.delete(key);
+    if (Number(expiry) <= now() || spent.has(nonce)) return false;
+    spent.set(nonce, Number(expiry));
+    return true;
+  }
+
+  return { issue, consume };
+}
+
+export function authRouter(auth: Auth, tokenStore: TokenStore, config: OAuthConfig, adminSecret: string | undefined) {
+  const router = express.Router();
+  const states = createOAuthStates(adminSecret);
+
+  // one-time: obtain refresh token (if needed); open as /admin/login?secret=...
+  router.get("/admin/login", requireAdminSecret(adminSecret), (_req, res) => {
+    const p = new URLSearchParams({
+      client_id: config.clientId ?? "",
+      redirect_uri: config.redirectUri ?? "",
+      response_type: "code",
+      state: states.issue(),
+    });
+    res.redirect(`https://api.login.yahoo.com/oauth2/request_auth?${p.toString()}`);
+  });
+
+  router.get("/auth/callback", async (req, res) => {
+    try {
+      // the tokens Yahoo hands back replace the league's own, so only a login
+      // started from /admin/login may store them
+      if (!states.consume(req.query.state)) {
+        return res.status(403).type("text").send("Invalid or expired OAuth state; start again from /admin/login");
+      }
+      if (req.query.error) {
+        return res.status(400).type("html").send(
+          `<h2>OAuth error</h2><pre>${req.query.error}: ${req.query.error_description || ""}</pre>`
+        );
+      }
+      const code = req.query.code;
+      if (typeof code !== "string" || !code) return res.status(400).send("Missing ?code");
+      const { ok, status, text } = await auth.requestToken({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.redirectUri ?? "",
+      });
+      if (!ok) return res.status(status).type("text").send(text);
+      const tokens = JSON.parse(text) as TokenResponse;
+      const record = (await tokenStore.read()) || emptyTokenRecord();
+      await tokenStore.write(applyTokenResponse(record, tokens, "authorization_code"));
+      res.type("html").send(
+        "<h2>Success ✅</h2>" +
+        (tokens.refresh_token
+          ? "<p>Tokens saved to the token store. No .env changes needed.</p>"
+          : "<p>Access token saved, but Yahoo returned no refresh_token.</p>") +
+        `<p><a href="/admin/refresh-token">Token status</a> · <a href="/">Home</a></p>`
+      );
+    } catch (e) {
+      res.status(500).type("text").send(String(e));
+    }
+  });
+
+  router.get("/admin/refresh-token", async (_req, res) => {
+    try {
+      const record = await tokenStore.read();
+      const envToken = config.seedRefreshToken || null;
+      const refreshToken = record?.refreshToken || envToken;
+      res.json({
+        store: tokenStore.kind,
+        source: record?.refreshToken ? "store" : envToken ? "env" : "none",
+        refreshToken: refreshToken ? { fingerprint: tokenFingerprint(refreshToken) } : null,
+        accessToken: record?.accessToken
+          ? {
+              expiresAt: new Date(record.accessTokenExpiresAt).toISOString(),
+              expired: Date.now() >= record.accessTokenExpiresAt,
+            }
+          : null,
+        updatedAt: record?.updatedAt ?? null,
+        rotations: record?.rotations ?? [],
+      });
+    } catch (e) {
+      res.status(500).json({ error: String(e) });
+    }
+  });
+
+  return router;
+}
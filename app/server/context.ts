@@ -0,0 +1,20 @@
+import type { Auth } from "./auth";
+import type { GameKeyResolver } from "./gameKeys";
+import { type LeagueRegistry, resolveLeagueSeason } from "./leagues";
+import type { ManagerRegistry } from "./managers";
+import type { ResponseCache, YahooClient } from "./yahoo";
+
+// Everything a route needs, built once in index.ts.
+export interface AppContext {
+  dataDir: string;
+  auth: Auth;
+  yahoo: YahooClient;
+  cache: ResponseCache;
+  leagues: LeagueRegistry;
+  gameKeys: GameKeyResolver;
+  managers: ManagerRegistry;
+}
+
+export function resolveSeason(ctx: AppContext, query: { league?: unknown; year?: unknown }) {
+  return resolveLeagueSeason(ctx.leagues, ctx.gameKeys, query);
+}
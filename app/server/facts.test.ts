@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_DIR, FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import {
+  buildFactTable,
+  collectSeasonFacts,
+  leagueWinEquivalents,
+  teamCategoryMargins,
+  teamCategoryOutcomes,
+  teamCategoryTotals,
+} from "./facts";
+import { createReplayFetch, createYahooClient } from "./yahoo";
+
+const yahoo = fixtureClient();
+const season = () => collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+// The fixture client, counting scoreboard requests and failing them while `down`.
+function scoreboardClient() {
+  const replay = createReplayFetch(FIXTURE_DIR);
+  const calls = { scoreboards: 0, down: false };
+  const client = createYahooClient({
+    getAccessToken: async () => "fixture",
+    fetchJson: async (url, accessToken) => {
+      if (url.includes("scoreboard")) {
+        calls.scoreboards++;
+        if (calls.down) throw new Error("Yahoo is down");
+      }
+      return replay(url, accessToken);
+    },
+  });
+  return { client, calls };
+}
+const outcomeOf = (rec: { wins: number; losses: number; ties: number } | undefined) =>
+  rec ? [rec.wins, rec.losses, rec.ties] : null;
+
+describe("collectSeasonFacts", () => {
+  it("skips the in-progress week", async () => {
+    const { weeks, matchups } = await season();
+    expect(weeks).toEqual([1, 2]);
+    expect(matchups.some((m) => m.week === 3)).toBe(false);
+  });
+
+  it("keeps the in-progress week's dates in the calendar", async () => {
+    const { calendar } = await season();
+    expect(calendar.map((w) => [w.week, w.start, w.end])).toEqual([
+      [1, "2023-10-10", "2023-10-16"],
+      [2, "2023-10-17", "2023-10-23"],
+      [3, "2023-10-24", "2023-10-30"],
+    ]);
+  });
+
+  it("tags playoff and consolation matchups", async () => {
+    const { matchups } = await collectSeasonFacts(yahoo, "888.l.4242");
+    expect(matchups.map((m) => [m.week, m.matchup, m.stage])).toEqual([
+      [1, 0, "regular"],
+      [1, 0, "regular"],
+      [1, 1, "regular"],
+      [1, 1, "regular"],
+      [2, 0, "playoffs"],
+      [2, 0, "playoffs"],
+      [2, 1, "consolation"],
+      [2, 1, "consolation"],
+    ]);
+  });
+
+  it("records each matchup from both sides", async () => {
+    const { matchups } = await season();
+    expect(matchups.filter((m) => m.week === 1).map((m) => [m.teamKey, m.wins, m.losses, m.ties, m.result])).toEqual([
+      [teamKey(1), 1, 1, 1, "T"],
+      [teamKey(2), 1, 1, 1, "T"],
+      [teamKey(3), 2, 1, 0, "W"],
+      [teamKey(4), 1, 2, 0, "L"],
+    ]);
+    // a stat "won" by a team outside the matchup counts for nobody
+    expect(matchups.find((m) => m.week === 2 && m.teamKey === teamKey(2))).toMatchObject({
+      opponentKey: teamKey(4),
+      wins: 1,
+      losses: 0,
+      ties: 1,
+      result: "W",
+    });
+  });
+
+  it("leaves categories without a settled winner out of the outcomes", async () => {
+    const { facts } = await season();
+    const week2 = facts.filter((f) => f.week === 2);
+    expect(week2.filter((f) => f.statId === "23" && f.matchup === 0).map((f) => f.outcome)).toEqual([null, null]);
+    expect(week2.filter((f) => f.statId === "1" && f.matchup === 1).map((f) => f.outcome)).toEqual([null, null]);
+
+    const outcomes = teamCategoryOutcomes(facts);
+    expect(outcomeOf(outcomes.get(teamKey(1))?.get("1"))).toEqual([2, 0, 0]);
+    expect(outcomeOf(outcomes.get(teamKey(1))?.get("23"))).toEqual([0, 0, 1]);
+    expect(outcomeOf(outcomes.get(teamKey(2))?.get("1"))).toEqual([0, 1, 0]);
+    expect(outcomeOf(outcomes.get(teamKey(2))?.get("2"))).toEqual([1, 0, 1]);
+    expect(outcomeOf(outcomes.get(teamKey(4))?.get("1"))).toEqual([0, 1, 0]);
+  });
+
+  it("aggregates totals, margins and league-wide category wins", async () => {
+    const { facts, categories, teamDir } = await season();
+    expect(categories.map((c) => c.id).sort()).toEqual(["1", "2", "23"]);
+    expect(teamDir.get(teamKey(3))).toBe("Cyclones");
+
+    const totals = teamCategoryTotals(facts, categories).get(teamKey(1));
+    expect(totals?.get("1")).toBe(11);
+    expect(totals?.get("2")).toBe(17);
+    // a rate averages its weeks instead of adding them up
+    expect(totals?.get("23")).toBeCloseTo(2.15);
+
+    const margins = teamCategoryMargins(facts, categories).get(teamKey(3));
+    expect(margins?.get("1")).toEqual([2, -5]);
+    // lower is better for GAA, so 3.1 against 2.0 is behind
+    expect(margins?.get("23")?.[0]).toBeCloseTo(-1.1);
+    expect(Object.fromEntries(leagueWinEquivalents(facts))).toEqual({ "1": 3, "2": 4, "23": 3 });
+  });
+});
+
+describe("collectSeasonFacts caching", () => {
+  it("shares one collection between concurrent requests", async () => {
+    const { client, calls } = scoreboardClient();
+    const [a, b] = await Promise.all([
+      collectSeasonFacts(client, FIXTURE_LEAGUE_KEY, { to: 2 }),
+      collectSeasonFacts(client, FIXTURE_LEAGUE_KEY, { to: 2 }),
+    ]);
+    expect(a).toBe(b);
+    expect(calls.scoreboards).toBe(2);
+  });
+
+  it("forgets a collection that failed", async () => {
+    const { client, calls } = scoreboardClient();
+    calls.down = true;
+    await expect(collectSeasonFacts(client, FIXTURE_LEAGUE_KEY, { to: 1 })).rejects.toThrow();
+    calls.down = false;
+    expect((await collectSeasonFacts(client, FIXTURE_LEAGUE_KEY, { to: 1 })).weeks).toEqual([1]);
+  });
+});
+
+describe("buildFactTable", () => {
+  it("produces nothing for weeks without stat winners", () => {
+    const teamDir = new Map<string, string>();
+    const { matchups, facts } = buildFactTable(
+      [{
+        week: 7,
+        matchups: [{
+          week: 7,
+          weekStart: null,
+          weekEnd: null,
+          status: "midevent",
+          isPlayoffs: false,
+          isConsolation: false,
+          isTied: false,
+          winnerKey: null,
+          teams: [
+            { key: "a", name: "A", points: null, stats: { "1": 2 } },
+            { key: "b", name: "B", points: null, stats: { "1": 1 } },
+          ],
+          statWinners: [],
+        }],
+      }],
+      teamDir
+    );
+    expect(matchups).toEqual([]);
+    expect(facts).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+import type { ApiWarning, Category, MatchResult, MatchupStage } from "../shared/contract";
+import { NoDataError } from "./http";
+import { memoCache } from "./memo";
+import { seasonRates } from "./rates";
+import {
+  type WeekMatchups,
+  type WeekRange,
+  categoryOrder,
+  fetchScoreboardWeeks,
+  getStatCategories,
+  getTeamDirectory,
+  higherIsBetter,
+  isRateCategory,
+  matchupStage,
+  resolveTeamName,
+  unknownCategory,
+  winsFromStatWinners,
+} from "./season";
+import type { YahooClient } from "./yahoo";
+
+/* =========================
+   Season fact table
+   =========================
+   Every analytics route derives from these rows, so a tie or a missing
+   stat winner is interpreted exactly once. Each settled matchup yields one
+   MatchupFact and one CategoryFact per stat for each side, always from that
+   team's point of view. In-progress weeks (no stat winners yet) are skipped.
+*/
+
+export interface CategoryFact {
+  week: number;
+  // position of the matchup in that week's scoreboard
+  matchup: number;
+  teamKey: string;
+  opponentKey: string;
+  statId: string;
+  value: number | null;
+  opponentValue: number | null;
+  // null when Yahoo settled no winner for the stat: display-only stats, or a
+  // winner key that matches neither team
+  outcome: MatchResult | null;
+}
+
+export interface MatchupFact {
+  week: number;
+  matchup: number;
+  teamKey: string;
+  opponentKey: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  result: MatchResult;
+  stage: MatchupStage;
+}
+
+export interface WeekWindow {
+  week: number;
+  // "YYYY-MM-DD", inclusive
+  start: string;
+  end: string;
+}
+
+export interface SeasonFacts {
+  leagueKey: string;
+  from: number;
+  to: number;
+  teamDir: Map<string, string>;
+  categories: Category[];
+  weeks: number[];
+  // date window of every fetched week, settled or not
+  calendar: WeekWindow[];
+  matchups: MatchupFact[];
+  facts: CategoryFact[];
+  warnings: ApiWarning[];
+}
+
+export interface OutcomeRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Holds a collection while it's still running too, so routes asking for the
+// same season at once share one round of scoreboard fetches.
+const seasonFactsCache = memoCache<{ until: number; payload: Promise<SeasonFacts> }>();
+
+export function ensureNestedMap<K, V>(map: Map<string, Map<K, V>>, key: string) {
+  let inner = map.get(key);
+  if (!inner) {
+    inner = new Map();
+    map.set(key, inner);
+  }
+  return inner;
+}
+
+export function addToMap(map: Map<string, number>, key: string, amount: number) {
+  map.set(key, (map.get(key) || 0) + amount);
+}
+
+function resultOf(own: number, opp: number): MatchResult {
+  return own > opp ? "W" : own < opp ? "L" : "T";
+}
+
+export function buildFactTable(weeks: WeekMatchups[], teamDir: Map<string, string>) {
+  const matchups: MatchupFact[] = [];
+  const facts: CategoryFact[] = [];
+
+  for (const wk of weeks) {
+    wk.matchups.forEach((m, index) => {
+      const sw = winsFromStatWinners(m);
+      if (sw.total === 0) return;
+
+      const [a, b] = m.teams;
+      resolveTeamName(teamDir, a);
+      resolveTeamName(teamDir, b);
+      const stage = matchupStage(m);
+
+      matchups.push(
+        { week: wk.week, matchup: index, teamKey: a.key, opponentKey: b.key, wins: sw.a, losses: sw.b, ties: sw.ties, result: resultOf(sw.a, sw.b), stage },
+        { week: wk.week, matchup: index, teamKey: b.key, opponentKey: a.key, wins: sw.b, losses: sw.a, ties: sw.ties, result: resultOf(sw.b, sw.a), stage }
+      );
+
+      const winners = new Map<string, string | null>();
+      for (const w of m.statWinners) {
+        if (w.isTied) winners.set(w.statId, null);
+        else if (w.winnerKey === a.key || w.winnerKey === b.key) winners.set(w.statId, w.winnerKey);
+      }
+      const statIds = new Set([...Object.keys(a.stats), ...Object.keys(b.stats), ...winners.keys()]);
+
+      for (const statId of statIds) {
+        for (const [team, opp] of [[a, b], [b, a]] as const) {
+          let outcome: MatchResult | null = null;
+          if (winners.has(statId)) {
+            const winner = winners.get(statId);
+            outcome = winner == null ? "T" : winner === team.key ? "W" : "L";
+          }
+          facts.push({
+            week: wk.week,
+            matchup: index,
+            teamKey: team.key,
+            opponentKey: opp.key,
+            statId,
+            value: team.stats[statId] ?? null,
+            opponentValue: opp.stats[statId] ?? null,
+            outcome,
+          });
+        }
+      }
+    });
+  }
+
+  return { matchups, facts };
+}
+
+export function weekCalendar(weeks: WeekMatchups[]): WeekWindow[] {
+  const calendar: WeekWindow[] = [];
+  for (const wk of weeks) {
+    const m = wk.matchups.find((x) => x.weekStart && x.weekEnd);
+    if (m) calendar.push({ week: wk.week, start: m.weekStart!, end: m.weekEnd! });
+  }
+  return calendar;
+}
+
+// Settings categories plus any stat that showed up without a definition.
+export function factCategories(categories: Category[], facts: CategoryFact[]) {
+  const known = new Map(categories.map((c) => [c.id, c]));
+  for (const f of facts) {
+    if (!known.has(f.statId)) known.set(f.statId, unknownCategory(f.statId));
+  }
+  return [...known.values()].sort(categoryOrder);
+}
+
+async function buildSeasonFacts(yahoo: YahooClient, leagueKey: string, from: number, to: number): Promise<SeasonFacts> {
+  const teamDir = await getTeamDirectory(yahoo, leagueKey);
+  const { weeks, warnings } = await fetchScoreboardWeeks(yahoo, leagueKey, { from, to });
+  const { matchups, facts } = buildFactTable(weeks, teamDir);
+  if (!matchups.length) throw new NoDataError(warnings[0]?.message);
+
+  const categories = factCategories(await getStatCategories(yahoo, leagueKey), facts);
+
+  return {
+    leagueKey,
+    from,
+    to,
+    teamDir,
+    categories,
+    weeks: [...new Set(matchups.map((m) => m.week))].sort((x, y) => x - y),
+    calendar: weekCalendar(weeks),
+    matchups,
+    facts,
+    warnings,
+  };
+}
+
+export function collectSeasonFacts(
+  yahoo: YahooClient,
+  leagueKey: string,
+  { from = 1, to = 40 }: WeekRange = {}
+): Promise<SeasonFacts> {
+  const cacheKey = `${leagueKey}:${from}:${to}`;
+  const cached = seasonFactsCache.get(cacheKey);
+  if (cached && cached.until > Date.now()) return cached.payload;
+
+  const payload = buildSeasonFacts(yahoo, leagueKey, from, to);
+  const entry = { until: Date.now() + 5 * 60 * 1000, payload };
+  seasonFactsCache.set(cacheKey, entry);
+
+  // a failed or partial season isn't worth keeping; the next request retries the gaps
+  const forget = () => {
+    if (seasonFactsCache.get(cacheKey) === entry) seasonFactsCache.delete(cacheKey);
+  };
+  payload.then((season) => {
+    if (season.warnings.length) forget();
+  }, forget);
+
+  return payload;
+}
+
+/* ---------- derived views ---------- */
+
+export function teamKeysOf(season: SeasonFacts) {
+  return [...new Set(season.matchups.map((m) => m.teamKey))];
+}
+
+// Regular-season matchups and the category rows that belong to them.
+export function regularSeason(season: SeasonFacts): SeasonFacts {
+  const matchups = season.matchups.filter((m) => m.stage === "regular");
+  const played = new Set(matchups.map((m) => `${m.week}:${m.teamKey}`));
+  return {
+    ...season,
+    weeks: [...new Set(matchups.map((m) => m.week))].sort((a, b) => a - b),
+    matchups,
+    facts: season.facts.filter((f) => played.has(`${f.week}:${f.teamKey}`)),
+  };
+}
+
+// Season value per category: the sum of the weekly values, or for rate
+// stats the season rate (see rates.ts). Stats missing from `categories`
+// count as plain totals.
+export function teamCategoryTotals(facts: CategoryFact[], categories: Category[]) {
+  const rateIds = new Set(categories.filter(isRateCategory).map((c) => c.id));
+  const totals = new Map<string, Map<string, number>>();
+  for (const f of facts) {
+    if (f.value == null || rateIds.has(f.statId)) continue;
+    addToMap(ensureNestedMap(totals, f.teamKey), f.statId, f.value);
+  }
+  for (const [teamKey, byStat] of seasonRates(facts, categories)) {
+    for (const [statId, rate] of byStat) ensureNestedMap(totals, teamKey).set(statId, rate.value);
+  }
+  return totals;
+}
+
+export function teamCategoryOutcomes(facts: CategoryFact[]) {
+  const outcomes = new Map<string, Map<string, OutcomeRecord>>();
+  for (const f of facts) {
+    if (!f.outcome) continue;
+    const teamMap = ensureNestedMap(outcomes, f.teamKey);
+    let rec = teamMap.get(f.statId);
+    if (!rec) {
+      rec = { wins: 0, losses: 0, ties: 0 };
+      teamMap.set(f.statId, rec);
+    }
+    if (f.outcome === "W") rec.wins += 1;
+    else if (f.outcome === "L") rec.losses += 1;
+    else rec.ties += 1;
+  }
+  return outcomes;
+}
+
+// Weekly (own - opponent) per category, turned around where lower is better
+// so a positive margin always means the team was ahead. A stat neither side
+// reported is no sample.
+export function teamCategoryMargins(facts: CategoryFact[], categories: Category[]) {
+  const lowerWins = new Set(categories.filter((c) => !higherIsBetter(c)).map((c) => c.id));
+  const margins = new Map<string, Map<string, number[]>>();
+  for (const f of facts) {
+    if (f.value == null && f.opponentValue == null) continue;
+    const teamMap = ensureNestedMap(margins, f.teamKey);
+    let arr = teamMap.get(f.statId);
+    if (!arr) {
+      arr = [];
+      teamMap.set(f.statId, arr);
+    }
+    const own = f.value ?? 0, opp = f.opponentValue ?? 0;
+    arr.push(lowerWins.has(f.statId) ? opp - own : own - opp);
+  }
+  return margins;
+}
+
+export function leagueCategoryTotals(facts: CategoryFact[]) {
+  const totals = new Map<string, number>();
+  for (const f of facts) addToMap(totals, f.statId, f.value ?? 0);
+  return totals;
+}
+
+// Category wins handed out league-wide, ties counting half to each side.
+export function leagueWinEquivalents(facts: CategoryFact[]) {
+  const wins = new Map<string, number>();
+  for (const f of facts) {
+    if (f.outcome === "W") addToMap(wins, f.statId, 1);
+    else if (f.outcome === "T") addToMap(wins, f.statId, 0.5);
+  }
+  return wins;
+}
@@ -0,0 +1,110 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createGameKeyResolver, parseGamesResponse, seasonForDate } from "./gameKeys";
+
+// The games resource as Yahoo sends it: numbered entries plus a count, each
+// game an array of property fragments.
+function gamesJson(games: Record<number, number>) {
+  const entries = Object.entries(games).map(([season, gameKey]) => ({
+    game: [{ game_key: String(gameKey), code: "nhl", season: String(season) }],
+  }));
+  return { fantasy_content: { games: { ...entries, count: entries.length } } };
+}
+
+// Answers every request with `games`, or fails while `down`; records the URLs.
+function fakeYahoo(games: Record<number, number>) {
+  const urls: string[] = [];
+  const yahoo = {
+    urls,
+    down: false,
+    fetchJson: async (url: string) => {
+      urls.push(url);
+      if (yahoo.down) throw new Error("offline");
+      const season = /seasons=(\d+)/.exec(url)?.[1];
+      const answer = season ? { [season]: games[Number(season)] } : games;
+      const known = Object.fromEntries(Object.entries(answer).filter(([, key]) => key != null));
+      return { ok: true, status: 200, json: gamesJson(known), text: "" };
+    },
+  };
+  return yahoo;
+}
+
+const dirs: string[] = [];
+
+function tempFile() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hrhl-gamekeys-"));
+  dirs.push(dir);
+  return path.join(dir, "game-keys.json");
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseGamesResponse", () => {
+  it("maps each season to its game key", () => {
+    expect(parseGamesResponse(gamesJson({ 2023: 427, 2024: 453 }))).toEqual(
+      new Map([
+        [2023, 427],
+        [2024, 453],
+      ])
+    );
+  });
+
+  it("skips malformed games and tolerates a missing collection", () => {
+    const json = gamesJson({ 2024: 453 });
+    (json.fantasy_content.games as Record<string, unknown>)["1"] = { game: [{ season: "2025" }] };
+    expect(parseGamesResponse(json)).toEqual(new Map([[2024, 453]]));
+    expect(parseGamesResponse({ fantasy_content: {} })).toEqual(new Map());
+    expect(parseGamesResponse(null)).toEqual(new Map());
+  });
+});
+
+describe("createGameKeyResolver", () => {
+  it("discovers a season's key once and remembers it across restarts", async () => {
+    const cacheFile = tempFile();
+    const yahoo = fakeYahoo({ 2024: 453 });
+    const resolver = createGameKeyResolver({ fetchJson: yahoo.fetchJson, cacheFile });
+    expect(await resolver.resolve(2024)).toBe(453);
+    expect(await resolver.resolve(2024)).toBe(453);
+    expect(yahoo.urls).toHaveLength(1);
+
+    yahoo.down = true;
+    const restarted = createGameKeyResolver({ fetchJson: yahoo.fetchJson, cacheFile });
+    expect(await restarted.resolve(2024)).toBe(453);
+    expect(restarted.known()).toEqual(new Map([[2024, 453]]));
+  });
+
+  it("falls back to the static key for a year Yahoo doesn't know, without asking again", async () => {
+    const yahoo = fakeYahoo({ 2024: 453 });
+    const resolver = createGameKeyResolver({ fetchJson: yahoo.fetchJson });
+    expect(await resolver.resolve(1999, 101)).toBe(101);
+    expect(await resolver.resolve(1999)).toBeNull();
+    expect(yahoo.urls).toHaveLength(1);
+
+    yahoo.down = true;
+    expect(await resolver.resolve(2025, 465)).toBe(465);
+  });
+
+  it("takes the current season from the newest game, or from the calendar offline", async () => {
+    const yahoo = fakeYahoo({ 2023: 427, 2024: 453 });
+    const resolver = createGameKeyResolver({ fetchJson: yahoo.fetchJson });
+    expect(await resolver.currentSeason()).toBe(2024);
+    expect(await resolver.currentSeason()).toBe(2024);
+    expect(yahoo.urls).toEqual(["https://fantasysports.yahooapis.com/fantasy/v2/games;game_codes=nhl?format=json"]);
+
+    const offline = fakeYahoo({});
+    offline.down = true;
+    expect(await createGameKeyResolver({ fetchJson: offline.fetchJson }).currentSeason()).toBe(seasonForDate());
+  });
+});
+
+describe("seasonForDate", () => {
+  it("starts a season in September", () => {
+    expect(seasonForDate(new Date(2024, 7, 31))).toBe(2023);
+    expect(seasonForDate(new Date(2024, 8, 1))).toBe(2024);
+  });
+});
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+
+/* =========================
+   Game key discovery
+   =========================
+   Yahoo issues a new NHL game_key every season. Rather than waiting for
+   someone to edit leagues.json, ask Yahoo's games resource and remember the
+   answer (game keys never change once issued). The static table in the
+   league registry is only used when Yahoo can't be reached.
+*/
+
+const YAHOO_BASE = "https://fantasysports.yahooapis.com/fantasy/v2";
+const MISS_TTL_MS = 10 * 60 * 1000;
+const CURRENT_TTL_MS = 6 * 60 * 60 * 1000;
+
+type Json = unknown;
+type JsonObject = Record<string, unknown>;
+
+export interface GameKeyResolver {
+  resolve(season: number, staticGameKey?: number | null): Promise<number | null>;
+  currentSeason(): Promise<number>;
+  known(): Map<number, number>;
+}
+
+interface GameKeyResolverOptions {
+  fetchJson: (url: string) => Promise<{ ok: boolean; status: number; json: Json | null; text: string }>;
+  cacheFile?: string | null;
+  gameCode?: string;
+}
+
+function gameNodes(json: Json): JsonObject[] {
+  const games = (json as { fantasy_content?: { games?: unknown } } | null)?.fantasy_content?.games;
+  if (!games || typeof games !== "object") return [];
+  const list: unknown[] = Array.isArray(games)
+    ? games
+    : Object.keys(games).filter((k) => k !== "count").map((k) => (games as JsonObject)[k]);
+  return list
+    .map((item) => (item as JsonObject | null)?.game ?? item)
+    .map((game) =>
+      Array.isArray(game) ? Object.assign({}, ...game.filter((g) => g && typeof g === "object")) : game
+    )
+    .filter((game): game is JsonObject => !!game && typeof game === "object");
+}
+
+export function parseGamesResponse(json: Json): Map<number, number> {
+  const out = new Map<number, number>();
+  for (const game of gameNodes(json)) {
+    const season = Number(game.season);
+    const gameKey = Number(game.game_key);
+    if (Number.isInteger(season) && Number.isInteger(gameKey)) out.set(season, gameKey);
+  }
+  return out;
+}
+
+// NHL seasons are named after the year they start in; drafts run in September.
+export function seasonForDate(date = new Date()) {
+  return date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+export function createGameKeyResolver({
+  fetchJson,
+  cacheFile = null,
+  gameCode = "nhl",
+}: GameKeyResolverOptions): GameKeyResolver {
+  const known = new Map<number, number>();
+  const misses = new Map<number, number>();
+  let current: { season: number; until: number } | null = null;
+  let loaded = false;
+
+  function load() {
+    if (loaded) return;
+    loaded = true;
+    if (!cacheFile) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(cacheFile, "utf8"));
+      for (const [season, gameKey] of Object.entries(saved)) known.set(Number(season), Number(gameKey));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") {
+        console.warn(`game keys: could not read ${cacheFile}: ${e}`);
+      }
+    }
+  }
+
+  async function persist() {
+    if (!cacheFile) return;
+    const obj = Object.fromEntries([...known.entries()].sort((a, b) => a[0] - b[0]));
+    await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+    await fs.promises.writeFile(cacheFile, JSON.stringify(obj, null, 2));
+  }
+
+  async function discover(season: number) {
+    const url = `${YAHOO_BASE}/games;game_codes=${gameCode};seasons=${season}?format=json`;
+    const { ok, status, json, text } = await fetchJson(url);
+    if (!ok || !json) throw new Error(`games fetch ${status}: ${text}`);
+    return parseGamesResponse(json).get(season) ?? null;
+  }
+
+  return {
+    // Returns the game_key for a season, or null when neither Yahoo nor the
+    // static fallback knows it.
+    async resolve(season, staticGameKey = null) {
+      load();
+      const saved = known.get(season);
+      if (saved != null) return saved;
+      const missUntil = misses.get(season);
+      if (missUntil && missUntil > Date.now()) return staticGameKey;
+
+      let discovered: number | null;
+      try {
+        discovered = await discover(season);
+      } catch (e) {
+        console.warn(`game keys: Yahoo lookup for ${season} failed, using static table: ${e}`);
+        return staticGameKey;
+      }
+      if (discovered == null) {
+        misses.set(season, Date.now() + MISS_TTL_MS);
+        return staticGameKey;
+      }
+      if (staticGameKey != null && staticGameKey !== discovered) {
+        console.warn(`game keys: Yahoo reports ${discovered} for ${season}, static table says ${staticGameKey}`);
+      }
+      known.set(season, discovered);
+      await persist().catch((e) => console.warn(`game keys: could not save ${cacheFile}: ${e}`));
+      return discovered;
+    },
+
+    // Season of the game Yahoo currently considers live, falling back to the
+    // calendar when offline.
+    async currentSeason() {
+      if (current && current.until > Date.now()) return current.season;
+      try {
+        const { ok, json } = await fetchJson(`${YAHOO_BASE}/games;game_codes=${gameCode}?format=json`);
+        if (ok && json) {
+          const seasons = [...parseGamesResponse(json).keys()];
+          if (seasons.length) {
+            current = { season: Math.max(...seasons), until: Date.now() + CURRENT_TTL_MS };
+            return current.season;
+          }
+        }
+      } catch (e) {
+        console.warn(`game keys: current season lookup failed: ${e}`);
+      }
+      return seasonForDate();
+    },
+
+    known() {
+      load();
+      return new Map(known);
+    },
+  };
+}
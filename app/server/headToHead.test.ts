@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureHistory } from "./__fixtures__";
+import { headToHead, managerNames } from "./headToHead";
+
+describe("headToHead", () => {
+  it("follows both managers across team keys and names", async () => {
+    const seasons = await fixtureHistory();
+    expect(managerNames(seasons, "GUID1AAAA")).toEqual(["Old Aces", "Aces"]);
+
+    const h2h = headToHead(seasons, "GUID1AAAA", "GUID2AAAA");
+    expect(h2h.games.map((g) => [g.year, g.week, g.teamA.key, g.result])).toEqual([
+      [2022, 1, "888.l.4242.t.2", "W"],
+      [2022, 2, "888.l.4242.t.2", "W"],
+      [2023, 1, `${FIXTURE_LEAGUE_KEY}.t.1`, "T"],
+    ]);
+    expect(h2h.record).toEqual({ wins: 2, losses: 0, ties: 1 });
+    expect(h2h.categoryRecords.find((c) => c.statId === "23")).toEqual({ statId: "23", label: "GAA", wins: 1, losses: 1, ties: 1 });
+    expect(h2h.blowouts.map((g) => [g.year, g.week, g.wins, g.losses])).toEqual([
+      [2022, 1, 3, 0],
+      [2022, 2, 2, 1],
+    ]);
+  });
+
+  it("tracks streaks from manager A's side, with ties ending them", async () => {
+    const { streaks } = headToHead(await fixtureHistory(), "GUID1AAAA", "GUID2AAAA");
+    expect(streaks.longestA).toEqual({ result: "W", length: 2, from: { year: 2022, week: 1 }, to: { year: 2022, week: 2 } });
+    expect(streaks.longestB).toBeNull();
+    expect(streaks.current).toMatchObject({ result: "T", length: 1 });
+
+    const reversed = headToHead(await fixtureHistory(), "GUID2AAAA", "GUID1AAAA");
+    expect(reversed.record).toEqual({ wins: 0, losses: 2, ties: 1 });
+    expect(reversed.streaks.longestB?.length).toBe(2);
+  });
+});
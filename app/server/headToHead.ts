@@ -0,0 +1,102 @@
+import type { HeadToHeadGame, HeadToHeadStreak, MatchResult } from "../shared/contract";
+import type { SeasonHistory } from "./history";
+
+/* =========================
+   Head-to-head
+   =========================
+   Every meeting between two managers across a league's history, always
+   from manager A's side. Ties break a streak.
+*/
+
+const BLOWOUT_COUNT = 5;
+
+export function managerNames(seasons: SeasonHistory[], managerId: string) {
+  const names: string[] = [];
+  for (const { teams, managers } of seasons) {
+    for (const team of teams) {
+      if (managers.get(team.key) === managerId && !names.includes(team.name)) names.push(team.name);
+    }
+  }
+  return names;
+}
+
+export function headToHead(seasons: SeasonHistory[], managerA: string, managerB: string) {
+  const games: HeadToHeadGame[] = [];
+  const categoryRecords = new Map<string, { statId: string; label: string; wins: number; losses: number; ties: number }>();
+
+  for (const { year, managers, season } of seasons) {
+    const nameOf = (key: string) => season.teamDir.get(key) || key;
+    const labels = new Map(season.categories.map((c) => [c.id, c.display_name]));
+
+    for (const m of season.matchups) {
+      if (managers.get(m.teamKey) !== managerA || managers.get(m.opponentKey) !== managerB) continue;
+      games.push({
+        year,
+        week: m.week,
+        teamA: { key: m.teamKey, name: nameOf(m.teamKey) },
+        teamB: { key: m.opponentKey, name: nameOf(m.opponentKey) },
+        wins: m.wins,
+        losses: m.losses,
+        ties: m.ties,
+        result: m.result,
+      });
+
+      for (const f of season.facts) {
+        if (f.week !== m.week || f.matchup !== m.matchup || f.teamKey !== m.teamKey || !f.outcome) continue;
+        let rec = categoryRecords.get(f.statId);
+        if (!rec) {
+          rec = { statId: f.statId, label: f.statId, wins: 0, losses: 0, ties: 0 };
+          categoryRecords.set(f.statId, rec);
+        }
+        // later seasons win, so a renamed stat shows its current label
+        rec.label = labels.get(f.statId) ?? rec.label;
+        if (f.outcome === "W") rec.wins += 1;
+        else if (f.outcome === "L") rec.losses += 1;
+        else rec.ties += 1;
+      }
+    }
+  }
+
+  games.sort((a, b) => a.year - b.year || a.week - b.week);
+
+  const record = { wins: 0, losses: 0, ties: 0 };
+  for (const g of games) {
+    if (g.result === "W") record.wins += 1;
+    else if (g.result === "L") record.losses += 1;
+    else record.ties += 1;
+  }
+
+  const blowouts = games
+    .filter((g) => g.wins !== g.losses)
+    .sort((a, b) => Math.abs(b.wins - b.losses) - Math.abs(a.wins - a.losses) || b.year - a.year || b.week - a.week)
+    .slice(0, BLOWOUT_COUNT);
+
+  return {
+    games,
+    record,
+    categoryRecords: [...categoryRecords.values()],
+    blowouts,
+    streaks: gameStreaks(games),
+  };
+}
+
+// Longest run for each side, plus the run the rivalry is on right now.
+export function gameStreaks(games: HeadToHeadGame[]) {
+  const runs: HeadToHeadStreak[] = [];
+  for (const g of games) {
+    const last = runs[runs.length - 1];
+    if (last && last.result === g.result) {
+      last.length += 1;
+      last.to = { year: g.year, week: g.week };
+    } else {
+      runs.push({ result: g.result, length: 1, from: { year: g.year, week: g.week }, to: { year: g.year, week: g.week } });
+    }
+  }
+  const longest = (result: MatchResult) =>
+    runs.filter((r) => r.result === result).reduce<HeadToHeadStreak | null>((best, r) => (!best || r.length > best.length ? r : best), null);
+  return {
+    longestA: longest("W"),
+    longestB: longest("L"),
+    current: runs[runs.length - 1] ?? null,
+  };
+}
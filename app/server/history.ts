@@ -0,0 +1,76 @@
+import type { ApiWarning } from "../shared/contract";
+import type { AppContext } from "./context";
+import { type SeasonFacts, collectSeasonFacts } from "./facts";
+import { NoDataError } from "./http";
+import { type LeagueConfig, resolveLeagueSeason } from "./leagues";
+import { type ManagerRegistry, teamManagers } from "./managers";
+import type { Team } from "./yahoo";
+
+/* =========================
+   League history
+   =========================
+   Every configured season of a league, oldest first, each with its teams and
+   fact table. Team keys and names change every season; the manager behind a
+   team (see managers.ts) is what links one year to the next.
+*/
+
+export interface SeasonHistory {
+  year: number;
+  leagueKey: string;
+  teams: Team[];
+  // team key -> stable manager id
+  managers: Map<string, string>;
+  season: SeasonFacts;
+}
+
+export async function collectLeagueHistory(ctx: AppContext, league: LeagueConfig) {
+  const years = [...league.seasons.keys()].sort((a, b) => a - b);
+  const results = await Promise.allSettled(
+    years.map(async (year): Promise<SeasonHistory> => {
+      const { leagueKey } = await resolveLeagueSeason(ctx.leagues, ctx.gameKeys, { league: league.slug, year });
+      const [teams, season] = await Promise.all([
+        ctx.yahoo.teams(leagueKey),
+        collectSeasonFacts(ctx.yahoo, leagueKey),
+      ]);
+      return { year, leagueKey, teams, managers: teamManagers(ctx.managers, teams), season };
+    })
+  );
+
+  const seasons: SeasonHistory[] = [];
+  const warnings: ApiWarning[] = [];
+  results.forEach((result, i) => {
+    const year = years[i];
+    if (result.status === "fulfilled") {
+      seasons.push(result.value);
+      for (const w of result.value.season.warnings) warnings.push({ ...w, message: `${year}: ${w.message}` });
+      return;
+    }
+    // a season that hasn't played a week yet has nothing to add
+    if (result.reason instanceof NoDataError) return;
+    const e = result.reason;
+    warnings.push({
+      code: "season_failed",
+      message: `Season ${year} could not be loaded: ${e instanceof Error ? e.message : String(e)}`,
+    });
+  });
+  return { seasons, warnings };
+}
+
+// Every manager with the team they ran each season. The display name comes
+// from the override file, else the latest season's Yahoo nickname.
+export function managerDirectory(seasons: SeasonHistory[], registry: ManagerRegistry) {
+  const directory = new Map<string, { id: string; name: string; seasons: { year: number; teamKey: string; teamName: string }[] }>();
+  for (const { year, teams, managers } of seasons) {
+    for (const team of teams) {
+      const id = managers.get(team.key) ?? team.key;
+      let entry = directory.get(id);
+      if (!entry) {
+        entry = { id, name: id, seasons: [] };
+        directory.set(id, entry);
+      }
+      entry.seasons.push({ year, teamKey: team.key, teamName: team.name });
+      entry.name = registry.nameOf(id) ?? team.managers.find((m) => m.nickname)?.nickname ?? team.name;
+    }
+  }
+  return [...directory.values()];
+}
@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ZodType } from "zod";
+
+import { LeagueConfigError } from "./leagues";
+
+/* =========================
+   HTTP helpers
+   ========================= */
+
+// Contract checks cost a full walk of every payload, so they only run in
+// development; production trusts the types.
+const VALIDATE_RESPONSES = process.env.NODE_ENV !== "production";
+
+export class NoDataError extends Error {
+  readonly status = 404;
+
+  constructor(message = "no data") {
+    super(message);
+    this.name = "NoDataError";
+  }
+}
+
+export class BadRequestError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+export function errorStatus(e: unknown) {
+  if (e instanceof LeagueConfigError || e instanceof NoDataError || e instanceof BadRequestError) return e.status;
+  return 500;
+}
+
+export function sendError(res: Response, e: unknown) {
+  const status = errorStatus(e);
+  res.status(status).json({ error: e instanceof NoDataError ? e.message : String(e) });
+}
+
+export function sameSecret(given: string, expected: string) {
+  // hash first so the comparison takes the same time whatever the lengths
+  const digest = (s: string) => crypto.createHash("sha256").update(s).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+// Admin calls need ADMIN_SECRET, in the X-Admin-Secret header or, for pages
+// opened in a browser like /admin/login, as ?secret=. With no secret
+// configured the admin routes refuse everyone.
+export function requireAdminSecret(secret: string | undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!secret) return res.status(403).json({ error: "Admin routes are disabled; set ADMIN_SECRET to enable them" });
+    const given = req.get("x-admin-secret") ?? (typeof req.query.secret === "string" ? req.query.secret : undefined);
+    if (!given || !sameSecret(given, secret)) return res.status(401).json({ error: "Missing or wrong admin secret" });
+    next();
+  };
+}
+
+export function sendJson<T>(res: Response, schema: ZodType<T>, payload: T) {
+  if (VALIDATE_RESPONSES) {
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+      console.error(`response contract violation on ${res.req.path}:\n  ${issues.join("\n  ")}`);
+      res.status(500).json({ error: `Response failed API contract: ${issues.join("; ")}` });
+      return;
+    }
+  }
+  res.json(payload);
+}
+
+function weekParam(query: Record<string, unknown>, name: string, fallback: number) {
+  const raw = query[name];
+  if (raw == null || raw === "") return fallback;
+  const week = Number(raw);
+  if (!Number.isInteger(week)) throw new BadRequestError(`Invalid ${name} "${raw}"`);
+  return week;
+}
+
+export function parseWeekRange(query: Record<string, unknown>) {
+  const from = Math.max(1, weekParam(query, "min", 1));
+  const to = Math.max(from, weekParam(query, "max", 40));
+  return { from, to };
+}
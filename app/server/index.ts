@@ -0,0 +1,111 @@
+import express, { type Request, type Response } from "express";
+import path from "path";
+import fs from "fs";
+import { fileURLToPath } from "url";
+import dotenv from "dotenv";
+
+import { type OAuthConfig, authRouter, createAuth } from "./auth";
+import type { AppContext } from "./context";
+import { createGameKeyResolver } from "./gameKeys";
+import { loadLeagueRegistry } from "./leagues";
+import { loadManagerRegistry } from "./managers";
+import { adminRouter } from "./routes/admin";
+import { apiRouter } from "./routes/api";
+import { createTokenStoreFromEnv } from "./tokenStore";
+import {
+  createFetchForMode,
+  createFetchSchedulerFromEnv,
+  createFileResponseCache,
+  createYahooClient,
+  yahooModeFromEnv,
+} from "./yahoo";
+dotenv.config();
+
+const APP_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const DATA_DIR = process.env.DATA_DIR || path.join(APP_DIR, "data");
+
+/* =========================
+   OAuth (refresh token)
+   ========================= */
+const oauth: OAuthConfig = {
+  clientId: process.env.YAHOO_CLIENT_ID,
+  clientSecret: process.env.YAHOO_CLIENT_SECRET,
+  redirectUri: process.env.YAHOO_REDIRECT_URI,
+  seedRefreshToken: process.env.YAHOO_REFRESH_TOKEN,
+};
+const tokenStore = createTokenStoreFromEnv(process.env, DATA_DIR);
+const auth = createAuth(tokenStore, oauth);
+const responseCache = createFileResponseCache(path.join(DATA_DIR, "yahoo-cache"));
+
+/* =========================
+   Yahoo access (live / record / replay)
+   ========================= */
+const yahooMode = yahooModeFromEnv(process.env);
+const fetchJson = createFetchForMode(yahooMode, process.env.YAHOO_FIXTURE_DIR || path.join(APP_DIR, "fixtures", "yahoo"));
+// replay never talks to Yahoo, so it must not need (or refresh) a token
+const getAccessToken = yahooMode === "replay" ? async () => "replay" : auth.ensureAccessToken;
+if (yahooMode !== "live") console.log(`Yahoo mode: ${yahooMode}`);
+
+/* =========================
+   League Config (see leagues.json)
+   ========================= */
+const ctx: AppContext = {
+  dataDir: DATA_DIR,
+  auth,
+  yahoo: createYahooClient({
+    getAccessToken,
+    fetchJson,
+    scheduler: createFetchSchedulerFromEnv(process.env),
+    // recording has to see every response, and replay is already local
+    cache: yahooMode === "live" ? responseCache : undefined,
+  }),
+  cache: responseCache,
+  leagues: loadLeagueRegistry(process.env, path.join(APP_DIR, "leagues.json")),
+  gameKeys: createGameKeyResolver({
+    fetchJson: async (url) => fetchJson(url, await getAccessToken()),
+    cacheFile: path.join(DATA_DIR, "game-keys.json"),
+  }),
+  managers: loadManagerRegistry(process.env, path.join(APP_DIR, "managers.json")),
+};
+
+/* =========================
+   Express app
+   ========================= */
+const app = express();
+app.set("trust proxy", 1);
+
+// --- static frontend
+const distDir = path.join(APP_DIR, "dist");
+const publicDir = path.join(APP_DIR, "public");
+const hasDist = fs.existsSync(distDir);
+const fallbackHtml = hasDist
+  ? path.join(distDir, "index.html")
+  : path.join(publicDir, "heatmap.html");
+
+if (hasDist) app.use(express.static(distDir));
+app.use(express.static(publicDir));
+
+function serveApp(_req: Request, res: Response) {
+  if (fs.existsSync(fallbackHtml)) {
+    res.sendFile(fallbackHtml);
+  } else {
+    res.status(404).type("text").send("Frontend build not found.");
+  }
+}
+
+app.use(authRouter(auth, tokenStore, oauth, process.env.ADMIN_SECRET));
+app.use(adminRouter(ctx, process.env.ADMIN_SECRET));
+
+app.get("/health", (_req, res) => res.json({ ok: true, port: process.env.PORT || 8080 }));
+
+app.use(apiRouter(ctx));
+
+// --- client-side routes; last, so /auth/callback and /health reach their handlers
+app.get(["/", "/heatmap"], serveApp);
+app.get(/^\/(?!api|admin|auth|health).*/, serveApp);
+
+/* =========================
+   Start
+   ========================= */
+const PORT = Number(process.env.PORT) || 8080;
+app.listen(PORT, "0.0.0.0", () => console.log(`✅ Server on ${PORT}`));
@@ -0,0 +1,222 @@
+import fs from "fs";
+
+/* =========================
+   League registry
+   =========================
+   Maps a league slug to its per-season Yahoo league keys. Loaded from
+   LEAGUES_JSON (inline JSON), LEAGUES_CONFIG (path), or leagues.json.
+
+   {
+     "default": "hrhl",
+     "leagues": {
+       "hrhl": {
+         "name": "HRHL",
+         "leagueId": "1520",          // numeric part after .l.
+         "defaultYear": "current",    // or a season, e.g. 2024 -> 2024-25
+         "seasons": {
+           "2023": 410,               // game_key, combined with leagueId
+           "2024": "453.l.1520"       // or a full league key
+         },
+         "powerRankings": {           // optional, defaults below
+           "formWeeks": 3,
+           "weights": { "form": 0.3, "allPlay": 0.35, "sharpe": 0.2, "schedule": 0.15 }
+         }
+       }
+     }
+   }
+
+   Seasons missing from the table still resolve when the league has a
+   leagueId: the game_key is discovered from Yahoo (see gameKeys.ts), and
+   numeric entries only act as the offline fallback for that lookup.
+*/
+
+export class LeagueConfigError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "LeagueConfigError";
+    this.status = status;
+  }
+}
+
+export interface SeasonEntry {
+  gameKey: number;
+  leagueKey: string | null;
+}
+
+export interface PowerRankingWeights {
+  form: number;
+  allPlay: number;
+  sharpe: number;
+  schedule: number;
+}
+
+export interface PowerRankingConfig {
+  // how many recent weeks count as form
+  formWeeks: number;
+  weights: PowerRankingWeights;
+}
+
+export const DEFAULT_POWER_RANKINGS: PowerRankingConfig = {
+  formWeeks: 3,
+  weights: { form: 0.3, allPlay: 0.35, sharpe: 0.2, schedule: 0.15 },
+};
+
+export interface LeagueConfig {
+  slug: string;
+  name: string;
+  leagueId: string | null;
+  defaultYear: number | null; // null -> the season Yahoo currently reports
+  seasons: Map<number, SeasonEntry>;
+  powerRankings: PowerRankingConfig;
+}
+
+export interface LeagueRegistry {
+  defaultSlug: string;
+  leagues: Map<string, LeagueConfig>;
+}
+
+export interface ResolvedSeason {
+  league: LeagueConfig;
+  year: number;
+  leagueKey: string;
+}
+
+interface RawLeagueConfig {
+  name?: string;
+  leagueId?: string | number;
+  defaultYear?: number | string;
+  seasons?: Record<string, number | string>;
+  powerRankings?: {
+    formWeeks?: number;
+    weights?: Partial<Record<keyof PowerRankingWeights, number>>;
+  };
+}
+
+interface RawRegistryConfig {
+  default?: string;
+  leagues?: Record<string, RawLeagueConfig>;
+}
+
+interface GameKeyLookup {
+  resolve(season: number, staticGameKey?: number | null): Promise<number | null>;
+  currentSeason(): Promise<number>;
+}
+
+function normalizeSeasonEntry(slug: string, year: string, value: number | string): SeasonEntry {
+  if (typeof value === "number" || /^\d+$/.test(String(value))) {
+    return { gameKey: Number(value), leagueKey: null };
+  }
+  if (typeof value === "string" && /^\d+\.l\.\d+$/.test(value)) {
+    return { gameKey: Number(value.split(".")[0]), leagueKey: value };
+  }
+  throw new LeagueConfigError(`League "${slug}" season ${year}: invalid league key ${JSON.stringify(value)}`, 500);
+}
+
+function normalizePowerRankings(slug: string, raw: RawLeagueConfig["powerRankings"]): PowerRankingConfig {
+  const formWeeks = raw?.formWeeks ?? DEFAULT_POWER_RANKINGS.formWeeks;
+  if (!Number.isInteger(formWeeks) || formWeeks < 1) {
+    throw new LeagueConfigError(`League "${slug}": invalid powerRankings.formWeeks ${JSON.stringify(formWeeks)}`, 500);
+  }
+  const weights = { ...DEFAULT_POWER_RANKINGS.weights };
+  for (const name of Object.keys(weights) as (keyof PowerRankingWeights)[]) {
+    const weight = raw?.weights?.[name] ?? weights[name];
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      throw new LeagueConfigError(`League "${slug}": invalid powerRankings weight ${name} ${JSON.stringify(weight)}`, 500);
+    }
+    weights[name] = weight;
+  }
+  if (!Object.values(weights).some((w) => w > 0)) {
+    throw new LeagueConfigError(`League "${slug}": powerRankings weights are all zero`, 500);
+  }
+  return { formWeeks, weights };
+}
+
+export function buildLeagueRegistry(config: RawRegistryConfig): LeagueRegistry {
+  const entries = Object.entries(config?.leagues || {});
+  if (!entries.length) throw new LeagueConfigError("League config defines no leagues", 500);
+
+  const leagues = new Map<string, LeagueConfig>();
+  for (const [slug, raw] of entries) {
+    const leagueId = raw.leagueId != null ? String(raw.leagueId) : null;
+    const seasons = new Map<number, SeasonEntry>();
+    for (const [year, value] of Object.entries(raw.seasons || {})) {
+      const entry = normalizeSeasonEntry(slug, year, value);
+      if (!entry.leagueKey && !leagueId) {
+        throw new LeagueConfigError(`League "${slug}" season ${year} needs a leagueId`, 500);
+      }
+      seasons.set(Number(year), entry);
+    }
+    const defaultYear = raw.defaultYear == null || raw.defaultYear === "current" ? null : Number(raw.defaultYear);
+    if (defaultYear != null && !Number.isInteger(defaultYear)) {
+      throw new LeagueConfigError(`League "${slug}": invalid defaultYear ${JSON.stringify(raw.defaultYear)}`, 500);
+    }
+    leagues.set(slug, {
+      slug,
+      name: raw.name || slug,
+      leagueId,
+      defaultYear,
+      seasons,
+      powerRankings: normalizePowerRankings(slug, raw.powerRankings),
+    });
+  }
+
+  const defaultSlug = config.default && leagues.has(config.default) ? config.default : entries[0][0];
+  return { defaultSlug, leagues };
+}
+
+export function loadLeagueRegistry(env: NodeJS.ProcessEnv, defaultPath: string): LeagueRegistry {
+  let config: RawRegistryConfig;
+  if (env.LEAGUES_JSON) {
+    config = JSON.parse(env.LEAGUES_JSON);
+  } else {
+    const file = env.LEAGUES_CONFIG || defaultPath;
+    config = JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+  return buildLeagueRegistry(config);
+}
+
+export function getLeague(registry: LeagueRegistry, slug?: string | null): LeagueConfig {
+  const key = slug || registry.defaultSlug;
+  const league = registry.leagues.get(key);
+  if (!league) throw new LeagueConfigError(`Unknown league "${key}"`, 404);
+  return league;
+}
+
+// Resolves { league, year } query params to a concrete Yahoo league key.
+export async function resolveLeagueSeason(
+  registry: LeagueRegistry,
+  gameKeys: GameKeyLookup,
+  { league: slug, year }: { league?: unknown; year?: unknown } = {}
+): Promise<ResolvedSeason> {
+  const league = getLeague(registry, typeof slug === "string" ? slug : null);
+  const season = year ? Number(year) : league.defaultYear ?? (await gameKeys.currentSeason());
+  if (!Number.isInteger(season)) throw new LeagueConfigError(`Invalid year "${year}"`);
+
+  const entry = league.seasons.get(season);
+  if (entry?.leagueKey) return { league, year: season, leagueKey: entry.leagueKey };
+  if (!league.leagueId) {
+    throw new LeagueConfigError(`No league key configured for ${league.slug} ${season}`, 404);
+  }
+  const gameKey = await gameKeys.resolve(season, entry?.gameKey ?? null);
+  if (gameKey == null) {
+    throw new LeagueConfigError(`No game_key found for ${league.slug} ${season}`, 404);
+  }
+  return { league, year: season, leagueKey: `${gameKey}.l.${league.leagueId}` };
+}
+
+export function describeLeagues(registry: LeagueRegistry) {
+  return [...registry.leagues.values()].map((league) => ({
+    slug: league.slug,
+    name: league.name,
+    default: league.slug === registry.defaultSlug,
+    defaultYear: league.defaultYear,
+    seasons: [...league.seasons.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([year, entry]) => ({
+        year,
+        leagueKey: entry.leagueKey || `${entry.gameKey}.l.${league.leagueId}`,
+      })),
+  }));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { collectSeasonFacts } from "./facts";
+import { luckEntries } from "./luck";
+
+const yahoo = fixtureClient();
+const recordOf = (rec: { wins: number; losses: number; ties: number }) => [rec.wins, rec.losses, rec.ties];
+
+describe("luckEntries", () => {
+  it("plays each week against every other team", async () => {
+    const entries = luckEntries(await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY));
+    const byTeam = new Map(entries.map((e) => [e.teamKey, e]));
+
+    const cyclones = byTeam.get(teamKey(3))!;
+    expect(cyclones.weeks.map((w) => [w.week, recordOf(w.allPlay), w.result])).toEqual([
+      [1, [1, 2, 0], "W"],
+      [2, [0, 3, 0], "L"],
+    ]);
+    expect(recordOf(cyclones.actual)).toEqual([1, 1, 0]);
+    expect(cyclones.allPlayPct).toBeCloseTo(1 / 6);
+    expect(cyclones.luck).toBeCloseTo(1 - 2 / 6);
+
+    // ties count half on both sides
+    const aces = byTeam.get(teamKey(1))!;
+    expect(recordOf(aces.allPlay)).toEqual([5, 0, 1]);
+    expect(aces.actualWins).toBe(1.5);
+    expect(aces.expectedWins).toBeCloseTo(11 / 6);
+  });
+
+  it("sorts the luckiest first", async () => {
+    const entries = luckEntries(await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY));
+    expect(entries[0].teamKey).toBe(teamKey(3));
+    expect(entries.map((e) => e.luck)).toEqual([...entries.map((e) => e.luck)].sort((a, b) => b - a));
+  });
+
+  it("leaves playoff weeks out", async () => {
+    const entries = luckEntries(await collectSeasonFacts(yahoo, "888.l.4242"));
+    expect(entries.every((e) => e.weeks.every((w) => w.week === 1))).toBe(true);
+    expect(entries.every((e) => e.allPlay.wins + e.allPlay.losses + e.allPlay.ties === 3)).toBe(true);
+  });
+});
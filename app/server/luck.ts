@@ -0,0 +1,99 @@
+import type { LuckEntry, MatchResult, WinLossRecord } from "../shared/contract";
+import type { SeasonFacts } from "./facts";
+import { higherIsBetter } from "./season";
+
+/* =========================
+   Luck index
+   =========================
+   Each team's week replayed against every other team's stats that same
+   week (the all-play record), set against the head-to-head result it
+   actually got. A team that wins more often than its all-play rate says
+   drew soft opponents. Only regular-season weeks count; a playoff bracket
+   isn't a schedule.
+*/
+
+function tally(record: WinLossRecord, result: MatchResult) {
+  if (result === "W") record.wins += 1;
+  else if (result === "L") record.losses += 1;
+  else record.ties += 1;
+}
+
+const winEquivalents = (r: WinLossRecord) => r.wins + r.ties * 0.5;
+
+export function luckEntries(season: SeasonFacts): LuckEntry[] {
+  const { teamDir, facts, matchups } = season;
+  const scored = season.categories.filter((c) => !c.is_only_display);
+
+  // week -> team -> statId -> value, regular-season weeks only
+  const regular = matchups.filter((m) => m.stage === "regular");
+  const played = new Set(regular.map((m) => `${m.week}:${m.teamKey}`));
+  const values = new Map<number, Map<string, Map<string, number>>>();
+  for (const f of facts) {
+    if (f.value == null || !played.has(`${f.week}:${f.teamKey}`)) continue;
+    let week = values.get(f.week);
+    if (!week) {
+      week = new Map();
+      values.set(f.week, week);
+    }
+    let team = week.get(f.teamKey);
+    if (!team) {
+      team = new Map();
+      week.set(f.teamKey, team);
+    }
+    team.set(f.statId, f.value);
+  }
+
+  // one category-by-category matchup between two teams' weeks
+  const versus = (own: Map<string, number>, other: Map<string, number>): MatchResult => {
+    let wins = 0, losses = 0;
+    for (const cat of scored) {
+      const a = own.get(cat.id), b = other.get(cat.id);
+      if (a == null || b == null || a === b) continue;
+      if ((a > b) === higherIsBetter(cat)) wins++;
+      else losses++;
+    }
+    return wins > losses ? "W" : wins < losses ? "L" : "T";
+  };
+
+  const byTeam = new Map<string, LuckEntry>();
+  for (const m of [...regular].sort((a, b) => a.week - b.week)) {
+    let entry = byTeam.get(m.teamKey);
+    if (!entry) {
+      entry = {
+        teamKey: m.teamKey,
+        teamName: teamDir.get(m.teamKey) || m.teamKey,
+        actual: { wins: 0, losses: 0, ties: 0 },
+        allPlay: { wins: 0, losses: 0, ties: 0 },
+        allPlayPct: null,
+        actualWins: 0,
+        expectedWins: 0,
+        luck: 0,
+        weeks: [],
+      };
+      byTeam.set(m.teamKey, entry);
+    }
+    tally(entry.actual, m.result);
+
+    const week = values.get(m.week);
+    const own = week?.get(m.teamKey);
+    const allPlay = { wins: 0, losses: 0, ties: 0 };
+    if (week && own) {
+      for (const [other, stats] of week) {
+        if (other !== m.teamKey) tally(allPlay, versus(own, stats));
+      }
+    }
+    entry.allPlay.wins += allPlay.wins;
+    entry.allPlay.losses += allPlay.losses;
+    entry.allPlay.ties += allPlay.ties;
+    entry.weeks.push({ week: m.week, allPlay, result: m.result });
+  }
+
+  for (const entry of byTeam.values()) {
+    const games = entry.allPlay.wins + entry.allPlay.losses + entry.allPlay.ties;
+    entry.allPlayPct = games ? winEquivalents(entry.allPlay) / games : null;
+    entry.actualWins = winEquivalents(entry.actual);
+    entry.expectedWins = (entry.allPlayPct ?? 0) * entry.weeks.length;
+    entry.luck = entry.actualWins - entry.expectedWins;
+  }
+  return [...byTeam.values()].sort((a, b) => b.luck - a.luck);
+}
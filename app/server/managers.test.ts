@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { buildManagerRegistry, loadManagerRegistry } from "./managers";
+
+const yahoo = fixtureClient();
+
+describe("buildManagerRegistry", () => {
+  it("uses the manager GUID, falling back to the team key", async () => {
+    const [team] = await yahoo.teams(FIXTURE_LEAGUE_KEY);
+    const registry = buildManagerRegistry({});
+    expect(registry.managerIdOf(team)).toBe("GUID1AAAA");
+    expect(registry.managerIdOf({ ...team, managers: [] })).toBe(teamKey(1));
+    expect(registry.nameOf("GUID1AAAA")).toBeNull();
+  });
+
+  it("applies overrides by GUID and pins teams ahead of GUIDs", async () => {
+    const [aces, bruisers] = await yahoo.teams(FIXTURE_LEAGUE_KEY);
+    const registry = buildManagerRegistry({
+      managers: {
+        richard: { name: "Richard", guids: ["OLDGUID", "GUID1AAAA"] },
+        sam: { teams: [teamKey(2)] },
+      },
+    });
+    expect(registry.managerIdOf(aces)).toBe("richard");
+    expect(registry.managerIdOf(bruisers)).toBe("sam");
+    expect(registry.nameOf("richard")).toBe("Richard");
+  });
+
+  it("rejects a GUID claimed by two managers", () => {
+    expect(() =>
+      buildManagerRegistry({ managers: { a: { guids: ["X"] }, b: { guids: ["X"] } } })
+    ).toThrow(/guid X is listed under both "a" and "b"/);
+  });
+});
+
+describe("loadManagerRegistry", () => {
+  it("treats a missing default file as no overrides", async () => {
+    const [team] = await yahoo.teams(FIXTURE_LEAGUE_KEY);
+    const registry = loadManagerRegistry({}, "/nonexistent/managers.json");
+    expect(registry.managerIdOf(team)).toBe("GUID1AAAA");
+  });
+
+  it("reads inline MANAGERS_JSON", async () => {
+    const [team] = await yahoo.teams(FIXTURE_LEAGUE_KEY);
+    const registry = loadManagerRegistry({ MANAGERS_JSON: '{"managers":{"ace":{"guids":["GUID1AAAA"]}}}' }, "");
+    expect(registry.managerIdOf(team)).toBe("ace");
+  });
+});
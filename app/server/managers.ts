@@ -0,0 +1,86 @@
+import fs from "fs";
+
+import type { Team } from "./yahoo";
+
+/* =========================
+   Manager registry
+   =========================
+   Gives every team in every season a stable manager id. By default that's
+   the primary manager's Yahoo GUID, which survives team renames and new
+   team keys. Loaded from MANAGERS_JSON (inline JSON), MANAGERS_CONFIG (path),
+   or managers.json, for the cases GUIDs get wrong:
+
+   {
+     "managers": {
+       "richard": {
+         "name": "Richard",
+         "guids": ["ABCDEF123", "ZYXW987"],   // e.g. a second Yahoo account
+         "teams": ["206.l.1520.t.4"]          // seasons where Yahoo hides managers
+       }
+     }
+   }
+
+   An override's key becomes the manager id for every team it matches.
+*/
+
+export interface ManagerRegistry {
+  managerIdOf(team: Team): string;
+  // display name from the override file, if any
+  nameOf(managerId: string): string | null;
+}
+
+interface RawManagerOverride {
+  name?: string;
+  guids?: string[];
+  teams?: string[];
+}
+
+interface RawManagersConfig {
+  managers?: Record<string, RawManagerOverride>;
+}
+
+export function buildManagerRegistry(config: RawManagersConfig): ManagerRegistry {
+  const byGuid = new Map<string, string>();
+  const byTeam = new Map<string, string>();
+  const names = new Map<string, string>();
+
+  const claim = (map: Map<string, string>, value: string, id: string, what: string) => {
+    const owner = map.get(value);
+    if (owner && owner !== id) throw new Error(`Manager config: ${what} ${value} is listed under both "${owner}" and "${id}"`);
+    map.set(value, id);
+  };
+
+  for (const [id, raw] of Object.entries(config?.managers || {})) {
+    if (raw.name) names.set(id, raw.name);
+    for (const guid of raw.guids || []) claim(byGuid, guid, id, "guid");
+    for (const teamKey of raw.teams || []) claim(byTeam, teamKey, id, "team");
+  }
+
+  return {
+    managerIdOf(team) {
+      const pinned = byTeam.get(team.key);
+      if (pinned) return pinned;
+      for (const m of team.managers) {
+        const id = m.guid && byGuid.get(m.guid);
+        if (id) return id;
+      }
+      // old seasons sometimes hide managers, and then the team key is the best we have
+      return team.managers.find((m) => m.guid)?.guid ?? team.key;
+    },
+    nameOf(managerId) {
+      return names.get(managerId) ?? null;
+    },
+  };
+}
+
+// The file is optional: without one, GUIDs alone decide.
+export function loadManagerRegistry(env: NodeJS.ProcessEnv, defaultPath: string): ManagerRegistry {
+  if (env.MANAGERS_JSON) return buildManagerRegistry(JSON.parse(env.MANAGERS_JSON));
+  const file = env.MANAGERS_CONFIG || defaultPath;
+  if (!env.MANAGERS_CONFIG && !fs.existsSync(file)) return buildManagerRegistry({});
+  return buildManagerRegistry(JSON.parse(fs.readFileSync(file, "utf8")));
+}
+
+export function teamManagers(registry: ManagerRegistry, teams: Team[]) {
+  return new Map(teams.map((t) => [t.key, registry.managerIdOf(t)]));
+}
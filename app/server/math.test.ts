@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateMean, calculateStdDev, normalCdf, sampleNormal, seededRandom } from "./math";
+
+describe("calculateMean", () => {
+  it("averages the values", () => {
+    expect(calculateMean([2, 4, 9])).toBe(5);
+    expect(calculateMean([-1.5, 1.5])).toBe(0);
+  });
+
+  it("is 0 for no values", () => {
+    expect(calculateMean([])).toBe(0);
+  });
+});
+
+describe("calculateStdDev", () => {
+  it("is the population standard deviation", () => {
+    const values = [2, 4, 4, 4, 5, 5, 7, 9];
+    expect(calculateStdDev(values, calculateMean(values))).toBe(2);
+  });
+
+  it("is 0 with fewer than two samples", () => {
+    expect(calculateStdDev([], 0)).toBe(0);
+    expect(calculateStdDev([3], 3)).toBe(0);
+  });
+});
+
+describe("seededRandom", () => {
+  it("repeats for the same seed and stays in [0, 1)", () => {
+    const a = seededRandom(42), b = seededRandom(42);
+    const draws = Array.from({ length: 100 }, () => a());
+    expect(draws).toEqual(Array.from({ length: 100 }, () => b()));
+    expect(draws.every((x) => x >= 0 && x < 1)).toBe(true);
+    expect(seededRandom(43)()).not.toBe(draws[0]);
+  });
+});
+
+describe("sampleNormal", () => {
+  it("centres on the mean with the given spread", () => {
+    const random = seededRandom(7);
+    const draws = Array.from({ length: 5000 }, () => sampleNormal(random, 10, 2));
+    const mean = calculateMean(draws);
+    expect(mean).toBeCloseTo(10, 1);
+    expect(calculateStdDev(draws, mean)).toBeCloseTo(2, 1);
+  });
+
+  it("is the mean itself without spread", () => {
+    expect(sampleNormal(seededRandom(1), 3, 0)).toBe(3);
+  });
+});
+
+describe("normalCdf", () => {
+  it("matches the standard normal table", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1)).toBeCloseTo(0.8413, 4);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+});
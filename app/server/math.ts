@@ -0,0 +1,41 @@
+export function calculateMean(values: number[]) {
+  if (!values.length) return 0;
+  const sum = values.reduce((acc, val) => acc + val, 0);
+  return sum / values.length;
+}
+
+export function calculateStdDev(values: number[], mean: number) {
+  if (values.length < 2) return 0;
+  const variance = values.reduce((acc, val) => acc + (val - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+// mulberry32: a small seeded generator, so simulations repeat exactly for
+// the same seed.
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller draw from N(mean, stdDev).
+export function sampleNormal(random: () => number, mean: number, stdDev: number) {
+  if (!stdDev) return mean;
+  const u = 1 - random();
+  const v = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7).
+export function normalCdf(z: number) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,22 @@
+/* =========================
+   In-memory response memos
+   =========================
+   Short-lived caches keyed "<leagueKey>" or "<leagueKey>:<...>". They are
+   registered here so an admin invalidation can clear a league everywhere.
+*/
+
+const registry: Map<string, unknown>[] = [];
+
+export function memoCache<E>() {
+  const map = new Map<string, E>();
+  registry.push(map);
+  return map;
+}
+
+export function forgetLeague(leagueKey: string) {
+  for (const map of registry) {
+    for (const key of map.keys()) {
+      if (key === leagueKey || key.startsWith(`${leagueKey}:`)) map.delete(key);
+    }
+  }
+}
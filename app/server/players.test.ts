@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+
+import type { Category } from "../shared/contract";
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { type CategoryFact, type SeasonFacts, collectSeasonFacts } from "./facts";
+import { type PlayerFact, collectPlayerFacts, leagueKeyOfTeam, playerContributions } from "./players";
+import { unknownCategory } from "./season";
+
+const yahoo = fixtureClient();
+
+const cat = (id: string, display_name: string, extra: Partial<Category> = {}): Category => ({
+  ...unknownCategory(id),
+  display_name,
+  ...extra,
+});
+
+describe("collectPlayerFacts", () => {
+  it("flattens weekly rosters into per-stat rows with lineup slots", async () => {
+    const { facts, warnings } = await collectPlayerFacts(yahoo, teamKey(1), [1]);
+    expect(warnings).toEqual([]);
+    expect(facts.filter((f) => f.playerKey === "427.p.101")).toEqual([
+      { week: 1, teamKey: teamKey(1), playerKey: "427.p.101", name: "Sidney Test", nhlTeam: "PIT", position: "C", active: true, statId: "1", value: 3 },
+      { week: 1, teamKey: teamKey(1), playerKey: "427.p.101", name: "Sidney Test", nhlTeam: "PIT", position: "C", active: true, statId: "2", value: 2 },
+    ]);
+    expect(facts.find((f) => f.playerKey === "427.p.103")?.active).toBe(false);
+  });
+
+  it("warns about weeks whose roster can't be fetched", async () => {
+    const { facts, warnings } = await collectPlayerFacts(yahoo, teamKey(2), [1]);
+    expect(facts).toEqual([]);
+    expect(warnings[0]).toMatchObject({ code: "roster_week_failed", week: 1 });
+  });
+});
+
+describe("playerContributions", () => {
+  it("splits category totals and wins across active players", async () => {
+    const season = await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+    const { facts } = await collectPlayerFacts(yahoo, teamKey(1), [1, 2]);
+    const result = playerContributions(season, facts, teamKey(1), [1, 2]);
+
+    expect(result.teamTotals).toMatchObject({ "1": 11, "2": 17 });
+    expect(result.teamCategoryWins).toEqual({ "1": 2, "2": 1, "23": 0.5 });
+    // the bench player's assist in week 1 isn't credited
+    expect(result.unattributed).toMatchObject({ "1": 0, "2": 2 });
+    expect(result.players.map((p) => p.name)).toEqual(["Sidney Test", "Leon Fixture", "Goalie One"]);
+
+    const [sid, leon, goalie] = result.players;
+    expect(sid.weeksActive).toBe(2);
+    expect(sid.totals).toMatchObject({ "1": 7, "2": 7 });
+    expect(sid.share["1"]).toBeCloseTo(7 / 11);
+    expect(sid.categoryWins["1"]).toBeCloseTo(3 / 5 + 4 / 6);
+    // assists were lost in week 1, so only week 2 earns credit
+    expect(sid.categoryWins["2"]).toBeCloseTo(5 / 9);
+    expect(leon.categoryWins["2"]).toBeCloseTo(4 / 9);
+    // a tied category is worth half a win
+    expect(goalie.categoryWins["23"]).toBeCloseTo(0.5);
+    expect(goalie.share["1"]).toBe(0);
+    // GAA is a season rate, not 2.5 + 1.8
+    expect(result.teamTotals["23"]).toBeCloseTo(2.15);
+    expect(goalie.totals["23"]).toBeCloseTo(2.15);
+    expect(goalie.share["23"]).toBe(1);
+    expect(result.unattributed).not.toHaveProperty("23");
+  });
+
+  it("credits goalies by the minutes behind GAA and by goals kept out of GA", () => {
+    const categories = [
+      cat("22", "GA", { sort_order: 0 }),
+      cat("23", "GAA", { sort_order: 0 }),
+      cat("28", "TOI", { is_only_display: true }),
+    ];
+    const team = (statId: string, value: number, outcome: CategoryFact["outcome"]): CategoryFact => ({
+      week: 1,
+      matchup: 0,
+      teamKey: "t",
+      opponentKey: "o",
+      statId,
+      value,
+      opponentValue: null,
+      outcome,
+    });
+    const season: SeasonFacts = {
+      leagueKey: "l",
+      from: 1,
+      to: 1,
+      teamDir: new Map([["t", "Team"]]),
+      categories,
+      weeks: [1],
+      calendar: [],
+      matchups: [],
+      facts: [team("22", 4, "W"), team("23", 4 / 3, "W"), team("28", 180, null)],
+      warnings: [],
+    };
+    const goalie = (playerKey: string, [ga, gaa, toi]: number[]): PlayerFact[] =>
+      [["22", ga], ["23", gaa], ["28", toi]].map(([statId, value]) => ({
+        week: 1,
+        teamKey: "t",
+        playerKey,
+        name: playerKey,
+        nhlTeam: null,
+        position: "G",
+        active: true,
+        statId: String(statId),
+        value: Number(value),
+      }));
+    // one week: g1 allows 1 goal in 60 minutes, g2 3 in 120
+    const players = [...goalie("g1", [1, 1, 60]), ...goalie("g2", [3, 1.5, 120])];
+    const result = playerContributions(season, players, "t", [1]);
+    const [g1, g2] = ["g1", "g2"].map((key) => result.players.find((p) => p.playerKey === key)!);
+
+    expect(result.teamTotals["23"]).toBeCloseTo(4 / 3);
+    // fewer goals allowed earns more of the GA win
+    expect(g1.categoryWins["22"]).toBeCloseTo(0.75);
+    expect(g2.categoryWins["22"]).toBeCloseTo(0.25);
+    // GAA credit follows the minutes played
+    expect(g1.categoryWins["23"]).toBeCloseTo(1 / 3);
+    expect(g2.categoryWins["23"]).toBeCloseTo(2 / 3);
+    expect(g1.totals["23"]).toBeCloseTo(1);
+    expect(g2.share["23"]).toBeCloseTo(2 / 3);
+  });
+
+  it("limits to the requested week", async () => {
+    const season = await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+    const { facts } = await collectPlayerFacts(yahoo, teamKey(1), [1, 2]);
+    const result = playerContributions(season, facts, teamKey(1), [2]);
+    expect(result.teamTotals["1"]).toBe(6);
+    expect(result.players.every((p) => p.weeksActive === 1)).toBe(true);
+  });
+});
+
+describe("leagueKeyOfTeam", () => {
+  it("strips the team suffix", () => {
+    expect(leagueKeyOfTeam("453.l.1520.t.11")).toBe("453.l.1520");
+  });
+});
@@ -0,0 +1,233 @@
+import type { ApiWarning, PlayerContribution } from "../shared/contract";
+import { type SeasonFacts, addToMap, ensureNestedMap, teamCategoryTotals } from "./facts";
+import { memoCache } from "./memo";
+import { rateSources, seasonRates } from "./rates";
+import { higherIsBetter } from "./season";
+import type { Roster, YahooClient } from "./yahoo";
+
+/* =========================
+   Player facts
+   =========================
+   Weekly roster snapshots with each player's stats for that week, one row
+   per player per stat, stored next to the season's team facts. Rosters are
+   fetched lazily per team and week since a full season is teams x weeks
+   requests.
+*/
+
+export interface PlayerFact {
+  week: number;
+  teamKey: string;
+  playerKey: string;
+  name: string;
+  nhlTeam: string | null;
+  position: string | null;
+  // false for bench, injured reserve and minors slots
+  active: boolean;
+  statId: string;
+  value: number | null;
+}
+
+export const INACTIVE_POSITIONS = new Set(["BN", "IR", "IR+", "NA"]);
+
+const rosterCache = memoCache<{ until: number; roster: Roster }>();
+
+export function leagueKeyOfTeam(teamKey: string) {
+  const idx = teamKey.indexOf(".t.");
+  return idx === -1 ? teamKey : teamKey.slice(0, idx);
+}
+
+export function playerFactsFromRoster(roster: Roster, week: number): PlayerFact[] {
+  const facts: PlayerFact[] = [];
+  for (const p of roster.players) {
+    const active = p.selectedPosition != null && !INACTIVE_POSITIONS.has(p.selectedPosition);
+    for (const [statId, value] of Object.entries(p.stats ?? {})) {
+      facts.push({
+        week,
+        teamKey: roster.teamKey,
+        playerKey: p.key,
+        name: p.name,
+        nhlTeam: p.editorialTeamAbbr,
+        position: p.selectedPosition,
+        active,
+        statId,
+        value,
+      });
+    }
+  }
+  return facts;
+}
+
+async function getRoster(yahoo: YahooClient, teamKey: string, week: number) {
+  const cacheKey = `${leagueKeyOfTeam(teamKey)}:roster:${teamKey}:${week}`;
+  const cached = rosterCache.get(cacheKey);
+  if (cached && cached.until > Date.now()) return cached.roster;
+  const roster = await yahoo.roster(teamKey, week);
+  rosterCache.set(cacheKey, { until: Date.now() + 5 * 60 * 1000, roster });
+  return roster;
+}
+
+export async function collectPlayerFacts(yahoo: YahooClient, teamKey: string, weeks: number[]) {
+  const results = await Promise.allSettled(weeks.map((week) => getRoster(yahoo, teamKey, week)));
+  const facts: PlayerFact[] = [];
+  const warnings: ApiWarning[] = [];
+  results.forEach((result, i) => {
+    const week = weeks[i];
+    if (result.status === "fulfilled") {
+      facts.push(...playerFactsFromRoster(result.value, week));
+      return;
+    }
+    const e = result.reason;
+    warnings.push({
+      code: "roster_week_failed",
+      message: `Week ${week} roster for ${teamKey} could not be fetched: ${e instanceof Error ? e.message : String(e)}`,
+      week,
+    });
+  });
+  return { facts, warnings };
+}
+
+/* ---------- contributions ---------- */
+
+const outcomeValue = { W: 1, T: 0.5, L: 0 } as const;
+
+// How a week's category win is split across the active players who
+// reported the stat that week, as weights that sum to at most 1:
+// - counting stats: each player's part of the team total; where lower is
+//   better, the inverse, so the goalie who allowed fewer goals earns more
+// - rate stats: each player's part of the sample behind the rate (shots
+//   faced, minutes, or one per reported week; see rates.ts)
+function creditWeights(
+  values: Map<string, number>,
+  samples: Map<string, number> | null,
+  teamTotal: number,
+  lowerIsBetter: boolean
+) {
+  const weights = new Map<string, number>();
+  if (samples) {
+    const sum = [...samples.values()].reduce((acc, v) => acc + v, 0);
+    for (const [playerKey, sample] of samples) weights.set(playerKey, sum ? sample / sum : 0);
+    return weights;
+  }
+  if (lowerIsBetter) {
+    const sum = [...values.values()].reduce((acc, v) => acc + v, 0);
+    const n = values.size;
+    for (const [playerKey, value] of values) {
+      weights.set(playerKey, n === 1 ? 1 : sum ? (sum - value) / (sum * (n - 1)) : 1 / n);
+    }
+    return weights;
+  }
+  for (const [playerKey, value] of values) weights.set(playerKey, teamTotal ? value / teamTotal : 0);
+  return weights;
+}
+
+// Each player's share of the team's category totals, and the team's weekly
+// category wins split by creditWeights. Only active lineup slots count.
+// Rate stats are the player's own season rate, and their share is the
+// player's part of the team's sample rather than of the rate itself.
+export function playerContributions(season: SeasonFacts, playerFacts: PlayerFact[], teamKey: string, weeks: number[]) {
+  const weekSet = new Set(weeks);
+  const teamFacts = season.facts.filter((f) => f.teamKey === teamKey && weekSet.has(f.week));
+  const categories = new Map(season.categories.map((c) => [c.id, c]));
+  const sources = rateSources(season.categories);
+  const active = playerFacts.filter((pf) => pf.active && pf.teamKey === teamKey && weekSet.has(pf.week));
+
+  const teamTotals = teamCategoryTotals(teamFacts, season.categories).get(teamKey) ?? new Map<string, number>();
+  const teamCategoryWins = new Map<string, number>();
+
+  // "week:stat" -> player -> value, for the active players reporting it
+  const byWeekStat = new Map<string, Map<string, number>>();
+  const players = new Map<string, PlayerContribution & { activeWeeks: Set<number> }>();
+  for (const pf of active) {
+    let entry = players.get(pf.playerKey);
+    if (!entry) {
+      entry = {
+        playerKey: pf.playerKey,
+        name: pf.name,
+        nhlTeam: pf.nhlTeam,
+        position: pf.position,
+        weeksActive: 0,
+        totals: {},
+        share: {},
+        categoryWins: {},
+        activeWeeks: new Set(),
+      };
+      players.set(pf.playerKey, entry);
+    }
+    entry.activeWeeks.add(pf.week);
+    if (pf.value == null) continue;
+    ensureNestedMap(byWeekStat, `${pf.week}:${pf.statId}`).set(pf.playerKey, pf.value);
+    if (!sources.has(pf.statId)) entry.totals[pf.statId] = (entry.totals[pf.statId] ?? 0) + pf.value;
+  }
+
+  // the sample each player put behind a rate in one week
+  const weekSamples = (week: number, statId: string) => {
+    const { formula, ids } = sources.get(statId)!;
+    if (!formula) return new Map([...(byWeekStat.get(`${week}:${statId}`) ?? new Map()).keys()].map((k) => [k, 1]));
+    return new Map(byWeekStat.get(`${week}:${ids[formula.sample]}`) ?? []);
+  };
+
+  for (const f of teamFacts) {
+    const win = f.outcome ? outcomeValue[f.outcome] : 0;
+    addToMap(teamCategoryWins, f.statId, win);
+    if (!win) continue;
+    const cat = categories.get(f.statId);
+    const weights = creditWeights(
+      byWeekStat.get(`${f.week}:${f.statId}`) ?? new Map(),
+      sources.has(f.statId) ? weekSamples(f.week, f.statId) : null,
+      f.value ?? 0,
+      cat ? !higherIsBetter(cat) : false
+    );
+    for (const [playerKey, weight] of weights) {
+      const entry = players.get(playerKey)!;
+      entry.categoryWins[f.statId] = (entry.categoryWins[f.statId] ?? 0) + win * weight;
+    }
+  }
+
+  const playerRates = seasonRates(
+    active.map((pf) => ({ teamKey: pf.playerKey, statId: pf.statId, value: pf.value })),
+    season.categories
+  );
+  const rateSampleTotals = new Map<string, number>();
+  for (const byStat of playerRates.values()) {
+    for (const [statId, rate] of byStat) addToMap(rateSampleTotals, statId, rate.sample);
+  }
+
+  const statIds = [...new Set([...teamTotals.keys(), ...teamFacts.map((f) => f.statId)])];
+  const attributed = new Map<string, number>();
+  const result = [...players.values()].map(({ activeWeeks, ...entry }) => {
+    for (const statId of statIds) {
+      entry.categoryWins[statId] ??= 0;
+      if (sources.has(statId)) {
+        const rate = playerRates.get(entry.playerKey)?.get(statId);
+        const sampleTotal = rateSampleTotals.get(statId) ?? 0;
+        if (rate) entry.totals[statId] = rate.value;
+        entry.share[statId] = rate && sampleTotal ? rate.sample / sampleTotal : null;
+        continue;
+      }
+      const total = teamTotals.get(statId) ?? 0;
+      entry.totals[statId] ??= 0;
+      addToMap(attributed, statId, entry.totals[statId]);
+      entry.share[statId] = total ? entry.totals[statId] / total : null;
+    }
+    return { ...entry, weeksActive: activeWeeks.size };
+  });
+  result.sort((a, b) => sumValues(b.categoryWins) - sumValues(a.categoryWins) || a.name.localeCompare(b.name));
+
+  // a rate has nothing to leave over
+  const unattributed = new Map<string, number>();
+  for (const statId of statIds) {
+    if (sources.has(statId)) continue;
+    unattributed.set(statId, (teamTotals.get(statId) ?? 0) - (attributed.get(statId) ?? 0));
+  }
+
+  return {
+    players: result,
+    teamTotals: Object.fromEntries(teamTotals),
+    teamCategoryWins: Object.fromEntries(teamCategoryWins),
+    unattributed: Object.fromEntries(unattributed),
+  };
+}
+
+function sumValues(record: Record<string, number>) {
+  return Object.values(record).reduce((acc, v) => acc + v, 0);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import type { MatchupFact } from "./facts";
+import { seededRandom } from "./math";
+import { type CategoryModel, collectPlayoffOdds, playoffByes, simulatePlayoffOdds } from "./playoffOdds";
+
+const played = (teamKey: string, opponentKey: string, result: MatchupFact["result"], wins: number): MatchupFact => ({
+  week: 1,
+  matchup: 0,
+  teamKey,
+  opponentKey,
+  wins,
+  losses: 0,
+  ties: 0,
+  result,
+  stage: "regular",
+});
+
+const category = (mean: Record<string, number>): CategoryModel => ({
+  statId: "1",
+  higherIsBetter: true,
+  mean: new Map(Object.entries(mean)),
+  stdDev: new Map(),
+  leagueStdDev: 1,
+});
+
+const base = {
+  teams: ["a", "b", "c", "d"],
+  numPlayoffTeams: 2,
+  numByes: 0,
+  iterations: 500,
+};
+
+describe("playoffByes", () => {
+  it("fills the bracket up to a power of two", () => {
+    expect([2, 3, 4, 6, 8].map(playoffByes)).toEqual([0, 1, 0, 2, 0]);
+  });
+});
+
+describe("simulatePlayoffOdds", () => {
+  it("is settled once no games remain", () => {
+    const odds = simulatePlayoffOdds({
+      ...base,
+      played: [played("a", "b", "W", 3), played("b", "a", "L", 0), played("c", "d", "W", 2), played("d", "c", "L", 1)],
+      remaining: [],
+      model: [],
+      random: seededRandom(1),
+    });
+    expect(odds.map((o) => [o.teamKey, o.playoffPct])).toEqual([["a", 1], ["b", 0], ["c", 1], ["d", 0]]);
+    // category wins break the tie on points
+    expect(odds.find((o) => o.teamKey === "a")?.seedOdds).toEqual([1, 0, 0, 0]);
+  });
+
+  it("favours the team with the better margins", () => {
+    const remaining = [
+      { week: 2, teamKey: "a", opponentKey: "b" },
+      { week: 2, teamKey: "c", opponentKey: "d" },
+    ];
+    const run = (model: CategoryModel[]) =>
+      simulatePlayoffOdds({ ...base, played: [], remaining, model, random: seededRandom(1) });
+
+    const goals = run([category({ a: 5, b: -5, c: 0, d: 0 })]);
+    expect(goals[0].playoffPct).toBe(1);
+    expect(goals[1].playoffPct).toBe(0);
+    expect(goals[2].playoffPct + goals[3].playoffPct).toBe(1);
+  });
+});
+
+describe("collectPlayoffOdds", () => {
+  it("simulates the rest of the regular season from the fixture", async () => {
+    const odds = await collectPlayoffOdds(fixtureClient(), FIXTURE_LEAGUE_KEY, { iterations: 1000 });
+    expect(odds.remainingWeeks).toEqual([3]);
+    expect(odds.history.map((h) => h.week)).toEqual([1, 2]);
+
+    const pct = new Map(odds.teams.map((t) => [t.teamKey, t.playoffPct]));
+    // Dekes are two wins behind with one week left
+    expect(pct.get(teamKey(4))).toBe(0);
+    expect([...pct.values()].reduce((a, b) => a + b, 0)).toBeCloseTo(2);
+    for (const t of odds.teams) expect(t.seedOdds.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+
+  it("runs earlier weeks at the default iteration count whatever was asked for", async () => {
+    const few = await collectPlayoffOdds(fixtureClient(), FIXTURE_LEAGUE_KEY, { iterations: 10 });
+    const many = await collectPlayoffOdds(fixtureClient(), FIXTURE_LEAGUE_KEY, { iterations: 3000 });
+    expect(few.history[0]).toEqual(many.history[0]);
+    expect(few.iterations).toBe(10);
+  });
+});
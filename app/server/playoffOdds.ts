@@ -0,0 +1,237 @@
+import type { ApiWarning, Category, PlayoffOddsTeam, PlayoffOddsWeek } from "../shared/contract";
+import { type CategoryFact, type MatchupFact, collectSeasonFacts, teamCategoryMargins } from "./facts";
+import { NoDataError } from "./http";
+import { calculateMean, calculateStdDev, sampleNormal, seededRandom } from "./math";
+import { memoCache } from "./memo";
+import { type ScheduledGame, fetchRemainingSchedule, higherIsBetter } from "./season";
+import type { YahooClient } from "./yahoo";
+
+/* =========================
+   Playoff odds
+   =========================
+   Monte Carlo over the rest of the regular season. Each team's weekly
+   margin in a category is drawn from a normal fitted to its margins so far
+   (the same samples the Sharpe view uses, already turned around where
+   lower is better), and the bigger draw takes the category. Seeding
+   follows the standings table: 2 points a win, 1 a tie, then category
+   wins, then a coin flip. The history re-runs the simulation as of each
+   earlier settled week at the default iteration count; those runs only see
+   weeks that are already settled, so each is kept for hours rather than
+   redone on every request.
+*/
+
+export const DEFAULT_ODDS_ITERATIONS = 2000;
+// a full season at the cap blocks the event loop for about a second
+export const MAX_ODDS_ITERATIONS = 5000;
+// fixed, so a page refresh doesn't reshuffle the odds
+const ODDS_SEED = 20240301;
+
+const HISTORY_TTL_MS = 6 * 60 * 60 * 1000;
+
+const oddsCache = memoCache<{ until: number; payload: PlayoffOdds }>();
+// "<leagueKey>:history:<week>" -> odds as of that week
+const historyCache = memoCache<{ until: number; teams: TeamOdds[] }>();
+
+export interface CategoryModel {
+  statId: string;
+  higherIsBetter: boolean;
+  mean: Map<string, number>;
+  stdDev: Map<string, number>;
+  // spread of the whole league's margins, for teams with too few samples
+  leagueStdDev: number;
+}
+
+export interface OddsInput {
+  teams: string[];
+  // settled regular-season matchups, one row per side
+  played: MatchupFact[];
+  remaining: ScheduledGame[];
+  model: CategoryModel[];
+  numPlayoffTeams: number;
+  numByes: number;
+  iterations: number;
+  random: () => number;
+}
+
+export type TeamOdds = Omit<PlayoffOddsTeam, "name">;
+
+export interface PlayoffOdds {
+  iterations: number;
+  numPlayoffTeams: number;
+  numByes: number;
+  remainingWeeks: number[];
+  teams: TeamOdds[];
+  history: PlayoffOddsWeek[];
+  warnings: ApiWarning[];
+}
+
+// First-round byes fill the bracket up to the next power of two.
+export function playoffByes(numPlayoffTeams: number) {
+  if (numPlayoffTeams < 2) return 0;
+  return 2 ** Math.ceil(Math.log2(numPlayoffTeams)) - numPlayoffTeams;
+}
+
+export function marginModel(facts: CategoryFact[], categories: Category[]): CategoryModel[] {
+  const margins = teamCategoryMargins(facts, categories);
+  return categories
+    .filter((cat) => !cat.is_only_display)
+    .map((cat) => {
+      const mean = new Map<string, number>();
+      const stdDev = new Map<string, number>();
+      const all: number[] = [];
+      for (const [teamKey, byStat] of margins) {
+        const values = byStat.get(cat.id) || [];
+        if (!values.length) continue;
+        all.push(...values);
+        const m = calculateMean(values);
+        mean.set(teamKey, m);
+        if (values.length >= 2) stdDev.set(teamKey, calculateStdDev(values, m));
+      }
+      return {
+        statId: cat.id,
+        higherIsBetter: higherIsBetter(cat),
+        mean,
+        stdDev,
+        leagueStdDev: calculateStdDev(all, calculateMean(all)),
+      };
+    })
+    .filter((m) => m.mean.size > 0);
+}
+
+export function simulatePlayoffOdds(input: OddsInput): TeamOdds[] {
+  const { teams, played, remaining, model, numPlayoffTeams, numByes, iterations, random } = input;
+  const index = new Map(teams.map((t, i) => [t, i]));
+  const basePoints = new Array<number>(teams.length).fill(0);
+  const baseCatWins = new Array<number>(teams.length).fill(0);
+  for (const m of played) {
+    const i = index.get(m.teamKey);
+    if (i == null) continue;
+    basePoints[i] += m.result === "W" ? 2 : m.result === "T" ? 1 : 0;
+    baseCatWins[i] += m.wins;
+  }
+
+  const games = remaining.flatMap((g) => {
+    const a = index.get(g.teamKey), b = index.get(g.opponentKey);
+    return a == null || b == null ? [] : [[a, b] as const];
+  });
+  const draw = (cat: CategoryModel, team: string) =>
+    sampleNormal(random, cat.mean.get(team) ?? 0, cat.stdDev.get(team) ?? cat.leagueStdDev);
+
+  const playoffs = new Array<number>(teams.length).fill(0);
+  const byes = new Array<number>(teams.length).fill(0);
+  const seedCounts = teams.map(() => new Array<number>(teams.length).fill(0));
+
+  for (let it = 0; it < iterations; it++) {
+    const points = basePoints.slice();
+    const catWins = baseCatWins.slice();
+    for (const [a, b] of games) {
+      let winsA = 0, winsB = 0;
+      for (const cat of model) {
+        const x = draw(cat, teams[a]), y = draw(cat, teams[b]);
+        if (x === y) continue;
+        if (x > y) winsA++;
+        else winsB++;
+      }
+      catWins[a] += winsA;
+      catWins[b] += winsB;
+      if (winsA > winsB) points[a] += 2;
+      else if (winsB > winsA) points[b] += 2;
+      else {
+        points[a] += 1;
+        points[b] += 1;
+      }
+    }
+
+    const coin = teams.map(() => random());
+    const order = teams
+      .map((_, i) => i)
+      .sort((x, y) => points[y] - points[x] || catWins[y] - catWins[x] || coin[x] - coin[y]);
+    order.forEach((teamIdx, seedIdx) => {
+      seedCounts[teamIdx][seedIdx] += 1;
+      if (seedIdx < numPlayoffTeams) playoffs[teamIdx] += 1;
+      if (seedIdx < numByes) byes[teamIdx] += 1;
+    });
+  }
+
+  return teams.map((teamKey, i) => {
+    const seedOdds = seedCounts[i].map((n) => n / iterations);
+    return {
+      teamKey,
+      playoffPct: playoffs[i] / iterations,
+      byePct: byes[i] / iterations,
+      expectedSeed: seedOdds.reduce((acc, p, seedIdx) => acc + p * (seedIdx + 1), 0),
+      seedOdds,
+    };
+  });
+}
+
+export async function collectPlayoffOdds(
+  yahoo: YahooClient,
+  leagueKey: string,
+  { iterations = DEFAULT_ODDS_ITERATIONS }: { iterations?: number } = {}
+): Promise<PlayoffOdds> {
+  const cacheKey = `${leagueKey}:${iterations}`;
+  const cached = oddsCache.get(cacheKey);
+  if (cached && cached.until > Date.now()) return cached.payload;
+
+  const [league, settings] = await Promise.all([yahoo.league(leagueKey), yahoo.settings(leagueKey)]);
+  const numPlayoffTeams = settings.usesPlayoff ? settings.numPlayoffTeams : null;
+  if (!numPlayoffTeams) throw new NoDataError(`${leagueKey} has no playoffs`);
+
+  const lastRegular = settings.playoffStartWeek != null ? settings.playoffStartWeek - 1 : league.endWeek ?? 40;
+  const season = await collectSeasonFacts(yahoo, leagueKey, { to: lastRegular });
+  const teams = [...season.teamDir.keys()];
+  const lastSettled = season.weeks[season.weeks.length - 1];
+
+  const future = league.isFinished
+    ? { games: [], warnings: [] }
+    : await fetchRemainingSchedule(yahoo, leagueKey, Math.max(lastSettled + 1, league.currentWeek ?? 0), lastRegular);
+  // a settled week's pairings stand in for the schedule when re-running history
+  const settledGames: ScheduledGame[] = season.matchups
+    .filter((m) => m.teamKey < m.opponentKey)
+    .map((m) => ({ week: m.week, teamKey: m.teamKey, opponentKey: m.opponentKey }));
+
+  const numByes = playoffByes(numPlayoffTeams);
+  const warnings = [...season.warnings, ...future.warnings];
+  const oddsAfter = (week: number, runIterations: number) =>
+    simulatePlayoffOdds({
+      teams,
+      played: season.matchups.filter((m) => m.week <= week),
+      remaining: [...settledGames.filter((g) => g.week > week), ...future.games],
+      model: marginModel(season.facts.filter((f) => f.week <= week), season.categories),
+      numPlayoffTeams,
+      numByes,
+      iterations: runIterations,
+      random: seededRandom(ODDS_SEED + week),
+    });
+  const historyAfter = (week: number) => {
+    const key = `${leagueKey}:history:${week}`;
+    const hit = historyCache.get(key);
+    if (hit && hit.until > Date.now()) return hit.teams;
+    const odds = oddsAfter(week, DEFAULT_ODDS_ITERATIONS);
+    if (!warnings.length) historyCache.set(key, { until: Date.now() + HISTORY_TTL_MS, teams: odds });
+    return odds;
+  };
+
+  // only the latest week runs at the requested iteration count
+  const latestWeek = season.weeks[season.weeks.length - 1];
+  const runs = season.weeks.map((week) => ({
+    week,
+    teams: week === latestWeek ? oddsAfter(week, iterations) : historyAfter(week),
+  }));
+  const payload: PlayoffOdds = {
+    iterations,
+    numPlayoffTeams,
+    numByes,
+    remainingWeeks: [...new Set(future.games.map((g) => g.week))].sort((a, b) => a - b),
+    teams: runs[runs.length - 1].teams,
+    history: runs.map(({ week, teams: odds }) => ({
+      week,
+      teams: odds.map(({ teamKey, playoffPct, byePct, expectedSeed }) => ({ teamKey, playoffPct, byePct, expectedSeed })),
+    })),
+    warnings,
+  };
+
+  if (!payload.warnings.length) oddsCache.set(cacheKey, { until: Date.now() + 5 * 60 * 1000, payload });
+  return payload;
+}
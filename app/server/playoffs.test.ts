@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient } from "./__fixtures__";
+import { buildBracket, collectPlayoffBracket } from "./playoffs";
+import type { LeagueSettings, Matchup, TeamStanding } from "./yahoo";
+
+const yahoo = fixtureClient();
+
+const settings: LeagueSettings = {
+  categories: [],
+  usesPlayoff: true,
+  playoffStartWeek: 5,
+  numPlayoffTeams: 2,
+  numPlayoffConsolationTeams: 0,
+  hasPlayoffConsolationGames: false,
+};
+
+const standing = (teamKey: string, playoffSeed: number): TeamStanding => ({
+  teamKey,
+  teamName: teamKey.toUpperCase(),
+  rank: playoffSeed,
+  playoffSeed,
+  wins: 0,
+  losses: 0,
+  ties: 0,
+  percentage: null,
+  moves: null,
+  trades: null,
+});
+
+// A tied final: one category each and one tied.
+const tiedFinal: Matchup = {
+  week: 5,
+  weekStart: null,
+  weekEnd: null,
+  status: "postevent",
+  isPlayoffs: true,
+  isConsolation: false,
+  isTied: true,
+  winnerKey: null,
+  teams: [
+    { key: "b", name: "B", points: null, stats: {} },
+    { key: "a", name: "A", points: null, stats: {} },
+  ],
+  statWinners: [
+    { statId: "1", winnerKey: "a", isTied: false },
+    { statId: "2", winnerKey: "b", isTied: false },
+    { statId: "3", winnerKey: null, isTied: true },
+  ],
+};
+
+describe("collectPlayoffBracket", () => {
+  it("builds the final and consolation rounds of a finished season", async () => {
+    const bracket = await collectPlayoffBracket(yahoo, "888.l.4242");
+    expect(bracket.seeds.map((s) => [s.name, s.seed, s.inPlayoffs])).toEqual([
+      ["Old Aces", 1, true],
+      ["Old Bruisers", 2, true],
+      ["Old Dekes", 3, false],
+      ["Old Cyclones", 4, false],
+    ]);
+    expect(bracket.rounds).toHaveLength(1);
+    expect(bracket.rounds[0]).toMatchObject({ round: 1, week: 2, settled: true });
+    expect(bracket.rounds[0].games.map((g) => [g.bracket, g.teams.map((t) => t.name), g.winnerKey])).toEqual([
+      ["championship", ["Old Aces", "Old Bruisers"], "888.l.4242.t.2"],
+      ["consolation", ["Old Cyclones", "Old Dekes"], "888.l.4242.t.3"],
+    ]);
+    expect(bracket.eliminated).toEqual([{ teamKey: "888.l.4242.t.1", name: "Old Bruisers", week: 2 }]);
+    expect(bracket.champion).toEqual({ teamKey: "888.l.4242.t.2", name: "Old Aces" });
+  });
+
+  it("has no rounds before the playoffs start", async () => {
+    const bracket = await collectPlayoffBracket(yahoo, FIXTURE_LEAGUE_KEY);
+    expect(bracket.playoffStartWeek).toBe(4);
+    expect(bracket.rounds).toEqual([]);
+    expect(bracket.champion).toBeNull();
+  });
+});
+
+describe("buildBracket", () => {
+  const input = {
+    settings,
+    standings: [standing("a", 1), standing("b", 2)],
+    weeks: [{ week: 5, matchups: [tiedFinal] }],
+    teamDir: new Map([["a", "A"], ["b", "B"]]),
+  };
+
+  it("sends a tied playoff matchup to the better seed", () => {
+    const bracket = buildBracket({ ...input, isFinished: true });
+    expect(bracket.rounds[0].games[0]).toMatchObject({ winnerKey: "a", ties: 1 });
+    expect(bracket.eliminated).toEqual([{ teamKey: "b", name: "B", week: 5 }]);
+    expect(bracket.champion).toEqual({ teamKey: "a", name: "A" });
+  });
+
+  it("waits for the season to finish before naming a champion", () => {
+    expect(buildBracket({ ...input, isFinished: false }).champion).toBeNull();
+    const live = { ...tiedFinal, status: "midevent" };
+    const bracket = buildBracket({ ...input, weeks: [{ week: 5, matchups: [live] }], isFinished: true });
+    expect(bracket.rounds[0]).toMatchObject({ settled: false, games: [{ winnerKey: null }] });
+    expect(bracket.eliminated).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { ApiWarning, PlayoffGame, PlayoffRound, PlayoffSeed } from "../shared/contract";
+import {
+  type WeekMatchups,
+  fetchScoreboardWeeks,
+  getTeamDirectory,
+  matchupStage,
+  winsFromStatWinners,
+} from "./season";
+import type { LeagueSettings, Matchup, TeamStanding, YahooClient } from "./yahoo";
+
+/* =========================
+   Playoff bracket
+   =========================
+   One round per playoff week, built from the is_playoffs/is_consolation
+   flags Yahoo puts on each matchup. Seeds come from the standings. A tied
+   playoff matchup goes to the better seed, as Yahoo decides it; a round
+   only counts once every game in it is final.
+*/
+
+export interface BracketInput {
+  settings: LeagueSettings;
+  standings: TeamStanding[];
+  weeks: WeekMatchups[];
+  teamDir: Map<string, string>;
+  isFinished: boolean;
+}
+
+// The team going through, or null while the matchup is still being played.
+function advancingTeam(m: Matchup, seedOf: Map<string, number | null>) {
+  if (m.status !== "postevent") return null;
+  if (m.winnerKey) return m.winnerKey;
+  const [a, b] = m.teams;
+  const sw = winsFromStatWinners(m);
+  if (sw.a !== sw.b) return sw.a > sw.b ? a.key : b.key;
+  const seedA = seedOf.get(a.key), seedB = seedOf.get(b.key);
+  if (seedA == null || seedB == null || seedA === seedB) return null;
+  return seedA < seedB ? a.key : b.key;
+}
+
+export function buildBracket({ settings, standings, weeks, teamDir, isFinished }: BracketInput) {
+  const nameOf = (key: string) => teamDir.get(key) || key;
+  const seedOf = new Map(standings.map((s) => [s.teamKey, s.playoffSeed]));
+  const cutoff = settings.usesPlayoff ? settings.numPlayoffTeams : null;
+
+  const seeds: PlayoffSeed[] = standings
+    .map((s) => ({
+      teamKey: s.teamKey,
+      name: teamDir.get(s.teamKey) || s.teamName,
+      seed: s.playoffSeed,
+      inPlayoffs: cutoff != null && s.playoffSeed != null && s.playoffSeed <= cutoff,
+    }))
+    .sort((a, b) => (a.seed ?? Infinity) - (b.seed ?? Infinity));
+
+  const rounds: PlayoffRound[] = [];
+  const eliminatedIn = new Map<string, number>();
+  const start = settings.playoffStartWeek;
+  const playoffWeeks = start == null ? [] : weeks.filter((wk) => wk.week >= start).sort((a, b) => a.week - b.week);
+
+  for (const wk of playoffWeeks) {
+    const matchups = wk.matchups.filter((m) => matchupStage(m) !== "regular");
+    if (!matchups.length) continue;
+
+    const games = matchups.map((m): PlayoffGame => {
+      const sw = winsFromStatWinners(m);
+      const [a, b] = m.teams;
+      const winnerKey = advancingTeam(m, seedOf);
+      const bracket = matchupStage(m) === "consolation" ? "consolation" : "championship";
+      if (bracket === "championship" && winnerKey) {
+        const loser = winnerKey === a.key ? b.key : a.key;
+        if (!eliminatedIn.has(loser)) eliminatedIn.set(loser, wk.week);
+      }
+      return {
+        bracket,
+        teams: [
+          { key: a.key, name: nameOf(a.key), seed: seedOf.get(a.key) ?? null, categoryWins: sw.a },
+          { key: b.key, name: nameOf(b.key), seed: seedOf.get(b.key) ?? null, categoryWins: sw.b },
+        ],
+        ties: sw.ties,
+        winnerKey,
+      };
+    });
+    rounds.push({
+      round: rounds.length + 1,
+      week: wk.week,
+      settled: matchups.every((m) => m.status === "postevent"),
+      games,
+    });
+  }
+
+  // The final is the last round's championship game between two teams still
+  // alive going into it; the rest of that round are placement games.
+  let champion: { teamKey: string; name: string } | null = null;
+  const last = rounds[rounds.length - 1];
+  if (isFinished && last?.settled) {
+    const alive = (key: string) => (eliminatedIn.get(key) ?? Infinity) >= last.week;
+    const final = last.games.find((g) => g.bracket === "championship" && g.teams.every((t) => alive(t.key)));
+    if (final?.winnerKey) champion = { teamKey: final.winnerKey, name: nameOf(final.winnerKey) };
+  }
+
+  const eliminated = [...eliminatedIn.entries()]
+    .map(([teamKey, week]) => ({ teamKey, name: nameOf(teamKey), week }))
+    .sort((a, b) => a.week - b.week || a.name.localeCompare(b.name));
+
+  return { seeds, rounds, eliminated, champion };
+}
+
+export async function collectPlayoffBracket(yahoo: YahooClient, leagueKey: string) {
+  const [league, settings, standings, teamDir] = await Promise.all([
+    yahoo.league(leagueKey),
+    yahoo.settings(leagueKey),
+    yahoo.standings(leagueKey),
+    getTeamDirectory(yahoo, leagueKey),
+  ]);
+
+  let weeks: WeekMatchups[] = [];
+  let warnings: ApiWarning[] = [];
+  if (settings.usesPlayoff && settings.playoffStartWeek != null) {
+    ({ weeks, warnings } = await fetchScoreboardWeeks(yahoo, leagueKey, { from: settings.playoffStartWeek }));
+  }
+
+  return {
+    usesPlayoff: settings.usesPlayoff,
+    playoffStartWeek: settings.playoffStartWeek,
+    numPlayoffTeams: settings.numPlayoffTeams,
+    numConsolationTeams: settings.numPlayoffConsolationTeams,
+    ...buildBracket({ settings, standings, weeks, teamDir, isFinished: league.isFinished }),
+    warnings,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { collectSeasonFacts } from "./facts";
+import { DEFAULT_POWER_RANKINGS, buildLeagueRegistry } from "./leagues";
+import { powerRankings } from "./powerRankings";
+
+const yahoo = fixtureClient();
+const season = () => collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+
+describe("powerRankings", () => {
+  it("ranks every settled week and tracks the movement", async () => {
+    const rankings = powerRankings(await season(), DEFAULT_POWER_RANKINGS);
+    expect(rankings.week).toBe(2);
+    expect(rankings.history.map((h) => h.week)).toEqual([1, 2]);
+    expect(rankings.history[0].teams.every((t) => t.delta === null)).toBe(true);
+
+    expect(rankings.teams.map((t) => [t.teamName, t.rank, t.previousRank, t.delta])).toEqual([
+      ["Aces", 1, 1, 0],
+      ["Bruisers", 2, 2, 0],
+      // the Dekes' tougher schedule lifts them past the Cyclones
+      ["Dekes", 3, 4, 1],
+      ["Cyclones", 4, 3, -1],
+    ]);
+    const aces = rankings.teams[0];
+    expect(aces.record).toEqual({ wins: 1, losses: 0, ties: 1 });
+    // 3.5 of 5 decided categories over the last three weeks
+    expect(aces.components.form).toBeCloseTo(0.7);
+    expect(aces.components.allPlay).toBeCloseTo(11 / 12);
+  });
+
+  it("follows the configured weights", async () => {
+    // schedule alone: Aces and Dekes have faced the stronger opponents
+    const rankings = powerRankings(await season(), {
+      formWeeks: 3,
+      weights: { form: 0, allPlay: 0, sharpe: 0, schedule: 1 },
+    });
+    expect(rankings.teams.slice(0, 2).map((t) => t.teamKey)).toEqual([teamKey(1), teamKey(4)]);
+  });
+
+  it("leaves playoff weeks out", async () => {
+    const rankings = powerRankings(await collectSeasonFacts(yahoo, "888.l.4242"), DEFAULT_POWER_RANKINGS);
+    expect(rankings.history.map((h) => h.week)).toEqual([1]);
+  });
+});
+
+describe("power ranking config", () => {
+  const registry = (powerRankings: { formWeeks?: number; weights?: Record<string, number> }) =>
+    buildLeagueRegistry({ leagues: { x: { leagueId: "1", powerRankings } } });
+
+  it("fills in the default weights", () => {
+    const config = registry({ weights: { sharpe: 0.5 } }).leagues.get("x")!.powerRankings;
+    expect(config).toEqual({ formWeeks: 3, weights: { ...DEFAULT_POWER_RANKINGS.weights, sharpe: 0.5 } });
+  });
+
+  it("rejects weights that can't be used", () => {
+    expect(() => registry({ weights: { form: -1 } })).toThrow(/weight form/);
+    expect(() => registry({ weights: { form: 0, allPlay: 0, sharpe: 0, schedule: 0 } })).toThrow(/all zero/);
+    expect(() => registry({ formWeeks: 0 })).toThrow(/formWeeks/);
+  });
+});
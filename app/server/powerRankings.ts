@@ -0,0 +1,109 @@
+import type { PowerRankingComponents, PowerRankingEntry, PowerRankingWeek } from "../shared/contract";
+import { sharpeEntries } from "./analytics";
+import { type SeasonFacts, regularSeason } from "./facts";
+import { NoDataError } from "./http";
+import type { PowerRankingConfig, PowerRankingWeights } from "./leagues";
+import { luckEntries } from "./luck";
+import { calculateMean, calculateStdDev } from "./math";
+import { scheduleStrength } from "./schedule";
+
+/* =========================
+   Power rankings
+   =========================
+   A blend of four signals, each turned into a z-score across the league
+   before the league's weights (leagues.json) are applied:
+   - form: category win share over the last few weeks
+   - all-play: win % against every team, every week (luck.ts)
+   - sharpe: mean Sharpe ratio over the scored categories
+   - schedule: strength of the opponents played (schedule.ts), so results
+     against strong teams count for more
+   Regular-season weeks only. The history re-ranks as of each settled week.
+*/
+
+const COMPONENTS: (keyof PowerRankingWeights)[] = ["form", "allPlay", "sharpe", "schedule"];
+
+function zScores(values: (number | null)[]) {
+  const present = values.filter((v): v is number => v != null);
+  if (!present.length) return values.map(() => 0);
+  const mean = calculateMean(present);
+  const sd = calculateStdDev(present, mean);
+  return values.map((v) => (v == null || !sd ? 0 : (v - mean) / sd));
+}
+
+const meanOrNull = (values: number[]) => (values.length ? calculateMean(values) : null);
+
+function asOf(season: SeasonFacts, week: number): SeasonFacts {
+  return {
+    ...season,
+    weeks: season.weeks.filter((w) => w <= week),
+    matchups: season.matchups.filter((m) => m.week <= week),
+    facts: season.facts.filter((f) => f.week <= week),
+  };
+}
+
+type Ranked = Omit<PowerRankingEntry, "previousRank" | "delta">;
+
+function rankSeason(season: SeasonFacts, config: PowerRankingConfig): Ranked[] {
+  const recent = new Set(season.weeks.slice(-config.formWeeks));
+  const scored = new Set(season.categories.filter((c) => !c.is_only_display).map((c) => c.id));
+  const luck = new Map(luckEntries(season).map((e) => [e.teamKey, e]));
+  const sharpe = new Map(sharpeEntries(season).map((e) => [e.teamKey, e]));
+  const schedule = new Map(scheduleStrength(season).map((e) => [e.teamKey, e.past.strength]));
+  const teams = [...luck.keys()];
+
+  const components = teams.map((teamKey): PowerRankingComponents => {
+    const own = season.matchups.filter((m) => m.teamKey === teamKey);
+    const form = own.filter((m) => recent.has(m.week));
+    const contested = form.reduce((acc, m) => acc + m.wins + m.losses + m.ties, 0);
+    return {
+      form: contested ? form.reduce((acc, m) => acc + m.wins + m.ties * 0.5, 0) / contested : null,
+      allPlay: luck.get(teamKey)!.allPlayPct,
+      sharpe: meanOrNull(
+        (sharpe.get(teamKey)?.categories ?? [])
+          .filter((c) => scored.has(c.statId) && c.sharpe != null)
+          .map((c) => c.sharpe!)
+      ),
+      schedule: schedule.get(teamKey) ?? null,
+    };
+  });
+
+  const totalWeight = COMPONENTS.reduce((acc, name) => acc + config.weights[name], 0);
+  const scores = new Array<number>(teams.length).fill(0);
+  for (const name of COMPONENTS) {
+    zScores(components.map((c) => c[name])).forEach((z, i) => {
+      scores[i] += (config.weights[name] * z) / totalWeight;
+    });
+  }
+
+  return teams
+    .map((teamKey, i) => {
+      const entry = luck.get(teamKey)!;
+      return { teamKey, teamName: entry.teamName, rank: 0, score: scores[i], record: entry.actual, components: components[i] };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.components.allPlay ?? 0) - (a.components.allPlay ?? 0) ||
+        a.teamName.localeCompare(b.teamName)
+    )
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+export function powerRankings(season: SeasonFacts, config: PowerRankingConfig) {
+  const regular = regularSeason(season);
+  if (!regular.weeks.length) throw new NoDataError(`${season.leagueKey} has no settled regular-season weeks`);
+
+  const history: PowerRankingWeek[] = [];
+  let previous = new Map<string, number>();
+  for (const week of regular.weeks) {
+    const teams = rankSeason(asOf(regular, week), config).map((entry) => {
+      const previousRank = previous.get(entry.teamKey) ?? null;
+      return { ...entry, previousRank, delta: previousRank == null ? null : previousRank - entry.rank };
+    });
+    history.push({ week, teams });
+    previous = new Map(teams.map((t) => [t.teamKey, t.rank]));
+  }
+
+  const latest = history[history.length - 1];
+  return { weights: config.weights, formWeeks: config.formWeeks, week: latest.week, teams: latest.teams, history };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import type { CategoryModel } from "./playoffOdds";
+import { categoryWinProbability, matchupOdds, previewWeek } from "./preview";
+
+const category = (higherIsBetter: boolean, stdDev: Record<string, number> = {}): CategoryModel => ({
+  statId: "1",
+  higherIsBetter,
+  mean: new Map([["a", 2], ["b", 0]]),
+  stdDev: new Map(Object.entries(stdDev)),
+  leagueStdDev: 2,
+});
+
+describe("categoryWinProbability", () => {
+  it("compares the two margin distributions", () => {
+    // A - B ~ N(2, sqrt(8)): P > 0 is about 0.76
+    expect(categoryWinProbability(category(true), "a", "b")).toBeCloseTo(0.7602, 3);
+    expect(categoryWinProbability(category(true), "b", "a")).toBeCloseTo(0.2398, 3);
+    // margins already point the right way where lower is better
+    expect(categoryWinProbability(category(false), "a", "b")).toBeCloseTo(0.7602, 3);
+  });
+
+  it("is certain when neither side varies", () => {
+    const flat = { ...category(true, { a: 0, b: 0 }), leagueStdDev: 0 };
+    expect(categoryWinProbability(flat, "a", "b")).toBe(1);
+    expect(categoryWinProbability(flat, "a", "a")).toBe(0.5);
+  });
+});
+
+describe("matchupOdds", () => {
+  it("sums the category coin flips", () => {
+    expect(matchupOdds([1, 1, 0])).toEqual({ winProbA: 1, winProbB: 0, tieProb: 0 });
+    const even = matchupOdds([0.5, 0.5]);
+    expect(even.tieProb).toBeCloseTo(0.5);
+    expect(even.winProbA).toBeCloseTo(0.25);
+    const odds = matchupOdds([0.9, 0.6, 0.3]);
+    expect(odds.winProbA + odds.winProbB + odds.tieProb).toBeCloseTo(1);
+  });
+});
+
+describe("previewWeek", () => {
+  it("previews the first unsettled week from the weeks before it", async () => {
+    const preview = await previewWeek(fixtureClient(), FIXTURE_LEAGUE_KEY);
+    expect(preview.week).toBe(3);
+    expect(preview.basedOnWeeks).toEqual([1, 2]);
+    expect(preview.matchups.map((m) => [m.teamA.key, m.teamB.key])).toEqual([
+      [teamKey(1), teamKey(4)],
+      [teamKey(2), teamKey(3)],
+    ]);
+    const [aces] = preview.matchups;
+    expect(aces.categories.map((c) => c.label)).toEqual(["GAA", "G", "A"]);
+    // Dekes have the better GAA margin, Aces the better goals margin
+    expect(aces.categories[0].probA).toBeLessThan(0.5);
+    expect(aces.categories[1].probA).toBeGreaterThan(0.9);
+    expect(aces.expectedA + aces.expectedB).toBeCloseTo(3);
+  });
+
+  it("only uses weeks before the one asked for", async () => {
+    const preview = await previewWeek(fixtureClient(), FIXTURE_LEAGUE_KEY, 2);
+    expect(preview.basedOnWeeks).toEqual([1]);
+    await expect(previewWeek(fixtureClient(), FIXTURE_LEAGUE_KEY, 1)).rejects.toThrow("no settled weeks before week 1");
+  });
+});
@@ -0,0 +1,100 @@
+import type { MatchupPreview } from "../shared/contract";
+import { collectSeasonFacts } from "./facts";
+import { NoDataError } from "./http";
+import { normalCdf } from "./math";
+import { type CategoryModel, marginModel } from "./playoffOdds";
+import { getTeamDirectory, matchupStage } from "./season";
+import { type YahooClient, YahooHttpError } from "./yahoo";
+
+/* =========================
+   Matchup preview
+   =========================
+   Category win chances for a week's matchups before they're played. Each
+   side's weekly margin is taken as normal with the mean and spread of its
+   margins in the settled weeks before (the Sharpe view's numbers, positive
+   when ahead whichever way the stat is scored), so A takes a category with
+   P(A - B > 0). Categories are treated as independent for the overall odds.
+*/
+
+export function categoryWinProbability(cat: CategoryModel, teamA: string, teamB: string) {
+  const meanA = cat.mean.get(teamA) ?? 0, meanB = cat.mean.get(teamB) ?? 0;
+  const sdA = cat.stdDev.get(teamA) ?? cat.leagueStdDev;
+  const sdB = cat.stdDev.get(teamB) ?? cat.leagueStdDev;
+  const edge = meanA - meanB;
+  const spread = Math.sqrt(sdA ** 2 + sdB ** 2);
+  if (!spread) return edge > 0 ? 1 : edge < 0 ? 0 : 0.5;
+  return normalCdf(edge / spread);
+}
+
+// Chance A wins more categories, fewer, or the same number: the
+// distribution of a sum of independent coin flips with these odds.
+export function matchupOdds(probs: number[]) {
+  let dist = [1];
+  for (const p of probs) {
+    const next = new Array<number>(dist.length + 1).fill(0);
+    dist.forEach((q, k) => {
+      next[k] += q * (1 - p);
+      next[k + 1] += q * p;
+    });
+    dist = next;
+  }
+  let winProbA = 0, winProbB = 0, tieProb = 0;
+  dist.forEach((q, k) => {
+    if (2 * k > probs.length) winProbA += q;
+    else if (2 * k < probs.length) winProbB += q;
+    else tieProb += q;
+  });
+  return { winProbA, winProbB, tieProb };
+}
+
+// Without a week, previews the first one that isn't settled yet.
+export async function previewWeek(yahoo: YahooClient, leagueKey: string, week?: number) {
+  const [league, season, teamDir] = await Promise.all([
+    yahoo.league(leagueKey),
+    collectSeasonFacts(yahoo, leagueKey),
+    getTeamDirectory(yahoo, leagueKey),
+  ]);
+  const target = week ?? season.weeks[season.weeks.length - 1] + 1;
+  if (week == null && league.endWeek != null && target > league.endWeek) {
+    throw new NoDataError(`${leagueKey} has no weeks left to preview`);
+  }
+
+  const basedOnWeeks = season.weeks.filter((w) => w < target);
+  if (!basedOnWeeks.length) throw new NoDataError(`no settled weeks before week ${target}`);
+  const model = marginModel(season.facts.filter((f) => f.week < target), season.categories);
+  const labels = new Map(season.categories.map((c) => [c.id, c.display_name]));
+
+  let board;
+  try {
+    board = await yahoo.scoreboard(leagueKey, target);
+  } catch (e) {
+    if (e instanceof YahooHttpError && e.status === 404) throw new NoDataError(`no schedule for week ${target}`);
+    throw e;
+  }
+  if (!board.matchups.length) throw new NoDataError(`no schedule for week ${target}`);
+
+  const nameOf = (key: string, fallback: string) => teamDir.get(key) || fallback || key;
+  const matchups: MatchupPreview[] = board.matchups.map((m) => {
+    const [a, b] = m.teams;
+    const categories = model.map((cat) => ({
+      statId: cat.statId,
+      label: labels.get(cat.statId) ?? cat.statId,
+      higherIsBetter: cat.higherIsBetter,
+      probA: categoryWinProbability(cat, a.key, b.key),
+      marginA: cat.mean.get(a.key) ?? null,
+      marginB: cat.mean.get(b.key) ?? null,
+    }));
+    const expectedA = categories.reduce((acc, c) => acc + c.probA, 0);
+    return {
+      stage: matchupStage(m),
+      teamA: { key: a.key, name: nameOf(a.key, a.name) },
+      teamB: { key: b.key, name: nameOf(b.key, b.name) },
+      categories,
+      expectedA,
+      expectedB: categories.length - expectedA,
+      ...matchupOdds(categories.map((c) => c.probA)),
+    };
+  });
+
+  return { week: target, basedOnWeeks, matchups, warnings: season.warnings };
+}
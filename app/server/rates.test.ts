@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import type { Category } from "../shared/contract";
+import type { CategoryFact } from "./facts";
+import { rateSources, seasonRates } from "./rates";
+import { unknownCategory } from "./season";
+
+const cat = (id: string, display_name: string, extra: Partial<Category> = {}): Category => ({
+  ...unknownCategory(id),
+  display_name,
+  ...extra,
+});
+
+const GAA = cat("23", "GAA", { sort_order: 0 });
+const SV_PCT = cat("26", "SV%");
+const GA = cat("22", "GA", { is_only_display: true });
+const SA = cat("24", "SA", { is_only_display: true });
+const TOI = cat("28", "MIN", { is_only_display: true });
+
+const fact = (week: number, statId: string, value: number | null): CategoryFact => ({
+  week,
+  matchup: 0,
+  teamKey: "a",
+  opponentKey: "b",
+  statId,
+  value,
+  opponentValue: null,
+  outcome: null,
+});
+
+describe("rateSources", () => {
+  it("builds rates from display-only components when the league has them", () => {
+    const sources = rateSources([GAA, SV_PCT, GA, SA, TOI]);
+    expect(sources.get("23")).toMatchObject({ ids: { GA: "22", TOI: "28" }, sampleLabel: "TOI" });
+    // no saves category, so SV% works from shots against minus goals against
+    expect(sources.get("26")).toMatchObject({ ids: { GA: "22", SA: "24" }, sampleLabel: "SA" });
+  });
+
+  it("falls back to weeks without components", () => {
+    expect(rateSources([GAA, SV_PCT]).get("23")).toEqual({ formula: null, ids: {}, sampleLabel: "weeks" });
+  });
+});
+
+describe("seasonRates", () => {
+  it("weights each week by its sample", () => {
+    // a shutout over 180 minutes, then 6 goals in 60
+    const facts = [
+      fact(1, "23", 0), fact(1, "22", 0), fact(1, "28", 180), fact(1, "24", 90), fact(1, "26", 1),
+      fact(2, "23", 6), fact(2, "22", 6), fact(2, "28", 60), fact(2, "24", 30), fact(2, "26", 0.8),
+    ];
+    const rates = seasonRates(facts, [GAA, SV_PCT, GA, SA, TOI]).get("a")!;
+    expect(rates.get("23")).toEqual({ value: 1.5, sample: 240 });
+    expect(rates.get("26")).toEqual({ value: 0.95, sample: 120 });
+  });
+
+  it("averages the weekly rates without components", () => {
+    const facts = [fact(1, "23", 0), fact(2, "23", 6), fact(3, "23", null)];
+    expect(seasonRates(facts, [GAA]).get("a")?.get("23")).toEqual({ value: 3, sample: 2 });
+  });
+});
@@ -0,0 +1,110 @@
+import type { Category } from "../shared/contract";
+import type { CategoryFact } from "./facts";
+import { isRateCategory } from "./season";
+
+/* =========================
+   Rate stats
+   =========================
+   A season SV% or GAA is not the sum, or even the average, of the weekly
+   ones. Yahoo leagues usually carry the stats a rate is built from (saves,
+   shots against, goals against, time on ice) as display-only categories, so
+   where those are on the scoreboard the season rate is worked out from their
+   totals and the sample is the denominator (shots faced, minutes played).
+   Without them each reported week counts once.
+*/
+
+interface RateFormula {
+  // display names of the component stats
+  needs: string[];
+  // the component the rate is taken over
+  sample: string;
+  rate: (sums: Record<string, number>) => number;
+}
+
+const RATE_FORMULAS: Record<string, RateFormula[]> = {
+  "SV%": [
+    { needs: ["SV", "SA"], sample: "SA", rate: (s) => s.SV / s.SA },
+    { needs: ["GA", "SA"], sample: "SA", rate: (s) => (s.SA - s.GA) / s.SA },
+  ],
+  GAA: [{ needs: ["GA", "TOI"], sample: "TOI", rate: (s) => (s.GA * 60) / s.TOI }],
+};
+
+// Names Yahoo has shown for the same component.
+const COMPONENT_ALIASES: Record<string, string> = { MIN: "TOI" };
+
+const componentName = (cat: Category) => {
+  const name = cat.display_name.toUpperCase();
+  return COMPONENT_ALIASES[name] ?? name;
+};
+
+export interface RateSource {
+  formula: RateFormula | null;
+  // component display name -> stat id
+  ids: Record<string, string>;
+  sampleLabel: string;
+}
+
+// How each rate category's season figure is built in this league.
+export function rateSources(categories: Category[]) {
+  const byName = new Map(categories.map((c) => [componentName(c), c.id]));
+  const sources = new Map<string, RateSource>();
+  for (const cat of categories) {
+    if (!isRateCategory(cat)) continue;
+    const formula = (RATE_FORMULAS[componentName(cat)] ?? []).find((f) => f.needs.every((n) => byName.has(n)));
+    sources.set(cat.id, formula
+      ? { formula, ids: Object.fromEntries(formula.needs.map((n) => [n, byName.get(n)!])), sampleLabel: formula.sample }
+      : { formula: null, ids: {}, sampleLabel: "weeks" });
+  }
+  return sources;
+}
+
+export interface SeasonRate {
+  value: number;
+  sample: number;
+}
+
+// Season rate for every team and rate category it has one in. Built from
+// components, a team with no sample (no shots faced) has no rate.
+// Only the team, stat and value are read, so player rows keyed by player
+// work as well.
+export function seasonRates(facts: Pick<CategoryFact, "teamKey" | "statId" | "value">[], categories: Category[]) {
+  const sources = rateSources(categories);
+  const wanted = new Set<string>();
+  for (const [statId, source] of sources) {
+    wanted.add(statId);
+    Object.values(source.ids).forEach((id) => wanted.add(id));
+  }
+
+  // team -> statId -> { sum, weeks }
+  const sums = new Map<string, Map<string, { sum: number; weeks: number }>>();
+  for (const f of facts) {
+    if (f.value == null || !wanted.has(f.statId)) continue;
+    let team = sums.get(f.teamKey);
+    if (!team) {
+      team = new Map();
+      sums.set(f.teamKey, team);
+    }
+    const acc = team.get(f.statId) ?? { sum: 0, weeks: 0 };
+    acc.sum += f.value;
+    acc.weeks += 1;
+    team.set(f.statId, acc);
+  }
+
+  const rates = new Map<string, Map<string, SeasonRate>>();
+  for (const [teamKey, team] of sums) {
+    const out = new Map<string, SeasonRate>();
+    for (const [statId, source] of sources) {
+      const { formula, ids } = source;
+      if (formula) {
+        const components = Object.fromEntries(Object.entries(ids).map(([name, id]) => [name, team.get(id)?.sum ?? 0]));
+        const sample = components[formula.sample];
+        if (sample > 0) out.set(statId, { value: formula.rate(components), sample });
+        continue;
+      }
+      const weekly = team.get(statId);
+      if (weekly) out.set(statId, { value: weekly.sum / weekly.weeks, sample: weekly.weeks });
+    }
+    rates.set(teamKey, out);
+  }
+  return rates;
+}
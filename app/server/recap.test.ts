@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { collectSeasonFacts } from "./facts";
+import { collectWeekRecap, parseRecapSlug, recapSlug, renderRecapHtml, weekRecap } from "./recap";
+
+const yahoo = fixtureClient();
+
+describe("weekRecap", () => {
+  it("picks out the closest matchup, the blowout and the category heroes", async () => {
+    const recap = weekRecap(await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY), 2, "x");
+    expect(recap.title).toBe("Week 2 Recap: Aces Rout Cyclones");
+    expect(recap.published).toBe("2023-10-23");
+    // Bruisers 1–0 with a tie over Dekes, Aces 2–0 over Cyclones
+    expect(recap.closest).toMatchObject({ winnerKey: teamKey(2), margin: 1, ties: 1 });
+    expect(recap.blowout).toMatchObject({ winnerKey: teamKey(1), margin: 2 });
+    // lowest GAA, most goals and assists
+    expect(recap.heroes.map((h) => [h.label, h.teamName, h.value])).toEqual([
+      ["GAA", "Aces", 1.8],
+      ["G", "Aces", 6],
+      ["A", "Aces", 9],
+    ]);
+    expect(recap.streaks).toEqual([{ teamKey: teamKey(4), teamName: "Dekes", result: "L", length: 2 }]);
+    expect(recap.sections.map((s) => s.heading)).toEqual([
+      "Closest Matchup",
+      "Biggest Blowout",
+      "Category Heroes",
+      "Streaks",
+    ]);
+  });
+
+  it("calls a level week a tie and keeps shared bests out of the heroes", async () => {
+    const season = await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+    const recap = weekRecap(season, 1, "x");
+    expect(recap.closest).toMatchObject({ winnerKey: null, margin: 0 });
+    // a 2–1 win is the widest margin, but no rout
+    expect(recap.title).toBe("Week 1 Recap: Cyclones Beat Dekes");
+    expect(recap.intro).toContain("1 of them tied");
+    expect(recap.streaks).toEqual([]);
+
+    // the Cyclones matching the Aces' 5 goals leaves G without a hero
+    const shared = {
+      ...season,
+      facts: season.facts.map((f) => (f.week === 1 && f.teamKey === teamKey(3) && f.statId === "1" ? { ...f, value: 5 } : f)),
+    };
+    expect(weekRecap(shared, 1, "x").heroes.map((h) => h.label)).toEqual(["GAA", "A"]);
+  });
+
+  it("leads a playoff week with the championship bracket", async () => {
+    const recap = weekRecap(await collectSeasonFacts(yahoo, "888.l.4242"), 2, "x");
+    // Old Cyclones' 3–0 consolation win is the week's widest margin
+    expect(recap.title).toBe("Week 2 Recap: Old Aces Edge Old Bruisers");
+    expect(recap.closest).toMatchObject({ stage: "playoffs", margin: 1 });
+    expect(recap.blowout).toBeNull();
+    expect(recap.sections.find((s) => s.heading === "Around the League")?.paragraphs).toEqual([
+      "Old Cyclones beat Old Dekes 3–0.",
+    ]);
+  });
+
+  it("won't recap a week still in progress", async () => {
+    const season = await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+    expect(() => weekRecap(season, 3, "x")).toThrow(/isn't settled/);
+  });
+});
+
+describe("collectWeekRecap", () => {
+  it("defaults to the latest settled week", async () => {
+    const { recap } = await collectWeekRecap(yahoo, FIXTURE_LEAGUE_KEY, { league: "hrhl", year: 2023 });
+    expect(recap.week).toBe(2);
+    expect(recap.slug).toBe("hrhl-2023-week-2-recap");
+  });
+});
+
+describe("recap slugs", () => {
+  it("round-trip, hyphenated league slugs included", () => {
+    expect(parseRecapSlug(recapSlug("half-right", 2024, 12))).toEqual({ league: "half-right", year: 2024, week: 12 });
+    expect(parseRecapSlug("draft-day-crystal-ball")).toBeNull();
+  });
+});
+
+describe("renderRecapHtml", () => {
+  it("fills the article template and escapes team names", async () => {
+    const season = await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+    const recap = weekRecap({ ...season, teamDir: new Map([[teamKey(1), "<Aces & Co>"]]) }, 2, "x");
+    const html = renderRecapHtml(recap);
+    expect(html).toContain('<div class="article-rich-text w-richtext">');
+    expect(html).toContain("<title>Week 2 Recap: &lt;Aces &amp; Co&gt; Rout");
+    expect(html).toContain("October 23, 2023");
+    // served from /api/articles/, so assets have to be root-relative
+    expect(html).toContain('<link href="/css/webflow.css"');
+    expect(html).not.toContain("<Aces");
+  });
+});
@@ -0,0 +1,316 @@
+import type { Category, CategoryHero, RecapMatchup, RecapSection, RecapStreak, WeekRecap } from "../shared/contract";
+import { type SeasonFacts, collectSeasonFacts } from "./facts";
+import { NoDataError } from "./http";
+import { higherIsBetter, isRateCategory } from "./season";
+import type { YahooClient } from "./yahoo";
+
+/* =========================
+   Weekly recap
+   =========================
+   A write-up of a settled week from the fact table alone: the closest
+   matchup, the biggest blowout, the teams that posted the league's best
+   number in a category, and the win and loss streaks still running. In
+   playoff weeks the championship bracket leads and consolation games are
+   only mentioned in passing. The narrative is templated sentences, and the
+   HTML uses the markup of the hand-written Webflow articles so it renders
+   under /articles/:slug like they do.
+*/
+
+const STREAK_MIN = 2;
+
+export function recapSlug(league: string, year: number, week: number) {
+  return `${league}-${year}-week-${week}-recap`;
+}
+
+export function parseRecapSlug(slug: string) {
+  const match = /^(.+)-(\d{4})-week-(\d+)-recap$/.exec(slug);
+  if (!match) return null;
+  return { league: match[1], year: Number(match[2]), week: Number(match[3]) };
+}
+
+/* ---------- facts → recap ---------- */
+
+function weekMatchups(season: SeasonFacts, week: number): RecapMatchup[] {
+  const nameOf = (key: string) => season.teamDir.get(key) || key;
+  const seen = new Set<number>();
+  const out: RecapMatchup[] = [];
+  for (const m of season.matchups) {
+    if (m.week !== week || seen.has(m.matchup)) continue;
+    seen.add(m.matchup);
+    out.push({
+      stage: m.stage,
+      teamA: { key: m.teamKey, name: nameOf(m.teamKey), wins: m.wins },
+      teamB: { key: m.opponentKey, name: nameOf(m.opponentKey), wins: m.losses },
+      ties: m.ties,
+      winnerKey: m.result === "W" ? m.teamKey : m.result === "L" ? m.opponentKey : null,
+      margin: Math.abs(m.wins - m.losses),
+    });
+  }
+  return out;
+}
+
+// Narrowest margin first, then the one with more categories tied.
+function closestMatchup(matchups: RecapMatchup[]) {
+  return [...matchups].sort((a, b) => a.margin - b.margin || b.ties - a.ties)[0] ?? null;
+}
+
+// Only a blowout if something else was closer.
+function biggestBlowout(matchups: RecapMatchup[], closest: RecapMatchup | null) {
+  const widest = [...matchups].sort((a, b) => b.margin - a.margin || a.ties - b.ties)[0] ?? null;
+  return widest && closest && widest.margin > closest.margin ? widest : null;
+}
+
+function categoryHeroes(season: SeasonFacts, week: number): CategoryHero[] {
+  const heroes: CategoryHero[] = [];
+  for (const cat of season.categories) {
+    if (cat.is_only_display) continue;
+    const rows = season.facts.filter((f) => f.week === week && f.statId === cat.id && f.value != null);
+    if (rows.length < 2) continue;
+    const better = higherIsBetter(cat);
+    const best = rows.reduce((acc, f) => (better ? Math.max(acc, f.value!) : Math.min(acc, f.value!)), rows[0].value!);
+    const leaders = rows.filter((f) => f.value === best);
+    if (leaders.length !== 1) continue;
+    heroes.push({
+      statId: cat.id,
+      label: cat.display_name,
+      higherIsBetter: better,
+      teamKey: leaders[0].teamKey,
+      teamName: season.teamDir.get(leaders[0].teamKey) || leaders[0].teamKey,
+      value: best,
+    });
+  }
+  return heroes;
+}
+
+function runningStreaks(season: SeasonFacts, week: number): RecapStreak[] {
+  const streaks: RecapStreak[] = [];
+  const teams = new Set(season.matchups.filter((m) => m.week === week).map((m) => m.teamKey));
+  for (const teamKey of teams) {
+    const results = season.matchups
+      .filter((m) => m.teamKey === teamKey && m.week <= week)
+      .sort((a, b) => a.week - b.week)
+      .map((m) => m.result);
+    const last = results[results.length - 1];
+    if (last === "T") continue;
+    let length = 0;
+    for (let i = results.length - 1; i >= 0 && results[i] === last; i--) length++;
+    if (length < STREAK_MIN) continue;
+    streaks.push({ teamKey, teamName: season.teamDir.get(teamKey) || teamKey, result: last, length });
+  }
+  return streaks.sort((a, b) => b.length - a.length || a.teamName.localeCompare(b.teamName));
+}
+
+/* ---------- narrative ---------- */
+
+function formatStat(cat: Category | undefined, value: number) {
+  if (cat && isRateCategory(cat)) {
+    return Math.abs(value) < 1 ? value.toFixed(3).replace(/^(-?)0\./, "$1.") : value.toFixed(2);
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function listOf(items: string[]) {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function sides(m: RecapMatchup) {
+  const aWon = m.winnerKey === m.teamA.key;
+  return aWon || m.winnerKey == null ? { winner: m.teamA, loser: m.teamB } : { winner: m.teamB, loser: m.teamA };
+}
+
+function score(m: RecapMatchup) {
+  const { winner, loser } = sides(m);
+  return `${winner.wins}–${loser.wins}${m.ties ? `–${m.ties}` : ""}`;
+}
+
+function categoriesWon(season: SeasonFacts, week: number, teamKey: string) {
+  const labels = new Map(season.categories.map((c) => [c.id, c.display_name]));
+  return season.facts
+    .filter((f) => f.week === week && f.teamKey === teamKey && f.outcome === "W")
+    .map((f) => labels.get(f.statId) ?? f.statId);
+}
+
+function resultSentence(m: RecapMatchup) {
+  const { winner, loser } = sides(m);
+  if (m.winnerKey == null) return `${m.teamA.name} and ${m.teamB.name} split the categories ${score(m)}.`;
+  return `${winner.name} beat ${loser.name} ${score(m)}.`;
+}
+
+// A rout takes at least half the scored categories more than the loser.
+function headline(closest: RecapMatchup | null, blowout: RecapMatchup | null, scored: number) {
+  if (blowout) {
+    const { winner, loser } = sides(blowout);
+    return `${winner.name} ${blowout.margin * 2 >= scored ? "Rout" : "Beat"} ${loser.name}`;
+  }
+  if (!closest) return "All Quiet";
+  const { winner, loser } = sides(closest);
+  return closest.winnerKey == null ? `${winner.name} and ${loser.name} Can't Be Separated` : `${winner.name} Edge ${loser.name}`;
+}
+
+function recapSections(season: SeasonFacts, week: number, recap: Omit<WeekRecap, "sections">): RecapSection[] {
+  const sections: RecapSection[] = [];
+  const { closest, blowout } = recap;
+  const playoffs = recap.matchups.some((m) => m.stage !== "regular");
+
+  if (closest) {
+    const { winner, loser } = sides(closest);
+    const won = categoriesWon(season, week, winner.key);
+    const among = playoffs ? "in the championship bracket" : "of the week";
+    sections.push({
+      heading: "Closest Matchup",
+      paragraphs: [
+        closest.winnerKey == null
+          ? `Nothing separated ${winner.name} and ${loser.name}, who finished level at ${score(closest)}.`
+          : `${winner.name} held off ${loser.name} ${score(closest)}, the narrowest result ${among}${
+              won.length ? `, on the strength of ${listOf(won)}` : ""
+            }.`,
+      ],
+    });
+  }
+
+  if (blowout) {
+    const { winner, loser } = sides(blowout);
+    const won = categoriesWon(season, week, winner.key);
+    sections.push({
+      heading: "Biggest Blowout",
+      paragraphs: [
+        `${winner.name} had the easiest time of it, beating ${loser.name} ${score(blowout)}${
+          loser.wins === 0 ? " without dropping a category" : ""
+        }${won.length ? ` and taking ${listOf(won)}` : ""}.`,
+      ],
+    });
+  }
+
+  if (recap.heroes.length) {
+    const cats = new Map(season.categories.map((c) => [c.id, c]));
+    const byTeam = new Map<string, CategoryHero[]>();
+    for (const hero of recap.heroes) byTeam.set(hero.teamName, [...(byTeam.get(hero.teamName) ?? []), hero]);
+    sections.push({
+      heading: "Category Heroes",
+      paragraphs: [...byTeam].map(
+        ([name, heroes]) =>
+          `${name} posted the league's best ${listOf(
+            heroes.map((h) => `${h.label} (${formatStat(cats.get(h.statId), h.value)})`)
+          )}.`
+      ),
+    });
+  }
+
+  if (recap.streaks.length) {
+    sections.push({
+      heading: "Streaks",
+      paragraphs: recap.streaks.map((s) =>
+        s.result === "W" ? `${s.teamName} have won ${s.length} straight.` : `${s.teamName} have lost ${s.length} in a row.`
+      ),
+    });
+  }
+
+  const others = recap.matchups.filter((m) => m !== closest && m !== blowout);
+  if (others.length) sections.push({ heading: "Around the League", paragraphs: others.map(resultSentence) });
+
+  return sections;
+}
+
+export function weekRecap(season: SeasonFacts, week: number, slug: string): WeekRecap {
+  const consolation = (m: RecapMatchup) => Number(m.stage === "consolation");
+  const matchups = weekMatchups(season, week).sort((a, b) => consolation(a) - consolation(b));
+  if (!matchups.length) throw new NoDataError(`week ${week} isn't settled yet`);
+  const featured = matchups.filter((m) => !consolation(m));
+  const closest = closestMatchup(featured);
+  const blowout = biggestBlowout(featured, closest);
+  const playoffs = matchups.some((m) => m.stage !== "regular");
+  const tied = matchups.filter((m) => m.winnerKey == null).length;
+  const scored = season.categories.filter((c) => !c.is_only_display).length;
+
+  const base = {
+    week,
+    slug,
+    title: `Week ${week} Recap: ${headline(closest, blowout, scored)}`,
+    published: season.calendar.find((w) => w.week === week)?.end ?? null,
+    intro: `${playoffs ? "Playoff week" : "Week"} ${week} is in the books: ${matchups.length} matchup${
+      matchups.length === 1 ? "" : "s"
+    }, ${tied ? `${tied} of them tied` : "none of them tied"}.`,
+    matchups,
+    closest,
+    blowout,
+    heroes: categoryHeroes(season, week),
+    streaks: runningStreaks(season, week),
+  };
+  return { ...base, sections: recapSections(season, week, base) };
+}
+
+// The latest settled week unless one is asked for.
+export async function collectWeekRecap(
+  yahoo: YahooClient,
+  leagueKey: string,
+  { league, year, week }: { league: string; year: number; week?: number }
+) {
+  const season = await collectSeasonFacts(yahoo, leagueKey);
+  const target = week ?? season.weeks[season.weeks.length - 1];
+  return { recap: weekRecap(season, target, recapSlug(league, year, target)), warnings: season.warnings };
+}
+
+/* ---------- HTML ---------- */
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function publishedLabel(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// A page in the same shape as the exported articles, so WebflowPage can
+// take it as is.
+export function renderRecapHtml(recap: WeekRecap) {
+  const body = [
+    `<p>${escapeHtml(recap.intro)}</p>`,
+    ...recap.sections.flatMap((s) => [
+      `<h3>${escapeHtml(s.heading)}</h3>`,
+      ...s.paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+    ]),
+  ];
+  const published = recap.published
+    ? `
+        <div class="flex gap-xs">
+          <div class="flex vertical center left">
+            <div class="text-size-small text-color-secondary">Published</div>
+            <div class="text-weight-semibold text-size-small">${publishedLabel(recap.published)}</div>
+          </div>
+        </div>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(recap.title)}</title>
+  <meta content="width=device-width, initial-scale=1" name="viewport">
+  <link href="/css/normalize.css" rel="stylesheet" type="text/css">
+  <link href="/css/webflow.css" rel="stylesheet" type="text/css">
+  <link href="/css/hrhl-e14162.webflow.css" rel="stylesheet" type="text/css">
+</head>
+<body>
+  <div class="page-wrapper">
+    <div class="container-large bg-white padding-medium">
+      <div class="divider"></div>
+      <div class="flex gap-s spacer-xlarge vertical container-small">
+        <h6 class="text-transform-uppercase text-size-small text-color-blue">WEEK ${recap.week} RECAP</h6>
+        <h2 class="spacer-small"><strong>${escapeHtml(recap.title)}</strong></h2>${published}
+        <div class="divider"></div>
+        <div class="article-rich-text w-richtext">
+          ${body.join("\n          ")}
+        </div>
+      </div>
+      <div class="spacer-xlarge"></div>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
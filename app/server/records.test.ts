@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, fixtureHistory, teamKey } from "./__fixtures__";
+import { managerDirectory } from "./history";
+import { buildManagerRegistry } from "./managers";
+import {
+  allTimeRecords,
+  bestWeeks,
+  categoryRecords,
+  championships,
+  collectSeasonResults,
+  lossStreaks,
+  winStreaks,
+} from "./records";
+import { unknownCategory } from "./season";
+
+async function names() {
+  const seasons = await fixtureHistory();
+  return new Map(managerDirectory(seasons, buildManagerRegistry({})).map((m) => [m.id, m.name]));
+}
+
+describe("categoryRecords", () => {
+  it("keeps the best week and season per category, lowest wins for GAA", async () => {
+    const records = categoryRecords(await fixtureHistory());
+    const goals = records.find((r) => r.statId === "1")!;
+    expect(goals).toMatchObject({ higherIsBetter: true, isRate: false });
+    expect(goals.singleWeek).toMatchObject({ value: 7, managerId: "GUID1AAAA", teamName: "Old Aces", year: 2022, week: 1 });
+    // 2022's 12 goals needed the playoff final; regular seasons only
+    expect(goals.singleSeason).toMatchObject({ value: 11, managerId: "GUID1AAAA", year: 2023, week: null });
+
+    const gaa = records.find((r) => r.statId === "23")!;
+    expect(gaa).toMatchObject({ higherIsBetter: false, isRate: true });
+    expect(gaa.singleWeek).toMatchObject({ value: 1.8, teamKey: `${FIXTURE_LEAGUE_KEY}.t.1`, year: 2023, week: 2 });
+    // Old Aces' one regular-season week of 2022 beats the Aces' 2.15 mean of 2023
+    expect(gaa.singleSeason).toMatchObject({ value: 1.9, managerId: "GUID1AAAA", year: 2022, week: null });
+  });
+
+  it("builds a season rate from its display-only components", async () => {
+    const seasons = await fixtureHistory();
+    const current = seasons.find((s) => s.year === 2023)!;
+    // the Aces' weekly GAA reads 2.5 and 1.8, but 2 goals in 120 minutes
+    // each week is a 1.00 season
+    const components = current.season.facts
+      .filter((f) => f.teamKey === teamKey(1) && f.statId === "23")
+      .flatMap((f) => [
+        { ...f, statId: "22", value: 2, outcome: null },
+        { ...f, statId: "28", value: 120, outcome: null },
+      ]);
+    current.season = {
+      ...current.season,
+      categories: [
+        ...current.season.categories,
+        { ...unknownCategory("22"), display_name: "GA", is_only_display: true },
+        { ...unknownCategory("28"), display_name: "TOI", is_only_display: true },
+      ],
+      facts: [...current.season.facts, ...components],
+    };
+
+    const gaa = categoryRecords(seasons).find((r) => r.statId === "23")!;
+    expect(gaa.singleSeason).toMatchObject({ teamKey: teamKey(1), year: 2023 });
+    expect(gaa.singleSeason?.value).toBeCloseTo(1);
+  });
+});
+
+describe("bestWeeks", () => {
+  it("ranks regular-season matchups by category wins, older first on ties", async () => {
+    const weeks = bestWeeks(await fixtureHistory(), 3);
+    // Old Cyclones' 3–0 came in the 2022 consolation game
+    expect(weeks.map((w) => [w.teamName, w.year, w.week, w.wins, w.losses, w.ties])).toEqual([
+      ["Old Aces", 2022, 1, 3, 0, 0],
+      ["Old Dekes", 2022, 1, 2, 0, 1],
+      ["Aces", 2023, 2, 2, 0, 0],
+    ]);
+  });
+});
+
+describe("winStreaks", () => {
+  it("carries a streak across seasons past the playoffs and flags the ones still running", async () => {
+    const seasons = await fixtureHistory();
+    const current = seasons.find((s) => s.year === 2023)!;
+    // Dekes win 2023 week 1; their 2022 consolation loss sits in between
+    current.season = {
+      ...current.season,
+      matchups: current.season.matchups.map((m) =>
+        m.week === 1 && m.teamKey === teamKey(4) ? { ...m, result: "W" as const } : m
+      ),
+    };
+
+    const streaks = winStreaks(seasons, await names());
+    expect(streaks[0]).toEqual({
+      managerId: "GUID4AAAA",
+      name: "Manager 4",
+      length: 2,
+      from: { year: 2022, week: 1 },
+      to: { year: 2023, week: 1 },
+      active: false,
+    });
+    // manager 1's 2022 playoff win doesn't extend anything, and the 2023 week 1 tie ended the run
+    expect(streaks.filter((s) => s.managerId === "GUID1AAAA").map((s) => [s.length, s.to])).toEqual([
+      [1, { year: 2023, week: 2 }],
+      [1, { year: 2022, week: 1 }],
+    ]);
+    expect(streaks.filter((s) => s.active).map((s) => s.managerId)).toEqual(["GUID1AAAA", "GUID2AAAA"]);
+  });
+});
+
+describe("lossStreaks", () => {
+  it("leaves the consolation bracket out of a losing run", async () => {
+    const streaks = lossStreaks(await fixtureHistory(), await names());
+    // Dekes lost 2022's consolation game too, but only regular weeks count
+    expect(streaks[0]).toEqual({
+      managerId: "GUID4AAAA",
+      name: "Manager 4",
+      length: 2,
+      from: { year: 2023, week: 1 },
+      to: { year: 2023, week: 2 },
+      active: true,
+    });
+    expect(streaks.slice(1).every((s) => s.length === 1)).toBe(true);
+  });
+});
+
+describe("allTimeRecords", () => {
+  it("totals regular-season matchups per manager, most wins first", async () => {
+    const records = allTimeRecords(await fixtureHistory(), await names());
+    expect(records.map((r) => [r.name, r.wins, r.losses, r.ties])).toEqual([
+      ["Manager 1", 2, 0, 1],
+      ["Manager 2", 1, 1, 1],
+      ["Manager 3", 1, 2, 0],
+      ["Manager 4", 1, 2, 0],
+    ]);
+  });
+});
+
+describe("championships", () => {
+  it("credits only finished seasons", async () => {
+    const yahoo = fixtureClient();
+    const seasons = await fixtureHistory(yahoo);
+    const { results, warnings } = await collectSeasonResults(yahoo, seasons);
+    expect(warnings).toEqual([]);
+    expect(championships(seasons, results, await names())).toEqual([
+      { managerId: "GUID1AAAA", name: "Manager 1", titles: [2022], runnerUps: [] },
+      { managerId: "GUID2AAAA", name: "Manager 2", titles: [], runnerUps: [2022] },
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+import type {
+  ApiWarning,
+  BestWeek,
+  Category,
+  CategoryRecord,
+  Championships,
+  ManagerRecord,
+  MatchResult,
+  MatchupStreak,
+  RecordHolder,
+} from "../shared/contract";
+import { regularSeason, teamCategoryTotals } from "./facts";
+import type { SeasonHistory } from "./history";
+import { higherIsBetter, isRateCategory } from "./season";
+import type { TeamStanding, YahooClient } from "./yahoo";
+
+/* =========================
+   All-time records
+   =========================
+   Category records, best weeks, win streaks and titles across a league's
+   history. Holders are credited by manager id so a record survives team
+   renames; the team name shown is the one used that season. An earlier
+   record stands until it is beaten outright. Only regular-season weeks
+   count: playoff and consolation games are a different contest, and a
+   streak runs straight from one regular season into the next.
+*/
+
+const TOP_COUNT = 5;
+
+export interface SeasonResult {
+  year: number;
+  finished: boolean;
+  standings: TeamStanding[];
+}
+
+// Final standings of every season; an unfinished season has no champion yet.
+export async function collectSeasonResults(yahoo: YahooClient, seasons: SeasonHistory[]) {
+  const settled = await Promise.allSettled(
+    seasons.map(async ({ year, leagueKey }): Promise<SeasonResult> => {
+      const [league, standings] = await Promise.all([yahoo.league(leagueKey), yahoo.standings(leagueKey)]);
+      return { year, finished: league.isFinished, standings };
+    })
+  );
+  const results: SeasonResult[] = [];
+  const warnings: ApiWarning[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === "fulfilled") return void results.push(result.value);
+    const e = result.reason;
+    warnings.push({
+      code: "standings_failed",
+      message: `Season ${seasons[i].year} standings could not be fetched: ${e instanceof Error ? e.message : String(e)}`,
+    });
+  });
+  return { results, warnings };
+}
+
+function regularSeasons(seasons: SeasonHistory[]): SeasonHistory[] {
+  return seasons.map((s) => ({ ...s, season: regularSeason(s.season) }));
+}
+
+// Every scored category across the seasons, labelled as it was last seen.
+function historyCategories(seasons: SeasonHistory[]) {
+  const categories = new Map<string, Category>();
+  for (const { season } of seasons) {
+    for (const cat of season.categories) {
+      if (!cat.is_only_display) categories.set(cat.id, cat);
+    }
+  }
+  return [...categories.values()];
+}
+
+export function categoryRecords(history: SeasonHistory[]): CategoryRecord[] {
+  const seasons = regularSeasons(history);
+  const categories = historyCategories(seasons);
+  // season totals from all of a season's facts, so rates can use their
+  // display-only components (rates.ts)
+  const seasonTotals = seasons.map(({ season }) => {
+    const own = new Set(season.categories.map((c) => c.id));
+    return teamCategoryTotals(season.facts, [...season.categories, ...categories.filter((c) => !own.has(c.id))]);
+  });
+
+  return categories.map((cat) => {
+    const higher = higherIsBetter(cat);
+    const isRate = isRateCategory(cat);
+    const beats = (value: number, best: RecordHolder | null) => !best || (higher ? value > best.value : value < best.value);
+
+    let singleWeek: RecordHolder | null = null;
+    let singleSeason: RecordHolder | null = null;
+    seasons.forEach(({ year, managers, season }, idx) => {
+      for (const f of season.facts) {
+        if (f.statId === cat.id && f.value != null && beats(f.value, singleWeek)) {
+          singleWeek = holder(f.value, f.teamKey, year, f.week, managers, season.teamDir);
+        }
+      }
+      for (const [teamKey, byStat] of seasonTotals[idx]) {
+        const value = byStat.get(cat.id);
+        if (value != null && beats(value, singleSeason)) {
+          singleSeason = holder(value, teamKey, year, null, managers, season.teamDir);
+        }
+      }
+    });
+    return { statId: cat.id, label: cat.display_name, higherIsBetter: higher, isRate, singleWeek, singleSeason };
+  });
+}
+
+function holder(
+  value: number,
+  teamKey: string,
+  year: number,
+  week: number | null,
+  managers: Map<string, string>,
+  teamDir: Map<string, string>
+): RecordHolder {
+  return {
+    value,
+    managerId: managers.get(teamKey) ?? teamKey,
+    teamKey,
+    teamName: teamDir.get(teamKey) || teamKey,
+    year,
+    week,
+  };
+}
+
+// Most category wins in a single matchup.
+export function bestWeeks(seasons: SeasonHistory[], count = TOP_COUNT): BestWeek[] {
+  const weeks: BestWeek[] = [];
+  for (const { year, managers, season } of regularSeasons(seasons)) {
+    for (const m of season.matchups) {
+      weeks.push({
+        managerId: managers.get(m.teamKey) ?? m.teamKey,
+        teamKey: m.teamKey,
+        teamName: season.teamDir.get(m.teamKey) || m.teamKey,
+        opponentName: season.teamDir.get(m.opponentKey) || m.opponentKey,
+        year,
+        week: m.week,
+        wins: m.wins,
+        losses: m.losses,
+        ties: m.ties,
+      });
+    }
+  }
+  return weeks
+    .sort((a, b) => b.wins - a.wins || a.losses - b.losses || a.year - b.year || a.week - b.week)
+    .slice(0, count);
+}
+
+// Regular-season matchup wins, losses and ties per manager.
+export function allTimeRecords(seasons: SeasonHistory[], names: Map<string, string>): ManagerRecord[] {
+  const byManager = new Map<string, ManagerRecord>();
+  for (const { managers, season } of regularSeasons(seasons)) {
+    for (const m of season.matchups) {
+      const managerId = managers.get(m.teamKey) ?? m.teamKey;
+      let entry = byManager.get(managerId);
+      if (!entry) {
+        entry = { managerId, name: names.get(managerId) ?? managerId, wins: 0, losses: 0, ties: 0 };
+        byManager.set(managerId, entry);
+      }
+      if (m.result === "W") entry.wins++;
+      else if (m.result === "L") entry.losses++;
+      else entry.ties++;
+    }
+  }
+  return [...byManager.values()].sort(
+    (a, b) => b.wins - a.wins || a.losses - b.losses || a.name.localeCompare(b.name)
+  );
+}
+
+// Consecutive matchup results of one kind per manager, carried across
+// season boundaries. Anything else, a tie included, ends a streak.
+function matchupStreaks(
+  seasons: SeasonHistory[],
+  names: Map<string, string>,
+  result: MatchResult,
+  count: number
+): MatchupStreak[] {
+  const games = new Map<string, { year: number; week: number; counts: boolean }[]>();
+  for (const { year, managers, season } of regularSeasons(seasons)) {
+    for (const m of season.matchups) {
+      const id = managers.get(m.teamKey) ?? m.teamKey;
+      let list = games.get(id);
+      if (!list) {
+        list = [];
+        games.set(id, list);
+      }
+      list.push({ year, week: m.week, counts: m.result === result });
+    }
+  }
+
+  const streaks: MatchupStreak[] = [];
+  for (const [managerId, list] of games) {
+    list.sort((a, b) => a.year - b.year || a.week - b.week);
+    let start = -1;
+    list.forEach((g, i) => {
+      if (g.counts && start === -1) start = i;
+      const ends = !g.counts || i === list.length - 1;
+      if (!ends || start === -1) return;
+      const last = g.counts ? i : i - 1;
+      streaks.push({
+        managerId,
+        name: names.get(managerId) ?? managerId,
+        length: last - start + 1,
+        from: { year: list[start].year, week: list[start].week },
+        to: { year: list[last].year, week: list[last].week },
+        active: last === list.length - 1,
+      });
+      start = -1;
+    });
+  }
+  return streaks
+    .sort((a, b) => b.length - a.length || b.to.year - a.to.year || b.to.week - a.to.week)
+    .slice(0, count);
+}
+
+export function winStreaks(seasons: SeasonHistory[], names: Map<string, string>, count = TOP_COUNT) {
+  return matchupStreaks(seasons, names, "W", count);
+}
+
+export function lossStreaks(seasons: SeasonHistory[], names: Map<string, string>, count = TOP_COUNT) {
+  return matchupStreaks(seasons, names, "L", count);
+}
+
+// Final rank 1 and 2 of every finished season.
+export function championships(seasons: SeasonHistory[], results: SeasonResult[], names: Map<string, string>): Championships[] {
+  const byManager = new Map<string, Championships>();
+  for (const result of results) {
+    if (!result.finished) continue;
+    const managers = seasons.find((s) => s.year === result.year)?.managers;
+    for (const s of result.standings) {
+      if (s.rank !== 1 && s.rank !== 2) continue;
+      const managerId = managers?.get(s.teamKey) ?? s.teamKey;
+      let entry = byManager.get(managerId);
+      if (!entry) {
+        entry = { managerId, name: names.get(managerId) ?? s.teamName, titles: [], runnerUps: [] };
+        byManager.set(managerId, entry);
+      }
+      (s.rank === 1 ? entry.titles : entry.runnerUps).push(result.year);
+    }
+  }
+  return [...byManager.values()].sort(
+    (a, b) => b.titles.length - a.titles.length || b.runnerUps.length - a.runnerUps.length || a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,39 @@
+import express from "express";
+
+import { type AppContext, resolveSeason } from "../context";
+import { requireAdminSecret, sendError } from "../http";
+import { forgetLeague } from "../memo";
+import { scoreboardEntry } from "../yahoo";
+
+/* =========================
+   Admin: cache maintenance
+   ========================= */
+
+export function adminRouter(ctx: AppContext, secret: string | undefined) {
+  const router = express.Router();
+  router.use("/admin/cache", requireAdminSecret(secret));
+
+  // ?league=&year= drops the whole season (scoreboards, settings, teams);
+  // adding &week=N drops just that week's scoreboard
+  router.post("/admin/cache/invalidate", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      let week: number | null = null;
+      if (req.query.week != null) {
+        week = Number(req.query.week);
+        if (!Number.isInteger(week) || week < 1) {
+          return res.status(400).json({ error: `Invalid week "${req.query.week}"` });
+        }
+      }
+      const removed = week == null
+        ? await ctx.cache.invalidate(leagueKey)
+        : await ctx.cache.invalidate(leagueKey, scoreboardEntry(week));
+      forgetLeague(leagueKey);
+      res.json({ league: league.slug, season_year: year, league_key: leagueKey, week, removed });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,579 @@
+import express from "express";
+
+import {
+  type CategoryOutcome,
+  CategoryStatsResponse,
+  HeadToHeadResponse,
+  LeaguesResponse,
+  LuckResponse,
+  ManagersResponse,
+  MatchupPreviewResponse,
+  PlayerContributionsResponse,
+  PlayoffOddsResponse,
+  PlayoffsResponse,
+  PowerRankingsResponse,
+  RecapResponse,
+  RecordsResponse,
+  StrengthOfScheduleResponse,
+  SeasonAnalyticsResponse,
+  TradeImpactResponse,
+  TransactionsResponse,
+  WeeklyMatrixResponse,
+} from "../../shared/contract";
+import {
+  contributionEntries,
+  ebitdaEntries,
+  rosterMoveEntries,
+  sharpeEntries,
+} from "../analytics";
+import { type AppContext, resolveSeason } from "../context";
+import {
+  type OutcomeRecord,
+  collectSeasonFacts,
+  teamCategoryOutcomes,
+  teamCategoryTotals,
+  teamKeysOf,
+} from "../facts";
+import { headToHead, managerNames } from "../headToHead";
+import { type SeasonHistory, collectLeagueHistory, managerDirectory } from "../history";
+import { BadRequestError, NoDataError, parseWeekRange, sendError, sendJson } from "../http";
+import { describeLeagues } from "../leagues";
+import { luckEntries } from "../luck";
+import { teamManagers } from "../managers";
+import { memoCache } from "../memo";
+import { collectPlayerFacts, playerContributions } from "../players";
+import { DEFAULT_ODDS_ITERATIONS, MAX_ODDS_ITERATIONS, collectPlayoffOdds } from "../playoffOdds";
+import { collectPlayoffBracket } from "../playoffs";
+import { powerRankings } from "../powerRankings";
+import { previewWeek } from "../preview";
+import { rateSources, seasonRates } from "../rates";
+import { collectWeekRecap, parseRecapSlug, renderRecapHtml } from "../recap";
+import {
+  allTimeRecords,
+  bestWeeks,
+  categoryRecords,
+  championships,
+  collectSeasonResults,
+  lossStreaks,
+  winStreaks,
+} from "../records";
+import { collectScheduleStrength } from "../schedule";
+import { getTeamDirectory, getTeamStandingsSummary, higherIsBetter, isRateCategory } from "../season";
+import { analyzeTrade } from "../trades";
+import { filterTransactions, getTransactions, transactionEntry } from "../transactions";
+import { YahooHttpError, leagueUrl } from "../yahoo";
+
+/* =========================
+   API: standings & weekly matrix
+   ========================= */
+
+export function apiRouter(ctx: AppContext) {
+  const router = express.Router();
+  const matrixCache = memoCache<{ until: number; payload: WeeklyMatrixResponse }>();
+
+  router.get("/api/leagues", (_req, res) => {
+    sendJson(res, LeaguesResponse, { leagues: describeLeagues(ctx.leagues) });
+  });
+
+  router.get("/api/standings", async (req, res) => {
+    try {
+      const { leagueKey } = await resolveSeason(ctx, req.query);
+      res.json(await ctx.yahoo.get(leagueUrl(leagueKey, "/standings")));
+    } catch (e) {
+      if (e instanceof YahooHttpError) return res.status(e.status).type("text").send(e.message);
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/weekly-matrix", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const { from, to } = parseWeekRange(req.query);
+      const cacheKey = `${leagueKey}:${from}:${to}`;
+
+      const cached = matrixCache.get(cacheKey);
+      if (cached && cached.until > Date.now()) return sendJson(res, WeeklyMatrixResponse, cached.payload);
+
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey, { from, to });
+      const { teamDir, matchups, weeks, warnings } = season;
+      const managers = teamManagers(ctx.managers, await ctx.yahoo.teams(leagueKey));
+      const nameOf = (key: string) => teamDir.get(key) || key;
+
+      // order teams by average weekly wins
+      const totals = new Map<string, number>(), counts = new Map<string, number>();
+      for (const m of matchups) { totals.set(m.teamKey, (totals.get(m.teamKey) || 0) + m.wins); counts.set(m.teamKey, (counts.get(m.teamKey) || 0) + 1); }
+      const teamKeys = [...totals.entries()].map(([t, sum]) => [t, sum / counts.get(t)!] as const).sort((a, b) => b[1] - a[1]).map(([t]) => t);
+
+      const cell = (teamKey: string, week: number) => matchups.find((m) => m.teamKey === teamKey && m.week === week);
+      const points = teamKeys.map((team) => weeks.map((week) => cell(team, week)?.wins ?? null));
+      const outcome = teamKeys.map((team) => weeks.map((week) => cell(team, week)?.result ?? null));
+      const oppPoints = teamKeys.map((team) => weeks.map((week) => cell(team, week)?.losses ?? null));
+      const oppName   = teamKeys.map((team) => weeks.map((week) => {
+        const m = cell(team, week);
+        return m ? nameOf(m.opponentKey) : "";
+      }));
+      const stage = teamKeys.map((team) => weeks.map((week) => cell(team, week)?.stage ?? null));
+
+      const payload: WeeklyMatrixResponse = {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        teams: teamKeys.map(nameOf),
+        teamKeys,
+        managerIds: teamKeys.map((key) => managers.get(key) ?? key),
+        weeks,
+        points,
+        outcome,
+        oppPoints,
+        oppName,
+        stage,
+        warnings,
+      };
+      if (!warnings.length) matrixCache.set(cacheKey, { until: Date.now() + 60_000, payload });
+      sendJson(res, WeeklyMatrixResponse, payload);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/playoffs", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const bracket = await collectPlayoffBracket(ctx.yahoo, leagueKey);
+      sendJson(res, PlayoffsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        ...bracket,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/playoff-odds", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      let iterations = DEFAULT_ODDS_ITERATIONS;
+      if (req.query.iterations != null) {
+        iterations = Number(req.query.iterations);
+        if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_ODDS_ITERATIONS) {
+          throw new BadRequestError(`Invalid iterations "${req.query.iterations}" (1-${MAX_ODDS_ITERATIONS})`);
+        }
+      }
+
+      const odds = await collectPlayoffOdds(ctx.yahoo, leagueKey, { iterations });
+      const teamDir = await getTeamDirectory(ctx.yahoo, leagueKey);
+      sendJson(res, PlayoffOddsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        ...odds,
+        teams: odds.teams
+          .map((t) => ({ ...t, name: teamDir.get(t.teamKey) || t.teamKey }))
+          .sort((a, b) => a.expectedSeed - b.expectedSeed),
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/strength-of-schedule", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const schedule = await collectScheduleStrength(ctx.yahoo, leagueKey);
+      sendJson(res, StrengthOfScheduleResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        ...schedule,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/matchup-preview", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      let week: number | undefined;
+      if (req.query.week != null) {
+        week = Number(req.query.week);
+        if (!Number.isInteger(week) || week < 1) throw new BadRequestError(`Invalid week "${req.query.week}"`);
+      }
+
+      const preview = await previewWeek(ctx.yahoo, leagueKey, week);
+      sendJson(res, MatchupPreviewResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        ...preview,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/recap", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      let week: number | undefined;
+      if (req.query.week != null) {
+        week = Number(req.query.week);
+        if (!Number.isInteger(week) || week < 1) throw new BadRequestError(`Invalid week "${req.query.week}"`);
+      }
+
+      const { recap, warnings } = await collectWeekRecap(ctx.yahoo, leagueKey, { league: league.slug, year, week });
+      sendJson(res, RecapResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        recap,
+        html: renderRecapHtml(recap),
+        warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // The recap as a page, for ArticlePage to show under /articles/:slug.
+  router.get("/api/articles/:slug", async (req, res) => {
+    try {
+      const parsed = parseRecapSlug(req.params.slug);
+      if (!parsed) throw new NoDataError(`No article "${req.params.slug}"`);
+      const { league, year, leagueKey } = await resolveSeason(ctx, parsed);
+      const { recap } = await collectWeekRecap(ctx.yahoo, leagueKey, { league: league.slug, year, week: parsed.week });
+      res.type("html").send(renderRecapHtml(recap));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/category-stats", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const { from, to } = parseWeekRange(req.query);
+
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey, { from, to });
+      const managers = teamManagers(ctx.managers, await ctx.yahoo.teams(leagueKey));
+      const totalsByTeam = teamCategoryTotals(season.facts, season.categories);
+      const outcomesByTeam = teamCategoryOutcomes(season.facts);
+      const ratesByTeam = seasonRates(season.facts, season.categories);
+      const sources = rateSources(season.categories);
+
+      const teams = teamKeysOf(season).map((teamKey) => {
+        const totalsMap = totalsByTeam.get(teamKey) || new Map<string, number>();
+        const samples: Record<string, number> = {};
+        for (const [statId, rate] of ratesByTeam.get(teamKey) ?? []) samples[statId] = rate.sample;
+        const outcomesMap = outcomesByTeam.get(teamKey) || new Map<string, OutcomeRecord>();
+        const totals: Record<string, number> = {};
+        const outcomes: Record<string, CategoryOutcome> = {};
+        for (const cat of season.categories) {
+          const statId = cat.id;
+          totals[statId] = totalsMap.get(statId) ?? 0;
+          const rec = outcomesMap.get(statId) || { wins: 0, losses: 0, ties: 0 };
+          const played = rec.wins + rec.losses + rec.ties;
+          const winPct = played
+            ? (rec.wins + rec.ties * 0.5) / played
+            : null;
+          outcomes[statId] = {
+            wins: rec.wins,
+            losses: rec.losses,
+            ties: rec.ties,
+            winPct,
+            played,
+          };
+        }
+        return {
+          key: teamKey,
+          name: season.teamDir.get(teamKey) || teamKey,
+          managerId: managers.get(teamKey) ?? teamKey,
+          totals,
+          samples,
+          outcomes,
+        };
+      });
+
+      sendJson(res, CategoryStatsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        categories: season.categories.map((cat) => ({
+          ...cat,
+          higherIsBetter: higherIsBetter(cat),
+          isRate: isRateCategory(cat),
+          sampleLabel: sources.get(cat.id)?.sampleLabel ?? null,
+        })),
+        teams,
+        generated_at: new Date().toISOString(),
+        from_week: from,
+        to_week: to,
+        warnings: season.warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/season-analytics", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const { from, to } = parseWeekRange(req.query);
+
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey, { from, to });
+      const standings = await getTeamStandingsSummary(ctx.yahoo, leagueKey);
+
+      const sharpe = sharpeEntries(season);
+      const ebitda = ebitdaEntries(season);
+      const contributionTree = contributionEntries(season);
+      const rosterMoves = rosterMoveEntries(season.teamDir, standings);
+
+      sendJson(res, SeasonAnalyticsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        from,
+        to,
+        sharpe,
+        ebitda,
+        contributionTree,
+        rosterMoves,
+        warnings: season.warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/luck-index", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const { from, to } = parseWeekRange(req.query);
+
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey, { from, to });
+      sendJson(res, LuckResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        from,
+        to,
+        teams: luckEntries(season),
+        warnings: season.warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/power-rankings", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const { from, to } = parseWeekRange(req.query);
+
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey, { from, to });
+      sendJson(res, PowerRankingsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        ...powerRankings(season, league.powerRankings),
+        warnings: season.warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/player-contributions", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const { from, to } = parseWeekRange(req.query);
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey, { from, to });
+
+      const teamKey = resolveTeamParam(req.query.team, leagueKey);
+      if (!season.teamDir.has(teamKey)) throw new BadRequestError(`Unknown team "${req.query.team}"`);
+
+      // one week, or every settled week in the range
+      let weeks = season.weeks;
+      if (req.query.week != null) {
+        const week = Number(req.query.week);
+        if (!Number.isInteger(week) || week < 1) throw new BadRequestError(`Invalid week "${req.query.week}"`);
+        if (!season.weeks.includes(week)) throw new NoDataError(`no settled matchup in week ${week}`);
+        weeks = [week];
+      }
+
+      const players = await collectPlayerFacts(ctx.yahoo, teamKey, weeks);
+      const contributions = playerContributions(season, players.facts, teamKey, weeks);
+
+      sendJson(res, PlayerContributionsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        team: { key: teamKey, name: season.teamDir.get(teamKey) || teamKey },
+        weeks,
+        categories: season.categories,
+        ...contributions,
+        warnings: [...season.warnings, ...players.warnings],
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/transactions", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey);
+
+      let teamKey: string | undefined;
+      if (req.query.team != null) {
+        teamKey = resolveTeamParam(req.query.team, leagueKey);
+        if (!season.teamDir.has(teamKey)) throw new BadRequestError(`Unknown team "${req.query.team}"`);
+      }
+      const types = typeof req.query.type === "string" ? req.query.type.split(",").filter(Boolean) : undefined;
+      // only narrow by week when asked; moves outside the schedule stay otherwise
+      const range = req.query.min != null || req.query.max != null ? parseWeekRange(req.query) : {};
+
+      const entries = (await getTransactions(ctx.yahoo, leagueKey))
+        .map((tx) => transactionEntry(tx, season.calendar, season.teamDir))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+      sendJson(res, TransactionsResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        transactions: filterTransactions(entries, { teamKey, types, ...range }),
+        warnings: season.warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/trade-impact", async (req, res) => {
+    try {
+      const { league, year, leagueKey } = await resolveSeason(ctx, req.query);
+      const season = await collectSeasonFacts(ctx.yahoo, leagueKey);
+
+      const tradeKey = resolveTradeParam(req.query.trade, leagueKey);
+      const tx = (await getTransactions(ctx.yahoo, leagueKey)).find((t) => t.key === tradeKey);
+      // vetoed or still-pending deals never changed a lineup
+      if (!tx || tx.type !== "trade" || (tx.status && tx.status !== "successful")) {
+        throw new NoDataError(`no completed trade ${tradeKey}`);
+      }
+
+      let window: number | undefined;
+      if (req.query.window != null) {
+        window = Number(req.query.window);
+        if (!Number.isInteger(window) || window < 1) throw new BadRequestError(`Invalid window "${req.query.window}"`);
+      }
+
+      const trade = transactionEntry(tx, season.calendar, season.teamDir);
+      const impact = await analyzeTrade(ctx.yahoo, season, trade, { window });
+
+      sendJson(res, TradeImpactResponse, {
+        league: league.slug,
+        season_year: year,
+        league_key: leagueKey,
+        trade,
+        categories: season.categories,
+        beforeWeeks: impact.beforeWeeks,
+        afterWeeks: impact.afterWeeks,
+        sides: impact.sides,
+        warnings: [...season.warnings, ...impact.warnings],
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/managers", async (req, res) => {
+    try {
+      const { league } = await resolveSeason(ctx, req.query);
+      const { seasons, warnings } = await collectLeagueHistory(ctx, league);
+      sendJson(res, ManagersResponse, {
+        league: league.slug,
+        managers: managerDirectory(seasons, ctx.managers),
+        warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/records", async (req, res) => {
+    try {
+      const { league } = await resolveSeason(ctx, req.query);
+      const history = await collectLeagueHistory(ctx, league);
+      const { seasons } = history;
+      if (!seasons.length) throw new NoDataError(history.warnings[0]?.message);
+
+      const { results, warnings } = await collectSeasonResults(ctx.yahoo, seasons);
+      const names = new Map(managerDirectory(seasons, ctx.managers).map((m) => [m.id, m.name]));
+
+      sendJson(res, RecordsResponse, {
+        league: league.slug,
+        seasons: seasons.map((s) => s.year),
+        categories: categoryRecords(seasons),
+        bestWeeks: bestWeeks(seasons),
+        allTime: allTimeRecords(seasons, names),
+        winStreaks: winStreaks(seasons, names),
+        lossStreaks: lossStreaks(seasons, names),
+        championships: championships(seasons, results, names),
+        warnings: [...history.warnings, ...warnings],
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get("/api/head-to-head", async (req, res) => {
+    try {
+      const { league, leagueKey } = await resolveSeason(ctx, req.query);
+      const { seasons, warnings } = await collectLeagueHistory(ctx, league);
+      if (!seasons.length) throw new NoDataError(warnings[0]?.message);
+
+      const managerA = resolveManagerParam(req.query.teamA, "teamA", seasons, leagueKey);
+      const managerB = resolveManagerParam(req.query.teamB, "teamB", seasons, leagueKey);
+      if (managerA === managerB) throw new BadRequestError("teamA and teamB are the same manager");
+
+      sendJson(res, HeadToHeadResponse, {
+        league: league.slug,
+        managerA: { id: managerA, names: managerNames(seasons, managerA) },
+        managerB: { id: managerB, names: managerNames(seasons, managerB) },
+        seasons: seasons.map((s) => s.year),
+        ...headToHead(seasons, managerA, managerB),
+        warnings,
+      });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  return router;
+}
+
+// ?team= takes a full team key ("453.l.1520.t.3") or just the team id ("3").
+function resolveTeamParam(raw: unknown, leagueKey: string) {
+  if (typeof raw !== "string" || !raw) throw new BadRequestError("Missing ?team=");
+  return /^\d+$/.test(raw) ? `${leagueKey}.t.${raw}` : raw;
+}
+
+// ?teamA= / ?teamB= take a manager id, a team key from any season, or a team
+// id in the selected season.
+function resolveManagerParam(raw: unknown, name: string, seasons: SeasonHistory[], leagueKey: string) {
+  if (typeof raw !== "string" || !raw) throw new BadRequestError(`Missing ?${name}=`);
+  const teamKey = /^\d+$/.test(raw) ? `${leagueKey}.t.${raw}` : raw;
+  for (const { managers } of seasons) {
+    for (const [key, managerId] of managers) {
+      if (key === teamKey || managerId === raw) return managerId;
+    }
+  }
+  throw new BadRequestError(`Unknown team or manager "${raw}"`);
+}
+
+// ?trade= takes a full transaction key ("453.l.1520.tr.42") or just its id ("42").
+function resolveTradeParam(raw: unknown, leagueKey: string) {
+  if (typeof raw !== "string" || !raw) throw new BadRequestError("Missing ?trade=");
+  return /^\d+$/.test(raw) ? `${leagueKey}.tr.${raw}` : raw;
+}
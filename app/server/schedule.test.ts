@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { collectSeasonFacts } from "./facts";
+import { collectScheduleStrength, scheduleStrength } from "./schedule";
+
+const yahoo = fixtureClient();
+
+describe("scheduleStrength", () => {
+  it("averages the opponents played", async () => {
+    const teams = scheduleStrength(await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY));
+    const aces = teams.find((t) => t.teamKey === teamKey(1))!;
+    // Bruisers (.6 of categories, .75 of points) then Cyclones (.4, .5)
+    expect(aces.past).toEqual({ games: 2, catWinPct: 0.5, pointsPct: 0.625, strength: 0.5625 });
+    expect(aces.weeks.map((w) => [w.week, w.opponentName, w.played])).toEqual([
+      [1, "Bruisers", true],
+      [2, "Cyclones", true],
+    ]);
+    expect(aces.remaining).toEqual({ games: 0, catWinPct: null, pointsPct: null, strength: null });
+    // level pairs split by name
+    expect(teams.map((t) => [t.teamName, t.pastRank])).toEqual([
+      ["Aces", 1],
+      ["Dekes", 2],
+      ["Bruisers", 3],
+      ["Cyclones", 4],
+    ]);
+  });
+
+  it("ignores playoff matchups", async () => {
+    const teams = scheduleStrength(await collectSeasonFacts(yahoo, "888.l.4242"));
+    expect(teams.every((t) => t.weeks.every((w) => w.week === 1))).toBe(true);
+  });
+});
+
+describe("collectScheduleStrength", () => {
+  it("adds the rest of the regular season", async () => {
+    const { remainingWeeks, teams } = await collectScheduleStrength(yahoo, FIXTURE_LEAGUE_KEY);
+    expect(remainingWeeks).toEqual([3]);
+    const aces = teams.find((t) => t.teamKey === teamKey(1))!;
+    expect(aces.weeks.at(-1)).toMatchObject({ week: 3, opponentKey: teamKey(4), played: false });
+    expect(aces.remaining.games).toBe(1);
+    // Dekes take the Aces next, the strongest team so far
+    expect(teams.find((t) => t.teamKey === teamKey(4))?.remainingRank).toBe(1);
+  });
+});
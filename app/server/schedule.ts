@@ -0,0 +1,119 @@
+import type { OpponentStrength, ScheduleStrengthEntry, ScheduleWeek } from "../shared/contract";
+import { type SeasonFacts, collectSeasonFacts, regularSeason } from "./facts";
+import { NoDataError } from "./http";
+import { calculateMean } from "./math";
+import { type ScheduledGame, fetchRemainingSchedule } from "./season";
+import type { YahooClient } from "./yahoo";
+
+/* =========================
+   Strength of schedule
+   =========================
+   How good a team's opponents are, from their regular-season results so
+   far: the share of categories they win and the share of standings points
+   (2 a win, 1 a tie) they take. Strength is the mean of the two. Past
+   strength averages the opponents already played, one entry per game;
+   remaining strength the ones still on the schedule.
+*/
+
+interface TeamForm {
+  catWinPct: number | null;
+  pointsPct: number | null;
+  strength: number | null;
+}
+
+const meanOrNull = (values: number[]) => (values.length ? calculateMean(values) : null);
+
+function teamForm(season: SeasonFacts) {
+  const form = new Map<string, TeamForm>();
+  for (const teamKey of new Set(season.matchups.map((m) => m.teamKey))) {
+    const games = season.matchups.filter((m) => m.teamKey === teamKey);
+    const contested = games.reduce((acc, m) => acc + m.wins + m.losses + m.ties, 0);
+    const catWinPct = contested ? games.reduce((acc, m) => acc + m.wins + m.ties * 0.5, 0) / contested : null;
+    const points = games.reduce((acc, m) => acc + (m.result === "W" ? 2 : m.result === "T" ? 1 : 0), 0);
+    const pointsPct = games.length ? points / (2 * games.length) : null;
+    form.set(teamKey, {
+      catWinPct,
+      pointsPct,
+      strength: meanOrNull([catWinPct, pointsPct].filter((v): v is number => v != null)),
+    });
+  }
+  return form;
+}
+
+function averageOpponent(opponents: TeamForm[]): OpponentStrength {
+  const avg = (pick: (f: TeamForm) => number | null) =>
+    meanOrNull(opponents.map(pick).filter((v): v is number => v != null));
+  return {
+    games: opponents.length,
+    catWinPct: avg((f) => f.catWinPct),
+    pointsPct: avg((f) => f.pointsPct),
+    strength: avg((f) => f.strength),
+  };
+}
+
+// 1 is the toughest; teams without a figure go unranked.
+function rankBy(entries: ScheduleStrengthEntry[], pick: (e: ScheduleStrengthEntry) => number | null) {
+  const ranked = entries
+    .filter((e) => pick(e) != null)
+    .sort((a, b) => pick(b)! - pick(a)! || a.teamName.localeCompare(b.teamName));
+  return new Map(ranked.map((e, i) => [e.teamKey, i + 1]));
+}
+
+export function scheduleStrength(season: SeasonFacts, remaining: ScheduledGame[] = []): ScheduleStrengthEntry[] {
+  const regular = regularSeason(season);
+  const form = teamForm(regular);
+  const nameOf = (key: string) => season.teamDir.get(key) || key;
+  const empty: TeamForm = { catWinPct: null, pointsPct: null, strength: null };
+
+  // both sides of each remaining game
+  const upcoming = remaining.flatMap((g) => [g, { week: g.week, teamKey: g.opponentKey, opponentKey: g.teamKey }]);
+
+  const entries = [...form.keys()].map((teamKey): ScheduleStrengthEntry => {
+    const weeks: ScheduleWeek[] = [
+      ...regular.matchups
+        .filter((m) => m.teamKey === teamKey)
+        .map((m) => ({ week: m.week, opponentKey: m.opponentKey, played: true })),
+      ...upcoming
+        .filter((g) => g.teamKey === teamKey)
+        .map((g) => ({ week: g.week, opponentKey: g.opponentKey, played: false })),
+    ]
+      .sort((a, b) => a.week - b.week)
+      .map((w) => ({ ...w, opponentName: nameOf(w.opponentKey), strength: form.get(w.opponentKey)?.strength ?? null }));
+
+    const opponents = (played: boolean) =>
+      weeks.filter((w) => w.played === played).map((w) => form.get(w.opponentKey) ?? empty);
+    return {
+      teamKey,
+      teamName: nameOf(teamKey),
+      past: averageOpponent(opponents(true)),
+      remaining: averageOpponent(opponents(false)),
+      pastRank: null,
+      remainingRank: null,
+      weeks,
+    };
+  });
+
+  const pastRank = rankBy(entries, (e) => e.past.strength);
+  const remainingRank = rankBy(entries, (e) => e.remaining.strength);
+  return entries
+    .map((e) => ({ ...e, pastRank: pastRank.get(e.teamKey) ?? null, remainingRank: remainingRank.get(e.teamKey) ?? null }))
+    .sort((a, b) => (a.pastRank ?? Infinity) - (b.pastRank ?? Infinity) || a.teamName.localeCompare(b.teamName));
+}
+
+export async function collectScheduleStrength(yahoo: YahooClient, leagueKey: string) {
+  const [league, settings] = await Promise.all([yahoo.league(leagueKey), yahoo.settings(leagueKey)]);
+  const lastRegular = settings.playoffStartWeek != null ? settings.playoffStartWeek - 1 : league.endWeek ?? 40;
+  const season = await collectSeasonFacts(yahoo, leagueKey, { to: lastRegular });
+  if (!season.weeks.length) throw new NoDataError(`${leagueKey} has no settled regular-season weeks`);
+  const lastSettled = season.weeks[season.weeks.length - 1];
+
+  const future = league.isFinished
+    ? { games: [], warnings: [] }
+    : await fetchRemainingSchedule(yahoo, leagueKey, Math.max(lastSettled + 1, league.currentWeek ?? 0), lastRegular);
+
+  return {
+    remainingWeeks: [...new Set(future.games.map((g) => g.week))].sort((a, b) => a - b),
+    teams: scheduleStrength(season, future.games),
+    warnings: [...season.warnings, ...future.warnings],
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_DIR, FIXTURE_LEAGUE_KEY, teamKey } from "./__fixtures__";
+import { fetchScoreboardWeeks, winsFromStatWinners } from "./season";
+import { type Matchup, createReplayFetch, createYahooClient } from "./yahoo";
+
+function matchup(statWinners: Matchup["statWinners"]): Matchup {
+  return {
+    week: 1,
+    weekStart: null,
+    weekEnd: null,
+    status: "postevent",
+    isPlayoffs: false,
+    isConsolation: false,
+    isTied: false,
+    winnerKey: null,
+    teams: [
+      { key: "a", name: "A", points: null, stats: {} },
+      { key: "b", name: "B", points: null, stats: {} },
+    ],
+    statWinners,
+  };
+}
+
+describe("winsFromStatWinners", () => {
+  it("counts wins per side and ties", () => {
+    const m = matchup([
+      { statId: "1", winnerKey: "a", isTied: false },
+      { statId: "2", winnerKey: "b", isTied: false },
+      { statId: "3", winnerKey: "a", isTied: false },
+      { statId: "4", winnerKey: null, isTied: true },
+    ]);
+    expect(winsFromStatWinners(m)).toEqual({ a: 2, b: 1, ties: 1, total: 4 });
+  });
+
+  it("ignores a winner key that matches neither team", () => {
+    const m = matchup([
+      { statId: "1", winnerKey: "zzz", isTied: false },
+      { statId: "2", winnerKey: "b", isTied: false },
+    ]);
+    expect(winsFromStatWinners(m)).toEqual({ a: 0, b: 1, ties: 0, total: 1 });
+  });
+
+  it("totals 0 for an in-progress week", () => {
+    expect(winsFromStatWinners(matchup([]))).toEqual({ a: 0, b: 0, ties: 0, total: 0 });
+  });
+});
+
+describe("fetchScoreboardWeeks", () => {
+  it("stops at the league's current week", async () => {
+    const fetchJson = createReplayFetch(FIXTURE_DIR);
+    const requested: string[] = [];
+    const yahoo = createYahooClient({
+      getAccessToken: async () => "fixture",
+      fetchJson: (url, token) => {
+        requested.push(url);
+        return fetchJson(url, token);
+      },
+    });
+    const { weeks, warnings } = await fetchScoreboardWeeks(yahoo, FIXTURE_LEAGUE_KEY);
+    expect(weeks.map((w) => w.week)).toEqual([1, 2, 3]);
+    expect(weeks[0].matchups[0].teams.map((t) => t.key)).toEqual([teamKey(1), teamKey(2)]);
+    expect(requested.some((u) => u.includes("week=4"))).toBe(false);
+    expect(warnings).toEqual([]);
+  });
+
+  it("reports a week that keeps failing as a warning instead of dropping it silently", async () => {
+    const fetchJson = createReplayFetch(FIXTURE_DIR);
+    const yahoo = createYahooClient({
+      getAccessToken: async () => "fixture",
+      fetchJson: async (url, token) =>
+        url.includes("week=2") ? { ok: false, status: 503, json: null, text: "busy" } : fetchJson(url, token),
+    });
+    const { weeks, warnings } = await fetchScoreboardWeeks(yahoo, FIXTURE_LEAGUE_KEY);
+    expect(weeks.map((w) => w.week)).toEqual([1, 3]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ code: "scoreboard_week_failed", week: 2, status: 503 });
+  });
+});
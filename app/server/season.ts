@@ -0,0 +1,215 @@
+import type { ApiWarning, Category, MatchupStage } from "../shared/contract";
+import { memoCache } from "./memo";
+import { type Matchup, type MatchupTeam, type YahooClient, YahooHttpError } from "./yahoo";
+
+/* =========================
+   Season data
+   ========================= */
+
+export interface WeekMatchups {
+  week: number;
+  matchups: Matchup[];
+}
+
+export interface TeamSummary {
+  moves: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winPct: number | null;
+}
+
+export interface WeekRange {
+  from?: number;
+  to?: number;
+}
+
+const statCategoriesCache = memoCache<{ until: number; categories: Category[] }>();
+
+export function resolveTeamName(teamDir: Map<string, string>, team: MatchupTeam) {
+  const cached = teamDir.get(team.key);
+  if (cached) return cached;
+  if (team.name) teamDir.set(team.key, team.name);
+  return team.name || team.key;
+}
+
+export async function getTeamDirectory(yahoo: YahooClient, leagueKey: string) {
+  const teams = await yahoo.teams(leagueKey);
+  return new Map(teams.map((t) => [t.key, t.name]));
+}
+
+// Category wins for each side of a decoded matchup; total === 0 means the
+// week is still in progress (Yahoo hasn't settled any stat winners yet).
+export function winsFromStatWinners(matchup: Matchup) {
+  const [teamA, teamB] = matchup.teams;
+  let a = 0, b = 0, ties = 0;
+  for (const w of matchup.statWinners) {
+    if (w.isTied) { ties++; continue; }
+    if (w.winnerKey === teamA.key) a++;
+    else if (w.winnerKey === teamB.key) b++;
+  }
+  return { a, b, ties, total: a + b + ties };
+}
+
+export function matchupStage(matchup: Matchup): MatchupStage {
+  if (matchup.isConsolation) return "consolation";
+  return matchup.isPlayoffs ? "playoffs" : "regular";
+}
+
+/* =========================
+   Core fetchers
+   ========================= */
+export interface ScoreboardFetch {
+  weeks: WeekMatchups[];
+  warnings: ApiWarning[];
+}
+
+// The league's own week bounds keep us from probing weeks that can't exist;
+// future weeks of an unfinished season are skipped too.
+async function seasonWeekBounds(yahoo: YahooClient, leagueKey: string, { from = 1, to = 40 }: WeekRange) {
+  const league = await yahoo.league(leagueKey);
+  let last = to;
+  if (league.endWeek != null) last = Math.min(last, league.endWeek);
+  if (!league.isFinished && league.currentWeek != null) last = Math.min(last, league.currentWeek);
+  return { first: Math.max(from, league.startWeek ?? 1), last };
+}
+
+export async function fetchScoreboardWeeks(
+  yahoo: YahooClient,
+  leagueKey: string,
+  range: WeekRange = {}
+): Promise<ScoreboardFetch> {
+  const { first, last } = await seasonWeekBounds(yahoo, leagueKey, range);
+  const weekNumbers: number[] = [];
+  for (let w = first; w <= last; w++) weekNumbers.push(w);
+
+  // the client's scheduler bounds concurrency and retries transient failures
+  const results = await Promise.allSettled(weekNumbers.map((w) => yahoo.scoreboard(leagueKey, w)));
+
+  const weeks: WeekMatchups[] = [];
+  const warnings: ApiWarning[] = [];
+  results.forEach((result, i) => {
+    const week = weekNumbers[i];
+    if (result.status === "fulfilled") {
+      if (result.value.matchups.length) weeks.push({ week, matchups: result.value.matchups });
+      return;
+    }
+    const e = result.reason;
+    if (e instanceof YahooHttpError && e.status === 404) return;
+    warnings.push({
+      code: "scoreboard_week_failed",
+      message: `Week ${week} scoreboard could not be fetched: ${e instanceof Error ? e.message : String(e)}`,
+      week,
+      ...(e instanceof YahooHttpError ? { status: e.status } : {}),
+    });
+  });
+  return { weeks, warnings };
+}
+
+export interface ScheduledGame {
+  week: number;
+  teamKey: string;
+  opponentKey: string;
+}
+
+// Unplayed regular-season matchups from the current week on. Future weeks
+// aren't part of the fact table, so their scoreboards are fetched here.
+export async function fetchRemainingSchedule(yahoo: YahooClient, leagueKey: string, from: number, to: number) {
+  const weekNumbers: number[] = [];
+  for (let w = from; w <= to; w++) weekNumbers.push(w);
+  const results = await Promise.allSettled(weekNumbers.map((w) => yahoo.scoreboard(leagueKey, w)));
+
+  const games: ScheduledGame[] = [];
+  const warnings: ApiWarning[] = [];
+  results.forEach((result, i) => {
+    const week = weekNumbers[i];
+    if (result.status === "fulfilled") {
+      for (const m of result.value.matchups) {
+        if (matchupStage(m) !== "regular" || winsFromStatWinners(m).total > 0) continue;
+        games.push({ week, teamKey: m.teams[0].key, opponentKey: m.teams[1].key });
+      }
+      return;
+    }
+    const e = result.reason;
+    if (e instanceof YahooHttpError && e.status === 404) return;
+    warnings.push({
+      code: "schedule_week_failed",
+      message: `Week ${week} schedule could not be fetched: ${e instanceof Error ? e.message : String(e)}`,
+      week,
+      ...(e instanceof YahooHttpError ? { status: e.status } : {}),
+    });
+  });
+  return { games, warnings };
+}
+
+export function categoryOrder(a: Category, b: Category) {
+  const aOrder = a.sort_order ?? Number(a.id) ?? 0;
+  const bOrder = b.sort_order ?? Number(b.id) ?? 0;
+  return aOrder - bOrder;
+}
+
+// Yahoo's sort_order 0 marks stats where lower wins (GAA, GA).
+export function higherIsBetter(cat: Category) {
+  return cat.sort_order !== 0;
+}
+
+// Averages and percentages, where a season total means nothing. Yahoo rarely
+// sends decimal_places, so the display name is the fallback signal.
+const RATE_DISPLAY_NAME = /%|GAA|AVG/i;
+
+export function isRateCategory(cat: Category) {
+  return (cat.decimal_places ?? 0) > 0 || RATE_DISPLAY_NAME.test(cat.display_name);
+}
+
+export function unknownCategory(id: string): Category {
+  return {
+    id,
+    name: id,
+    display_name: id,
+    sort_order: null,
+    decimal_places: null,
+    position_type: null,
+    is_only_display: false,
+  };
+}
+
+export async function getStatCategories(yahoo: YahooClient, leagueKey: string) {
+  const cached = statCategoriesCache.get(leagueKey);
+  if (cached && cached.until > Date.now()) return cached.categories;
+
+  const settings = await yahoo.settings(leagueKey);
+  const categories: Category[] = settings.categories
+    .map((cat) => ({
+      id: cat.id,
+      name: cat.name,
+      display_name: cat.displayName,
+      sort_order: cat.sortOrder,
+      decimal_places: cat.decimalPlaces,
+      position_type: cat.positionType,
+      is_only_display: cat.isOnlyDisplay,
+    }))
+    .sort(categoryOrder);
+
+  statCategoriesCache.set(leagueKey, {
+    until: Date.now() + 30 * 60 * 1000,
+    categories,
+  });
+  return categories;
+}
+
+export async function getTeamStandingsSummary(yahoo: YahooClient, leagueKey: string) {
+  const standings = await yahoo.standings(leagueKey);
+  const summary = new Map<string, TeamSummary>();
+  for (const s of standings) {
+    summary.set(s.teamKey, {
+      moves: s.moves ?? 0,
+      trades: s.trades ?? 0,
+      wins: s.wins,
+      losses: s.losses,
+      ties: s.ties,
+      winPct: s.percentage,
+    });
+  }
+  return summary;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { applyTokenResponse, emptyTokenRecord, tokenFingerprint } from "./tokenStore";
+
+describe("applyTokenResponse", () => {
+  it("records a rotation whenever Yahoo hands out a new refresh token", () => {
+    const first = applyTokenResponse(
+      emptyTokenRecord(),
+      { access_token: "a1", refresh_token: "r1", expires_in: 3600 },
+      "authorization_code"
+    );
+    expect(first).toMatchObject({ accessToken: "a1", refreshToken: "r1" });
+    expect(first.rotations).toEqual([
+      { at: first.updatedAt, source: "authorization_code", fingerprint: tokenFingerprint("r1") },
+    ]);
+
+    const rotated = applyTokenResponse(first, { access_token: "a2", refresh_token: "r2" }, "refresh");
+    expect(rotated.refreshToken).toBe("r2");
+    expect(rotated.rotations.map((r) => [r.source, r.fingerprint])).toEqual([
+      ["authorization_code", tokenFingerprint("r1")],
+      ["refresh", tokenFingerprint("r2")],
+    ]);
+  });
+
+  it("keeps the refresh token and history when only the access token changes", () => {
+    const record = applyTokenResponse(
+      emptyTokenRecord(),
+      { access_token: "a1", refresh_token: "r1" },
+      "authorization_code"
+    );
+    for (const tokens of [{ access_token: "a2", refresh_token: "r1" }, { access_token: "a3" }]) {
+      const next = applyTokenResponse(record, tokens, "refresh");
+      expect(next.accessToken).toBe(tokens.access_token);
+      expect(next.refreshToken).toBe("r1");
+      expect(next.rotations).toHaveLength(1);
+    }
+  });
+
+  it("expires the access token a minute early and keeps the last 20 rotations", () => {
+    const before = Date.now();
+    const record = applyTokenResponse(emptyTokenRecord(), { access_token: "a", expires_in: 600 }, "refresh");
+    expect(record.accessTokenExpiresAt).toBeGreaterThanOrEqual(before + 540_000);
+    expect(record.accessTokenExpiresAt).toBeLessThanOrEqual(Date.now() + 540_000);
+
+    let rotating = emptyTokenRecord();
+    for (let i = 0; i < 25; i++) {
+      rotating = applyTokenResponse(rotating, { access_token: "a", refresh_token: `r${i}` }, "refresh");
+    }
+    expect(rotating.rotations).toHaveLength(20);
+    expect(rotating.rotations[19].fingerprint).toBe(tokenFingerprint("r24"));
+    // fingerprints identify a token without storing it twice
+    expect(JSON.stringify(rotating.rotations)).not.toContain("r24");
+  });
+});
@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+/* =========================
+   Token store
+   =========================
+   A token store persists the Yahoo OAuth state so a rotated refresh_token
+   survives restarts. The file store is the default; anything implementing
+   TokenStore (a database row, a secrets manager) can be swapped in.
+*/
+
+const MAX_ROTATIONS = 20;
+
+export interface TokenRotation {
+  at: string;
+  source: string;
+  fingerprint: string | null;
+}
+
+export interface TokenRecord {
+  accessToken: string | null;
+  accessTokenExpiresAt: number; // epoch ms
+  refreshToken: string | null;
+  updatedAt: string | null;
+  rotations: TokenRotation[];
+}
+
+export interface TokenStore {
+  kind: string;
+  read(): Promise<TokenRecord | null>;
+  write(record: TokenRecord): Promise<void>;
+}
+
+export interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+export function emptyTokenRecord(): TokenRecord {
+  return {
+    accessToken: null,
+    accessTokenExpiresAt: 0,
+    refreshToken: null,
+    updatedAt: null,
+    rotations: [],
+  };
+}
+
+export function tokenFingerprint(token: string | null | undefined) {
+  if (!token) return null;
+  return crypto.createHash("sha256").update(token).digest("hex").slice(0, 12);
+}
+
+// Merges a token response into a record, appending to the rotation history
+// whenever the refresh_token changes.
+export function applyTokenResponse(record: TokenRecord, tokens: TokenResponse, source: string): TokenRecord {
+  const next: TokenRecord = { ...emptyTokenRecord(), ...record };
+  const now = new Date().toISOString();
+  next.accessToken = tokens.access_token || null;
+  next.accessTokenExpiresAt = Date.now() + (tokens.expires_in ?? 3600) * 1000 - 60 * 1000;
+  next.updatedAt = now;
+  if (tokens.refresh_token && tokens.refresh_token !== next.refreshToken) {
+    next.refreshToken = tokens.refresh_token;
+    next.rotations = [
+      ...(next.rotations || []),
+      { at: now, source, fingerprint: tokenFingerprint(tokens.refresh_token) },
+    ].slice(-MAX_ROTATIONS);
+  }
+  return next;
+}
+
+export function createMemoryTokenStore(initial: TokenRecord | null = null): TokenStore {
+  let record = initial;
+  return {
+    kind: "memory",
+    async read() {
+      return record;
+    },
+    async write(next) {
+      record = next;
+    },
+  };
+}
+
+export function createFileTokenStore(filePath: string): TokenStore {
+  let cached: TokenRecord | null | undefined;
+  return {
+    kind: "file",
+    async read() {
+      if (cached !== undefined) return cached;
+      try {
+        const txt = await fs.promises.readFile(filePath, "utf8");
+        cached = JSON.parse(txt) as TokenRecord;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") {
+          console.warn(`token store: could not read ${filePath}: ${e}`);
+        }
+        cached = null;
+      }
+      return cached;
+    },
+    async write(next) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // write-then-rename so a crash mid-write never leaves a truncated file
+      const tmp = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(next, null, 2), { mode: 0o600 });
+      await fs.promises.rename(tmp, filePath);
+      cached = next;
+    },
+  };
+}
+
+export function createTokenStoreFromEnv(env: NodeJS.ProcessEnv, dataDir: string): TokenStore {
+  const kind = (env.TOKEN_STORE || "file").toLowerCase();
+  if (kind === "memory") return createMemoryTokenStore();
+  if (kind === "file") {
+    return createFileTokenStore(env.TOKEN_STORE_PATH || path.join(dataDir, "tokens.json"));
+  }
+  throw new Error(`Unknown TOKEN_STORE "${env.TOKEN_STORE}" (expected "file" or "memory")`);
+}
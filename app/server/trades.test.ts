@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import type { TransactionEntry } from "../shared/contract";
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { collectSeasonFacts } from "./facts";
+import type { PlayerFact } from "./players";
+import { unknownCategory } from "./season";
+import { analyzeTrade, categorySplits, receivedPlayerImpact, tradeWindows } from "./trades";
+import { getTransactions, transactionEntry } from "./transactions";
+
+const yahoo = fixtureClient();
+const season = () => collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+
+const trade = (week: number | null, timestamp = "2023-10-18T12:00:00.000Z"): TransactionEntry => ({
+  key: "t",
+  type: "trade",
+  status: "successful",
+  timestamp,
+  week,
+  teams: [],
+  players: [],
+});
+
+describe("tradeWindows", () => {
+  it("leaves the trade's own week out of both sides", async () => {
+    const s = { ...(await season()), weeks: [1, 2, 3, 4, 5] };
+    expect(tradeWindows(s, trade(3))).toEqual({ before: [1, 2], after: [4, 5] });
+    expect(tradeWindows(s, trade(3), 1)).toEqual({ before: [2], after: [4] });
+  });
+
+  it("places off-schedule trades before or after the whole season", async () => {
+    const s = await season();
+    expect(tradeWindows(s, trade(null, "2023-10-01T12:00:00.000Z"))).toEqual({ before: [], after: [1, 2] });
+    expect(tradeWindows(s, trade(null, "2024-04-20T12:00:00.000Z"))).toEqual({ before: [1, 2], after: [] });
+  });
+});
+
+describe("categorySplits", () => {
+  it("averages weekly totals and counts category outcomes", async () => {
+    const s = await season();
+    const splits = categorySplits(s.facts, teamKey(1), [1, 2], s.categories);
+    expect(splits["1"]).toEqual({ perWeek: 5.5, wins: 2, losses: 0, ties: 0, winPct: 1 });
+    // week 2 settled no GAA winner, so only week 1's tie counts
+    expect(splits["23"]).toMatchObject({ wins: 0, losses: 0, ties: 1, winPct: 0.5 });
+  });
+});
+
+describe("analyzeTrade", () => {
+  it("compares both sides and follows the players to their new lineups", async () => {
+    const s = await season();
+    const tx = (await getTransactions(yahoo, FIXTURE_LEAGUE_KEY)).find((t) => t.type === "trade")!;
+    const result = await analyzeTrade(yahoo, s, transactionEntry(tx, s.calendar, s.teamDir));
+
+    expect(result.beforeWeeks).toEqual([]);
+    expect(result.afterWeeks).toEqual([2]);
+    expect(result.warnings).toEqual([]);
+
+    const [aces, cyclones] = result.sides;
+    expect(aces.team.name).toBe("Aces");
+    expect(aces.sent.map((p) => p.name)).toEqual(["Traded Away"]);
+    expect(aces.after["1"]).toMatchObject({ perWeek: 6, wins: 1 });
+    expect(aces.before["1"]).toMatchObject({ perWeek: null, winPct: null });
+    // the player Aces got back sat on the bench
+    expect(aces.received).toEqual([
+      { playerKey: "427.p.302", name: "Traded In", weeksActive: 0, totals: { "1": 0, "2": 0, "23": 0 }, perWeek: { "1": null, "2": null, "23": null } },
+    ]);
+
+    expect(cyclones.received[0]).toMatchObject({ name: "Traded Away", weeksActive: 1, totals: { "1": 1, "2": 2 } });
+    expect(cyclones.after["1"]).toMatchObject({ perWeek: 1, losses: 1, winPct: 0 });
+  });
+});
+
+describe("receivedPlayerImpact", () => {
+  it("takes a goalie's GAA from goals against and minutes", () => {
+    const categories = [
+      { ...unknownCategory("23"), display_name: "GAA", sort_order: 0 },
+      { ...unknownCategory("22"), display_name: "GA", is_only_display: true },
+      { ...unknownCategory("28"), display_name: "TOI", is_only_display: true },
+    ];
+    const row = (week: number, statId: string, value: number): PlayerFact => ({
+      week,
+      teamKey: "t",
+      playerKey: "g",
+      name: "Goalie",
+      nhlTeam: null,
+      position: "G",
+      active: true,
+      statId,
+      value,
+    });
+    // 1.00 in a 60-minute week and 3.00 over 180 minutes: 10 goals in 240
+    const rows = [row(1, "23", 1), row(1, "22", 1), row(1, "28", 60), row(2, "23", 3), row(2, "22", 9), row(2, "28", 180)];
+    const [impact] = receivedPlayerImpact(rows, "t", [{ playerKey: "g", name: "Goalie" }], categories);
+    expect(impact.perWeek["23"]).toBeCloseTo(2.5);
+    expect(impact.totals["22"]).toBe(10);
+  });
+});
@@ -0,0 +1,140 @@
+import type {
+  ApiWarning,
+  Category,
+  CategorySplit,
+  TradeSide,
+  TradedPlayerImpact,
+  TransactionEntry,
+} from "../shared/contract";
+import type { CategoryFact, SeasonFacts } from "./facts";
+import { type PlayerFact, collectPlayerFacts } from "./players";
+import { seasonRates } from "./rates";
+import { isRateCategory } from "./season";
+import { scheduleDay } from "./transactions";
+import type { YahooClient } from "./yahoo";
+
+/* =========================
+   Trade impact
+   =========================
+   Each side's category output in the settled weeks before a trade against
+   the weeks after it, plus what the incoming players produced in their new
+   team's active lineup. The trade's own week mixes both rosters, so it is
+   left out of both windows.
+*/
+
+export interface TradeWindows {
+  before: number[];
+  after: number[];
+}
+
+// window caps each side to the weeks nearest the trade.
+export function tradeWindows(season: SeasonFacts, trade: TransactionEntry, window?: number): TradeWindows {
+  let pivot = trade.week;
+  if (pivot == null) {
+    // outside the schedule: either a preseason deal or one after the last week
+    const first = season.calendar[0];
+    pivot = first && scheduleDay(Date.parse(trade.timestamp)) < first.start ? 0 : Infinity;
+  }
+  const before = season.weeks.filter((w) => w < pivot!);
+  const after = season.weeks.filter((w) => w > pivot!);
+  return {
+    before: window ? before.slice(-window) : before,
+    after: window ? after.slice(0, window) : after,
+  };
+}
+
+// perWeek is the average week, or for a rate stat the rate over the window.
+export function categorySplits(facts: CategoryFact[], teamKey: string, weeks: number[], categories: Category[]) {
+  const weekSet = new Set(weeks);
+  const rates = seasonRates(
+    facts.filter((f) => f.teamKey === teamKey && weekSet.has(f.week)),
+    categories
+  ).get(teamKey);
+  const splits: Record<string, CategorySplit> = {};
+  for (const cat of categories) {
+    let sum = 0;
+    let samples = 0;
+    const split: CategorySplit = { perWeek: null, wins: 0, losses: 0, ties: 0, winPct: null };
+    for (const f of facts) {
+      if (f.teamKey !== teamKey || f.statId !== cat.id || !weekSet.has(f.week)) continue;
+      if (f.value != null) {
+        sum += f.value;
+        samples += 1;
+      }
+      if (f.outcome === "W") split.wins += 1;
+      else if (f.outcome === "L") split.losses += 1;
+      else if (f.outcome === "T") split.ties += 1;
+    }
+    const played = split.wins + split.losses + split.ties;
+    split.perWeek = isRateCategory(cat) ? rates?.get(cat.id)?.value ?? null : samples ? sum / samples : null;
+    split.winPct = played ? (split.wins + split.ties * 0.5) / played : null;
+    splits[cat.id] = split;
+  }
+  return splits;
+}
+
+// Active-lineup production of the given players for one team. A rate stat
+// (a goalie's GAA) is the player's rate over those weeks (rates.ts), not a sum.
+export function receivedPlayerImpact(
+  playerFacts: PlayerFact[],
+  teamKey: string,
+  players: { playerKey: string; name: string }[],
+  categories: Category[]
+): TradedPlayerImpact[] {
+  return players.map(({ playerKey, name }) => {
+    const rows = playerFacts.filter((pf) => pf.playerKey === playerKey && pf.teamKey === teamKey && pf.active);
+    const weeksActive = new Set(rows.map((pf) => pf.week)).size;
+    const totals: Record<string, number> = {};
+    const perWeek: Record<string, number | null> = {};
+    const rates = seasonRates(rows, categories).get(teamKey);
+    for (const cat of categories) {
+      const values = rows.filter((pf) => pf.statId === cat.id && pf.value != null).map((pf) => pf.value!);
+      const sum = values.reduce((acc, v) => acc + v, 0);
+      if (isRateCategory(cat)) {
+        const rate = rates?.get(cat.id)?.value ?? null;
+        totals[cat.id] = rate ?? 0;
+        perWeek[cat.id] = rate;
+      } else {
+        totals[cat.id] = sum;
+        perWeek[cat.id] = weeksActive ? sum / weeksActive : null;
+      }
+    }
+    return { playerKey, name, weeksActive, totals, perWeek };
+  });
+}
+
+export async function analyzeTrade(
+  yahoo: YahooClient,
+  season: SeasonFacts,
+  trade: TransactionEntry,
+  { window }: { window?: number } = {}
+) {
+  const { before, after } = tradeWindows(season, trade, window);
+  const warnings: ApiWarning[] = [];
+
+  const sides: TradeSide[] = await Promise.all(
+    trade.teams.map(async (team) => {
+      const received = trade.players
+        .filter((p) => p.toTeamKey === team.key)
+        .map((p) => ({ playerKey: p.playerKey, name: p.name }));
+      const sent = trade.players
+        .filter((p) => p.fromTeamKey === team.key)
+        .map((p) => ({ playerKey: p.playerKey, name: p.name }));
+
+      const rosters = received.length && after.length
+        ? await collectPlayerFacts(yahoo, team.key, after)
+        : { facts: [], warnings: [] };
+      warnings.push(...rosters.warnings);
+
+      return {
+        team,
+        received: receivedPlayerImpact(rosters.facts, team.key, received, season.categories),
+        sent,
+        before: categorySplits(season.facts, team.key, before, season.categories),
+        after: categorySplits(season.facts, team.key, after, season.categories),
+      };
+    })
+  );
+
+  return { beforeWeeks: before, afterWeeks: after, sides, warnings };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_LEAGUE_KEY, fixtureClient, teamKey } from "./__fixtures__";
+import { collectSeasonFacts } from "./facts";
+import { filterTransactions, getTransactions, transactionEntry, weekOfTimestamp } from "./transactions";
+
+const yahoo = fixtureClient();
+
+async function entries() {
+  const season = await collectSeasonFacts(yahoo, FIXTURE_LEAGUE_KEY);
+  const txs = await getTransactions(yahoo, FIXTURE_LEAGUE_KEY);
+  return txs.map((tx) => transactionEntry(tx, season.calendar, season.teamDir));
+}
+
+describe("weekOfTimestamp", () => {
+  const calendar = [
+    { week: 1, start: "2023-10-10", end: "2023-10-16" },
+    { week: 2, start: "2023-10-17", end: "2023-10-23" },
+  ];
+
+  it("reads the timestamp as a US Eastern date", () => {
+    // Monday 02:00 UTC is still Sunday evening in New York
+    expect(weekOfTimestamp(calendar, Date.UTC(2023, 9, 17, 2))).toBe(1);
+    expect(weekOfTimestamp(calendar, Date.UTC(2023, 9, 17, 12))).toBe(2);
+  });
+
+  it("is null outside the schedule", () => {
+    expect(weekOfTimestamp(calendar, Date.UTC(2023, 9, 5, 12))).toBeNull();
+  });
+});
+
+describe("transactionEntry", () => {
+  it("places moves in weeks and names every team involved", async () => {
+    const all = await entries();
+    expect(all.map((tx) => [tx.type, tx.week])).toEqual([
+      ["drop", 3],
+      ["add", 2],
+      ["trade", 1],
+      ["add/drop", 1],
+      ["add", null],
+    ]);
+
+    const trade = all.find((tx) => tx.type === "trade")!;
+    expect(trade.teams).toEqual([
+      { key: teamKey(1), name: "Aces" },
+      { key: teamKey(3), name: "Cyclones" },
+    ]);
+    expect(trade.players[0]).toEqual({
+      playerKey: "427.p.301",
+      name: "Traded Away",
+      action: "trade",
+      fromTeamKey: teamKey(1),
+      toTeamKey: teamKey(3),
+      sourceType: "team",
+      destinationType: "team",
+    });
+  });
+});
+
+describe("filterTransactions", () => {
+  it("filters by team, type and week range", async () => {
+    const all = await entries();
+    expect(filterTransactions(all, { teamKey: teamKey(1) }).map((tx) => tx.type)).toEqual(["trade", "add/drop"]);
+    // "add" also matches the add half of an add/drop
+    expect(filterTransactions(all, { types: ["add"] }).map((tx) => tx.type)).toEqual(["add", "add/drop", "add"]);
+    // a week range leaves out the preseason move
+    expect(filterTransactions(all, { from: 1, to: 2 }).map((tx) => tx.week)).toEqual([2, 1, 1]);
+    expect(filterTransactions(all, { teamKey: teamKey(3), types: ["trade"], to: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,93 @@
+import type { TransactionEntry } from "../shared/contract";
+import type { WeekWindow } from "./facts";
+import { memoCache } from "./memo";
+import type { Transaction, YahooClient } from "./yahoo";
+
+/* =========================
+   Transactions
+   =========================
+   The league's add/drop/trade log, each move placed in the fantasy week
+   whose date window contains it. Yahoo stamps moves in epoch seconds but
+   schedules weeks by calendar date, so the timestamp is read as a date in
+   the schedule's time zone before comparing.
+*/
+
+export interface TransactionFilter {
+  teamKey?: string;
+  types?: string[];
+  from?: number;
+  to?: number;
+}
+
+// Yahoo's weekly rollover follows US Eastern dates.
+const SCHEDULE_TIME_ZONE = "America/New_York";
+
+const scheduleDate = new Intl.DateTimeFormat("en-CA", {
+  timeZone: SCHEDULE_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+const transactionsCache = memoCache<{ until: number; transactions: Transaction[] }>();
+
+export async function getTransactions(yahoo: YahooClient, leagueKey: string) {
+  const cached = transactionsCache.get(leagueKey);
+  if (cached && cached.until > Date.now()) return cached.transactions;
+  const transactions = await yahoo.transactions(leagueKey);
+  transactionsCache.set(leagueKey, { until: Date.now() + 60_000, transactions });
+  return transactions;
+}
+
+// "YYYY-MM-DD" of an epoch-ms timestamp on the schedule's calendar.
+export function scheduleDay(timestamp: number) {
+  return scheduleDate.format(new Date(timestamp));
+}
+
+export function weekOfTimestamp(calendar: WeekWindow[], timestamp: number) {
+  const day = scheduleDay(timestamp);
+  return calendar.find((w) => w.start <= day && day <= w.end)?.week ?? null;
+}
+
+export function transactionEntry(tx: Transaction, calendar: WeekWindow[], teamDir: Map<string, string>): TransactionEntry {
+  const teamKeys = new Set<string>();
+  for (const key of [tx.traderTeamKey, tx.tradeeTeamKey]) if (key) teamKeys.add(key);
+  for (const p of tx.players) {
+    if (p.sourceTeamKey) teamKeys.add(p.sourceTeamKey);
+    if (p.destinationTeamKey) teamKeys.add(p.destinationTeamKey);
+  }
+  return {
+    key: tx.key,
+    type: tx.type,
+    status: tx.status,
+    timestamp: new Date(tx.timestamp).toISOString(),
+    week: weekOfTimestamp(calendar, tx.timestamp),
+    teams: [...teamKeys].map((key) => ({ key, name: teamDir.get(key) || key })),
+    players: tx.players.map((p) => ({
+      playerKey: p.key,
+      name: p.name,
+      action: p.type,
+      fromTeamKey: p.sourceTeamKey,
+      toTeamKey: p.destinationTeamKey,
+      sourceType: p.sourceType,
+      destinationType: p.destinationType,
+    })),
+  };
+}
+
+// A type matches the transaction's own type or any player's action, so
+// "add" also finds the add half of an add/drop. A week range drops moves
+// made outside the schedule.
+export function filterTransactions(entries: TransactionEntry[], { teamKey, types, from, to }: TransactionFilter) {
+  const typeSet = types?.length ? new Set(types) : null;
+  return entries.filter((tx) => {
+    if (teamKey && !tx.teams.some((t) => t.key === teamKey)) return false;
+    if (typeSet && !typeSet.has(tx.type) && !tx.players.some((p) => typeSet.has(p.action))) return false;
+    if (from != null || to != null) {
+      if (tx.week == null) return false;
+      if (from != null && tx.week < from) return false;
+      if (to != null && tx.week > to) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,50 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { FIXTURE_DIR, FIXTURE_LEAGUE_KEY } from "../__fixtures__";
+import { createYahooClient } from "./client";
+import { createReplayFetch } from "./fixtures";
+import { createFileResponseCache, scoreboardEntry } from "./responseCache";
+
+const dirs: string[] = [];
+
+function cachedClient() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hrhl-cache-"));
+  dirs.push(dir);
+  const cache = createFileResponseCache(dir);
+  const yahoo = createYahooClient({
+    getAccessToken: async () => "fixture",
+    fetchJson: createReplayFetch(FIXTURE_DIR),
+    cache,
+  });
+  return { yahoo, cache };
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("durable caching", () => {
+  it("keeps teams and settings only once the season is finished", async () => {
+    const { yahoo, cache } = cachedClient();
+    for (const leagueKey of [FIXTURE_LEAGUE_KEY, "888.l.4242"]) {
+      await yahoo.teams(leagueKey);
+      await yahoo.settings(leagueKey);
+    }
+    // 999.l.4242 is still being played, so renames must come through
+    expect(await cache.read(FIXTURE_LEAGUE_KEY, "teams")).toBeNull();
+    expect(await cache.read(FIXTURE_LEAGUE_KEY, "settings")).toBeNull();
+    expect(await cache.read("888.l.4242", "teams")).not.toBeNull();
+    expect(await cache.read("888.l.4242", "settings")).not.toBeNull();
+  });
+
+  it("keeps a scoreboard week once every matchup in it is over", async () => {
+    const { yahoo, cache } = cachedClient();
+    await yahoo.scoreboard(FIXTURE_LEAGUE_KEY, 2);
+    await yahoo.scoreboard(FIXTURE_LEAGUE_KEY, 3);
+    expect(await cache.read(FIXTURE_LEAGUE_KEY, scoreboardEntry(2))).not.toBeNull();
+    expect(await cache.read(FIXTURE_LEAGUE_KEY, scoreboardEntry(3))).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import fetch from "node-fetch";
+
+import {
+  decodeLeague,
+  decodeRoster,
+  decodeScoreboard,
+  decodeSettings,
+  decodeStandings,
+  decodeTeams,
+  decodeTransactions,
+} from "./decoders";
+import type { Json } from "./decode";
+import { type ResponseCache, scoreboardEntry } from "./responseCache";
+import type { FetchScheduler } from "./scheduler";
+import type { ScoreboardWeek } from "./types";
+
+/* =========================
+   Yahoo Fantasy API client
+   ========================= */
+
+export const YAHOO_BASE = "https://fantasysports.yahooapis.com/fantasy/v2";
+
+export interface YahooResponse {
+  ok: boolean;
+  status: number;
+  json: Json | null;
+  text: string;
+  // the Retry-After header Yahoo sends with a 429
+  retryAfter?: string | null;
+}
+
+export class YahooHttpError extends Error {
+  readonly status: number;
+  readonly url: string;
+  readonly retryAfter: string | null;
+
+  constructor(url: string, status: number, body: string, retryAfter: string | null = null) {
+    super(`Yahoo ${status} for ${url}: ${body.slice(0, 200)}`);
+    this.name = "YahooHttpError";
+    this.status = status;
+    this.url = url;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export async function yahooGetJSON(url: string, accessToken: string): Promise<YahooResponse> {
+  const r = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+  const text = await r.text();
+  let json: Json | null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = null;
+  }
+  return { ok: r.ok, status: r.status, json, text, retryAfter: r.headers.get("retry-after") };
+}
+
+export interface YahooClientOptions {
+  getAccessToken: () => Promise<string>;
+  fetchJson?: (url: string, accessToken: string) => Promise<YahooResponse>;
+  scheduler?: FetchScheduler;
+  cache?: ResponseCache;
+}
+
+export function leagueUrl(leagueKey: string, path = "") {
+  return `${YAHOO_BASE}/league/${encodeURIComponent(leagueKey)}${path}?format=json`;
+}
+
+function leagueFinished(_value: unknown, json: Json) {
+  return decodeLeague(json).isFinished;
+}
+
+// A week is settled once Yahoo has closed every matchup in it.
+export function isFinalScoreboard(scoreboard: ScoreboardWeek) {
+  return scoreboard.matchups.length > 0 && scoreboard.matchups.every((m) => m.status === "postevent");
+}
+
+export function createYahooClient({ getAccessToken, fetchJson = yahooGetJSON, scheduler, cache }: YahooClientOptions) {
+  async function getOnce(url: string): Promise<Json> {
+    const { ok, status, json, text, retryAfter } = await fetchJson(url, await getAccessToken());
+    if (!ok || json == null) throw new YahooHttpError(url, status, text, retryAfter);
+    return json;
+  }
+
+  function get(url: string) {
+    return scheduler ? scheduler.run(() => getOnce(url)) : getOnce(url);
+  }
+
+  // Serve from the durable cache when present; store the raw response once
+  // `isFinal` says the resource can no longer change.
+  async function getDurable<T>(
+    leagueKey: string,
+    name: string,
+    url: string,
+    decode: (json: Json) => T,
+    isFinal: (value: T, json: Json) => boolean
+  ): Promise<T> {
+    const hit = cache ? await cache.read(leagueKey, name) : null;
+    if (hit != null) {
+      try {
+        return decode(hit);
+      } catch (e) {
+        console.warn(`response cache: dropping ${leagueKey}/${name}: ${e}`);
+      }
+    }
+    const json = await get(url);
+    const value = decode(json);
+    if (cache && isFinal(value, json)) await cache.write(leagueKey, name, json);
+    return value;
+  }
+
+  return {
+    get,
+    async league(leagueKey: string) {
+      return getDurable(leagueKey, "league", leagueUrl(leagueKey), decodeLeague, (l) => l.isFinished);
+    },
+    // team names and settings can still be edited until the season is over;
+    // both responses carry the league's own is_finished
+    async teams(leagueKey: string) {
+      return getDurable(leagueKey, "teams", leagueUrl(leagueKey, "/teams"), decodeTeams, leagueFinished);
+    },
+    async settings(leagueKey: string) {
+      return getDurable(leagueKey, "settings", leagueUrl(leagueKey, "/settings"), decodeSettings, leagueFinished);
+    },
+    async standings(leagueKey: string) {
+      return decodeStandings(await get(leagueUrl(leagueKey, "/standings")));
+    },
+    async scoreboard(leagueKey: string, week: number) {
+      const url = leagueUrl(leagueKey, `/scoreboard;week=${week}`);
+      return getDurable(leagueKey, scoreboardEntry(week), url, decodeScoreboard, isFinalScoreboard);
+    },
+    async roster(teamKey: string, week: number) {
+      const url = `${YAHOO_BASE}/team/${encodeURIComponent(teamKey)}/roster;week=${week}/players/stats;type=week;week=${week}?format=json`;
+      return decodeRoster(await get(url));
+    },
+    async transactions(leagueKey: string, { types }: { types?: string[] } = {}) {
+      const filter = types?.length ? `;types=${types.join(",")}` : "";
+      return decodeTransactions(await get(leagueUrl(leagueKey, `/transactions${filter}`)));
+    },
+  };
+}
+
+export type YahooClient = ReturnType<typeof createYahooClient>;
@@ -0,0 +1,152 @@
+/* =========================
+   Decoding primitives
+   =========================
+   Yahoo's JSON format wraps most resources in two quirks:
+
+   - collections are objects keyed "0".."n-1" plus a "count" key
+     ({ "0": { team: [...] }, "1": { team: [...] }, count: 2 }), and
+   - resource metadata is an array of single-key objects, padded with
+     empty arrays ([{ team_key: "..." }, { team_id: "3" }, [], { name: "..." }]).
+
+   These helpers decode those shapes explicitly and throw DecodeError with
+   the JSON path of the offending node, so a format change fails loudly
+   instead of silently matching the wrong value.
+*/
+
+export type Json = unknown;
+export type JsonObject = Record<string, unknown>;
+
+export class DecodeError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`Yahoo decode error at ${path}: ${message}`);
+    this.name = "DecodeError";
+    this.path = path;
+  }
+}
+
+function describe(value: Json) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function isObject(value: Json): value is JsonObject {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+export function asObject(value: Json, path: string): JsonObject {
+  if (!isObject(value)) throw new DecodeError(path, `expected object, got ${describe(value)}`);
+  return value;
+}
+
+export function asArray(value: Json, path: string): Json[] {
+  if (!Array.isArray(value)) throw new DecodeError(path, `expected array, got ${describe(value)}`);
+  return value;
+}
+
+// Items of a Yahoo collection, unwrapped from their { [itemKey]: ... } wrapper.
+// Accepts both the keyed-object form and a plain array.
+export function collection(value: Json, itemKey: string, path: string): { value: Json; path: string }[] {
+  if (value == null) return [];
+  if (Array.isArray(value)) {
+    return value.map((item, idx) => unwrapItem(item, itemKey, `${path}[${idx}]`));
+  }
+  const obj = asObject(value, path);
+  return Object.keys(obj)
+    .filter((k) => /^\d+$/.test(k))
+    .sort((a, b) => Number(a) - Number(b))
+    .map((k) => unwrapItem(obj[k], itemKey, `${path}.${k}`));
+}
+
+function unwrapItem(item: Json, itemKey: string, path: string) {
+  const obj = asObject(item, path);
+  if (!(itemKey in obj)) throw new DecodeError(path, `expected "${itemKey}" wrapper`);
+  return { value: obj[itemKey], path: `${path}.${itemKey}` };
+}
+
+// Merges an array of single-key objects into one record. Nested arrays are
+// flattened (team metadata is itself the first element of the team array).
+export function mergeFields(value: Json, path: string): JsonObject {
+  const out: JsonObject = {};
+  const visit = (node: Json, nodePath: string) => {
+    if (Array.isArray(node)) {
+      node.forEach((child, idx) => visit(child, `${nodePath}[${idx}]`));
+      return;
+    }
+    if (isObject(node)) {
+      Object.assign(out, node);
+      return;
+    }
+    throw new DecodeError(nodePath, `expected object or array, got ${describe(node)}`);
+  };
+  visit(asArray(value, path), path);
+  return out;
+}
+
+// A resource like `league` or `team` is an array whose first element holds the
+// metadata and later elements hold sub-resources ({ teams }, { team_stats }...).
+export function resource(value: Json, path: string): { meta: JsonObject; subs: JsonObject } {
+  if (isObject(value)) return { meta: value, subs: value };
+  const arr = asArray(value, path);
+  const meta = mergeFields(Array.isArray(arr[0]) ? arr[0] : [arr[0]], `${path}[0]`);
+  const subs: JsonObject = {};
+  arr.slice(1).forEach((item, idx) => {
+    if (Array.isArray(item) && item.length === 0) return;
+    Object.assign(subs, asObject(item, `${path}[${idx + 1}]`));
+  });
+  return { meta, subs };
+}
+
+export function field(obj: JsonObject, key: string, path: string): Json {
+  if (!(key in obj)) throw new DecodeError(`${path}.${key}`, "missing field");
+  return obj[key];
+}
+
+export function str(obj: JsonObject, key: string, path: string): string {
+  const value = field(obj, key, path);
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  throw new DecodeError(`${path}.${key}`, `expected string, got ${describe(value)}`);
+}
+
+export function optStr(obj: JsonObject, key: string, path: string): string | null {
+  if (obj[key] == null || obj[key] === "") return null;
+  return str(obj, key, path);
+}
+
+export function num(obj: JsonObject, key: string, path: string): number {
+  const raw = field(obj, key, path);
+  const value = typeof raw === "string" && raw.trim() !== "" ? Number(raw) : raw;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new DecodeError(`${path}.${key}`, `expected number, got ${JSON.stringify(raw)}`);
+  }
+  return value;
+}
+
+export function optNum(obj: JsonObject, key: string, path: string): number | null {
+  if (obj[key] == null || obj[key] === "") return null;
+  return num(obj, key, path);
+}
+
+// Yahoo encodes flags as 1/0, "1"/"0" or booleans.
+export function flag(obj: JsonObject, key: string): boolean {
+  const value = obj[key];
+  return value === 1 || value === "1" || value === true || value === "true";
+}
+
+// Stat values are strings; "-" and "" mean "no value this period", and
+// display-only composites like "12/30" have no single numeric value. Clock
+// values (a goalie's time on ice, "245:30") come back as minutes.
+export function statValue(raw: Json, path: string): number | null {
+  if (raw == null) return null;
+  if (typeof raw !== "string" && typeof raw !== "number") {
+    throw new DecodeError(path, `expected stat value, got ${describe(raw)}`);
+  }
+  if (raw === "" || raw === "-") return null;
+  const clock = typeof raw === "string" ? /^(\d+):([0-5]\d)$/.exec(raw) : null;
+  if (clock) return Number(clock[1]) + Number(clock[2]) / 60;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
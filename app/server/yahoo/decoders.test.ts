@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_DIR, FIXTURE_LEAGUE_KEY, teamKey } from "../__fixtures__";
+import { DecodeError, collection, statValue } from "./decode";
+import { decodeLeague, decodeScoreboard, decodeSettings, decodeStandings, decodeTeams } from "./decoders";
+
+function fixture(name: string) {
+  const file = path.join(FIXTURE_DIR, `league_${FIXTURE_LEAGUE_KEY}${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8")).json;
+}
+
+describe("collection", () => {
+  it("orders numeric keys numerically and skips count", () => {
+    const items = collection(
+      { "10": { team: "k" }, "2": { team: "c" }, "0": { team: "a" }, count: 3 },
+      "team",
+      "$.teams"
+    );
+    expect(items.map((i) => i.value)).toEqual(["a", "c", "k"]);
+    expect(items.map((i) => i.path)).toEqual(["$.teams.0.team", "$.teams.2.team", "$.teams.10.team"]);
+  });
+
+  it("accepts plain arrays and treats a missing collection as empty", () => {
+    expect(collection([{ stat: 1 }, { stat: 2 }], "stat", "$").map((i) => i.value)).toEqual([1, 2]);
+    expect(collection(undefined, "stat", "$")).toEqual([]);
+  });
+
+  it("reports the path of an item without its wrapper", () => {
+    expect(() => collection({ "0": { player: {} }, count: 1 }, "team", "$.teams")).toThrow(
+      new DecodeError("$.teams.0", 'expected "team" wrapper')
+    );
+  });
+});
+
+describe("statValue", () => {
+  it("reads numbers, clocks and blanks", () => {
+    expect(statValue(".915", "$")).toBe(0.915);
+    expect(statValue("245:30", "$")).toBe(245.5);
+    expect(statValue("-", "$")).toBeNull();
+    expect(statValue("12/30", "$")).toBeNull();
+  });
+});
+
+describe("decodeLeague", () => {
+  it("reads week bounds and flags", () => {
+    expect(decodeLeague(fixture(""))).toEqual({
+      key: FIXTURE_LEAGUE_KEY,
+      id: "4242",
+      name: "Fixture League",
+      season: 2023,
+      currentWeek: 3,
+      startWeek: 1,
+      endWeek: 4,
+      numTeams: 4,
+      isFinished: false,
+    });
+  });
+});
+
+describe("decodeTeams", () => {
+  it("decodes every team in the count-keyed collection", () => {
+    const teams = decodeTeams(fixture("_teams"));
+    expect(teams.map((t) => [t.key, t.name, t.moves, t.trades])).toEqual([
+      [teamKey(1), "Aces", 12, 1],
+      [teamKey(2), "Bruisers", 4, 0],
+      [teamKey(3), "Cyclones", 9, 2],
+      [teamKey(4), "Dekes", 0, 0],
+    ]);
+    expect(teams[0].managers).toEqual([{ id: "1", guid: "GUID1AAAA", nickname: "Manager 1", isCommissioner: true }]);
+    expect(teams[1].managers[0].isCommissioner).toBe(false);
+  });
+});
+
+describe("decodeSettings", () => {
+  it("decodes stat categories and playoff settings", () => {
+    const settings = decodeSettings(fixture("_settings"));
+    expect(settings.categories.map((c) => [c.id, c.displayName, c.sortOrder, c.positionType])).toEqual([
+      ["1", "G", 1, "P"],
+      ["2", "A", 1, "P"],
+      ["23", "GAA", 0, "G"],
+    ]);
+    expect(settings).toMatchObject({
+      usesPlayoff: true,
+      playoffStartWeek: 4,
+      numPlayoffTeams: 2,
+      hasPlayoffConsolationGames: true,
+    });
+  });
+});
+
+describe("decodeStandings", () => {
+  it("decodes outcome totals from string and numeric fields", () => {
+    const standings = decodeStandings(fixture("_standings"));
+    expect(standings[0]).toEqual({
+      teamKey: teamKey(1),
+      teamName: "Aces",
+      rank: 1,
+      playoffSeed: 1,
+      wins: 3,
+      losses: 0,
+      ties: 1,
+      percentage: 0.75,
+      moves: 12,
+      trades: 1,
+    });
+    expect(standings.map((s) => s.teamKey)).toEqual([teamKey(1), teamKey(3), teamKey(2), teamKey(4)]);
+  });
+});
+
+describe("decodeScoreboard", () => {
+  it("decodes matchups, stat values and stat winners", () => {
+    const week1 = decodeScoreboard(fixture("_scoreboard_week=1"));
+    expect(week1.week).toBe(1);
+    expect(week1.matchups).toHaveLength(2);
+    const [first] = week1.matchups;
+    expect(first).toMatchObject({ week: 1, status: "postevent", isTied: true, winnerKey: null });
+    expect(first.teams[0]).toEqual({ key: teamKey(1), name: "Aces", points: 1, stats: { "1": 5, "2": 8, "23": 2.5 } });
+    expect(first.statWinners).toEqual([
+      { statId: "1", winnerKey: teamKey(1), isTied: false },
+      { statId: "2", winnerKey: teamKey(2), isTied: false },
+      { statId: "23", winnerKey: null, isTied: true },
+    ]);
+  });
+
+  it("keeps in-progress weeks, with blank stats as null and no stat winners", () => {
+    const week3 = decodeScoreboard(fixture("_scoreboard_week=3"));
+    expect(week3.matchups[0].status).toBe("midevent");
+    expect(week3.matchups[0].teams[0].stats).toEqual({ "1": 2, "2": null, "23": null });
+    expect(week3.matchups.every((m) => m.statWinners.length === 0)).toBe(true);
+  });
+
+  it("fails with the JSON path when a matchup doesn't have two teams", () => {
+    const json = fixture("_scoreboard_week=1");
+    const teams = json.fantasy_content.league[1].scoreboard["0"].matchups["1"].matchup["0"].teams;
+    delete teams["1"];
+    teams.count = 1;
+    expect(() => decodeScoreboard(json)).toThrow(
+      "Yahoo decode error at $.fantasy_content.league.scoreboard.0.matchups.1.matchup.0.teams: expected 2 teams, got 1"
+    );
+  });
+});
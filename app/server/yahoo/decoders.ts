@@ -0,0 +1,314 @@
+import {
+  DecodeError,
+  type Json,
+  type JsonObject,
+  asObject,
+  collection,
+  field,
+  flag,
+  isObject,
+  mergeFields,
+  num,
+  optNum,
+  optStr,
+  resource,
+  statValue,
+  str,
+} from "./decode";
+import type {
+  League,
+  LeagueSettings,
+  Manager,
+  Matchup,
+  MatchupTeam,
+  Roster,
+  RosterPlayer,
+  ScoreboardWeek,
+  StatCategory,
+  StatValues,
+  StatWinner,
+  Team,
+  TeamStanding,
+  Transaction,
+  TransactionPlayer,
+} from "./types";
+
+/* =========================
+   Resource decoders
+   ========================= */
+
+function fantasyContent(json: Json, key: string) {
+  const root = asObject(json, "$");
+  const content = asObject(field(root, "fantasy_content", "$"), "$.fantasy_content");
+  const path = `$.fantasy_content.${key}`;
+  return { ...resource(field(content, key, "$.fantasy_content"), path), path };
+}
+
+// Some sub-resources (settings, standings) come wrapped in a one-element array.
+function subObject(value: Json, path: string): JsonObject {
+  return Array.isArray(value) ? mergeFields(value, path) : asObject(value, path);
+}
+
+function decodeLeagueMeta(meta: JsonObject, path: string): League {
+  return {
+    key: str(meta, "league_key", path),
+    id: str(meta, "league_id", path),
+    name: str(meta, "name", path),
+    season: num(meta, "season", path),
+    currentWeek: optNum(meta, "current_week", path),
+    startWeek: optNum(meta, "start_week", path),
+    endWeek: optNum(meta, "end_week", path),
+    numTeams: optNum(meta, "num_teams", path),
+    isFinished: flag(meta, "is_finished"),
+  };
+}
+
+export function decodeLeague(json: Json): League {
+  const { meta, path } = fantasyContent(json, "league");
+  return decodeLeagueMeta(meta, path);
+}
+
+function decodeManagers(value: Json, path: string): Manager[] {
+  return collection(value, "manager", path).map(({ value: node, path: p }) => {
+    const m = asObject(node, p);
+    return {
+      id: str(m, "manager_id", p),
+      guid: optStr(m, "guid", p),
+      nickname: optStr(m, "nickname", p),
+      isCommissioner: flag(m, "is_commissioner"),
+    };
+  });
+}
+
+function decodeLogo(value: Json, path: string): string | null {
+  const logos = collection(value, "team_logo", path);
+  if (!logos.length) return null;
+  return optStr(asObject(logos[0].value, logos[0].path), "url", logos[0].path);
+}
+
+function decodeTeamMeta(meta: JsonObject, path: string): Team {
+  return {
+    key: str(meta, "team_key", path),
+    id: str(meta, "team_id", path),
+    name: str(meta, "name", path),
+    logoUrl: meta.team_logos ? decodeLogo(meta.team_logos, `${path}.team_logos`) : null,
+    managers: meta.managers ? decodeManagers(meta.managers, `${path}.managers`) : [],
+    moves: optNum(meta, "number_of_moves", path),
+    trades: optNum(meta, "number_of_trades", path),
+  };
+}
+
+function decodeStatValues(value: Json, path: string): StatValues {
+  const out: StatValues = {};
+  for (const { value: node, path: p } of collection(value, "stat", path)) {
+    const stat = asObject(node, p);
+    out[str(stat, "stat_id", p)] = statValue(stat.value, `${p}.value`);
+  }
+  return out;
+}
+
+export function decodeTeams(json: Json): Team[] {
+  const { subs, path } = fantasyContent(json, "league");
+  const teamsPath = `${path}.teams`;
+  return collection(field(subs, "teams", path), "team", teamsPath).map(({ value, path: p }) =>
+    decodeTeamMeta(resource(value, p).meta, p)
+  );
+}
+
+function decodeStatCategory(node: Json, path: string): StatCategory {
+  const stat = asObject(node, path);
+  const name = optStr(stat, "name", path);
+  const displayName = optStr(stat, "display_name", path) ?? optStr(stat, "abbr", path) ?? name;
+  const id = str(stat, "stat_id", path);
+  return {
+    id,
+    name: name ?? displayName ?? id,
+    displayName: displayName ?? id,
+    sortOrder: optNum(stat, "sort_order", path),
+    decimalPlaces: optNum(stat, "decimal_places", path),
+    positionType: optStr(stat, "position_type", path),
+    isOnlyDisplay: flag(stat, "is_only_display_stat"),
+    enabled: stat.enabled == null ? true : flag(stat, "enabled"),
+  };
+}
+
+export function decodeSettings(json: Json): LeagueSettings {
+  const { subs, path } = fantasyContent(json, "league");
+  const settingsPath = `${path}.settings`;
+  const settings = subObject(field(subs, "settings", path), settingsPath);
+  const catsPath = `${settingsPath}.stat_categories`;
+  const statCategories = asObject(field(settings, "stat_categories", settingsPath), catsPath);
+  const categories = collection(field(statCategories, "stats", catsPath), "stat", `${catsPath}.stats`).map(
+    ({ value, path: p }) => decodeStatCategory(value, p)
+  );
+  return {
+    categories,
+    usesPlayoff: settings.uses_playoff == null ? true : flag(settings, "uses_playoff"),
+    playoffStartWeek: optNum(settings, "playoff_start_week", settingsPath),
+    numPlayoffTeams: optNum(settings, "num_playoff_teams", settingsPath),
+    numPlayoffConsolationTeams: optNum(settings, "num_playoff_consolation_teams", settingsPath),
+    hasPlayoffConsolationGames: flag(settings, "has_playoff_consolation_games"),
+  };
+}
+
+export function decodeStandings(json: Json): TeamStanding[] {
+  const { subs, path } = fantasyContent(json, "league");
+  const standingsPath = `${path}.standings`;
+  const standings = subObject(field(subs, "standings", path), standingsPath);
+  return collection(field(standings, "teams", standingsPath), "team", `${standingsPath}.teams`).map(
+    ({ value, path: p }) => {
+      const { meta, subs: teamSubs } = resource(value, p);
+      const team = decodeTeamMeta(meta, p);
+      const tsPath = `${p}.team_standings`;
+      const ts = asObject(field(teamSubs, "team_standings", p), tsPath);
+      const totals = asObject(field(ts, "outcome_totals", tsPath), `${tsPath}.outcome_totals`);
+      const totalsPath = `${tsPath}.outcome_totals`;
+      return {
+        teamKey: team.key,
+        teamName: team.name,
+        rank: optNum(ts, "rank", tsPath),
+        playoffSeed: optNum(ts, "playoff_seed", tsPath),
+        wins: num(totals, "wins", totalsPath),
+        losses: num(totals, "losses", totalsPath),
+        ties: num(totals, "ties", totalsPath),
+        percentage: optNum(totals, "percentage", totalsPath),
+        moves: team.moves,
+        trades: team.trades,
+      };
+    }
+  );
+}
+
+function decodeMatchupTeam(value: Json, path: string): MatchupTeam {
+  const { meta, subs } = resource(value, path);
+  const team = decodeTeamMeta(meta, path);
+  const statsPath = `${path}.team_stats`;
+  const teamStats = asObject(field(subs, "team_stats", path), statsPath);
+  const points = isObject(subs.team_points) ? optNum(subs.team_points, "total", `${path}.team_points`) : null;
+  return {
+    key: team.key,
+    name: team.name,
+    points,
+    stats: decodeStatValues(field(teamStats, "stats", statsPath), `${statsPath}.stats`),
+  };
+}
+
+function decodeStatWinners(value: Json, path: string): StatWinner[] {
+  return collection(value, "stat_winner", path).map(({ value: node, path: p }) => {
+    const sw = asObject(node, p);
+    return {
+      statId: str(sw, "stat_id", p),
+      winnerKey: optStr(sw, "winner_team_key", p),
+      isTied: flag(sw, "is_tied"),
+    };
+  });
+}
+
+function decodeMatchup(value: Json, path: string): Matchup {
+  const m = asObject(value, path);
+  // teams live under matchup["0"].teams
+  const holderPath = m.teams ? path : `${path}.0`;
+  const holder = m.teams ? m : asObject(field(m, "0", path), holderPath);
+  const teams = collection(field(holder, "teams", holderPath), "team", `${holderPath}.teams`).map(
+    ({ value: node, path: p }) => decodeMatchupTeam(node, p)
+  );
+  if (teams.length !== 2) {
+    throw new DecodeError(`${holderPath}.teams`, `expected 2 teams, got ${teams.length}`);
+  }
+  return {
+    week: num(m, "week", path),
+    weekStart: optStr(m, "week_start", path),
+    weekEnd: optStr(m, "week_end", path),
+    status: optStr(m, "status", path),
+    isPlayoffs: flag(m, "is_playoffs"),
+    isConsolation: flag(m, "is_consolation"),
+    isTied: flag(m, "is_tied"),
+    winnerKey: optStr(m, "winner_team_key", path),
+    teams: [teams[0], teams[1]],
+    statWinners: m.stat_winners ? decodeStatWinners(m.stat_winners, `${path}.stat_winners`) : [],
+  };
+}
+
+export function decodeScoreboard(json: Json): ScoreboardWeek {
+  const { subs, path } = fantasyContent(json, "league");
+  const sbPath = `${path}.scoreboard`;
+  const scoreboard = asObject(field(subs, "scoreboard", path), sbPath);
+  // matchups live under scoreboard["0"].matchups
+  const holderPath = scoreboard.matchups ? sbPath : `${sbPath}.0`;
+  const holder = scoreboard.matchups ? scoreboard : asObject(field(scoreboard, "0", sbPath), holderPath);
+  const matchups = collection(field(holder, "matchups", holderPath), "matchup", `${holderPath}.matchups`).map(
+    ({ value, path: p }) => decodeMatchup(value, p)
+  );
+  return {
+    week: num(scoreboard, "week", sbPath),
+    matchups,
+  };
+}
+
+function decodeRosterPlayer(value: Json, path: string): RosterPlayer {
+  const { meta, subs } = resource(value, path);
+  const nameNode = asObject(field(meta, "name", path), `${path}.name`);
+  const selected = subs.selected_position
+    ? subObject(subs.selected_position, `${path}.selected_position`)
+    : null;
+  const statsPath = `${path}.player_stats`;
+  const playerStats = subs.player_stats ? asObject(subs.player_stats, statsPath) : null;
+  return {
+    key: str(meta, "player_key", path),
+    id: str(meta, "player_id", path),
+    name: str(nameNode, "full", `${path}.name`),
+    editorialTeamAbbr: optStr(meta, "editorial_team_abbr", path),
+    displayPosition: optStr(meta, "display_position", path),
+    selectedPosition: selected ? optStr(selected, "position", `${path}.selected_position`) : null,
+    stats: playerStats ? decodeStatValues(field(playerStats, "stats", statsPath), `${statsPath}.stats`) : null,
+  };
+}
+
+export function decodeRoster(json: Json): Roster {
+  const { meta, subs, path } = fantasyContent(json, "team");
+  const rosterPath = `${path}.roster`;
+  const roster = asObject(field(subs, "roster", path), rosterPath);
+  const holderPath = roster.players ? rosterPath : `${rosterPath}.0`;
+  const holder = roster.players ? roster : asObject(field(roster, "0", rosterPath), holderPath);
+  return {
+    teamKey: str(meta, "team_key", path),
+    week: optNum(roster, "week", rosterPath),
+    players: collection(holder.players, "player", `${holderPath}.players`).map(({ value, path: p }) =>
+      decodeRosterPlayer(value, p)
+    ),
+  };
+}
+
+function decodeTransactionPlayer(value: Json, path: string): TransactionPlayer {
+  const { meta, subs } = resource(value, path);
+  const nameNode = asObject(field(meta, "name", path), `${path}.name`);
+  const dataPath = `${path}.transaction_data`;
+  const data = subObject(field(subs, "transaction_data", path), dataPath);
+  return {
+    key: str(meta, "player_key", path),
+    name: str(nameNode, "full", `${path}.name`),
+    type: str(data, "type", dataPath),
+    sourceType: optStr(data, "source_type", dataPath),
+    sourceTeamKey: optStr(data, "source_team_key", dataPath),
+    destinationType: optStr(data, "destination_type", dataPath),
+    destinationTeamKey: optStr(data, "destination_team_key", dataPath),
+  };
+}
+
+export function decodeTransactions(json: Json): Transaction[] {
+  const { subs, path } = fantasyContent(json, "league");
+  return collection(subs.transactions, "transaction", `${path}.transactions`).map(({ value, path: p }) => {
+    const { meta, subs: txSubs } = resource(value, p);
+    return {
+      key: str(meta, "transaction_key", p),
+      type: str(meta, "type", p),
+      status: optStr(meta, "status", p),
+      timestamp: num(meta, "timestamp", p) * 1000,
+      traderTeamKey: optStr(meta, "trader_team_key", p),
+      tradeeTeamKey: optStr(meta, "tradee_team_key", p),
+      players: collection(txSubs.players, "player", `${p}.players`).map(({ value: node, path: pp }) =>
+        decodeTransactionPlayer(node, pp)
+      ),
+    };
+  });
+}
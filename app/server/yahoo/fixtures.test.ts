@@ -0,0 +1,64 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { YAHOO_BASE, type YahooResponse } from "./client";
+import { createRecordingFetch, createReplayFetch, fixtureName, yahooModeFromEnv } from "./fixtures";
+
+const dirs: string[] = [];
+
+function tempDir() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hrhl-fixtures-"));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("fixtureName", () => {
+  it("turns a Yahoo URL into a readable file name", () => {
+    expect(fixtureName(`${YAHOO_BASE}/league/453.l.1520/scoreboard;week=3?format=json`)).toBe(
+      "league_453.l.1520_scoreboard_week=3"
+    );
+    expect(fixtureName(`${YAHOO_BASE}/games;game_codes=nhl;seasons=2024?format=json`)).toBe(
+      "games_game_codes=nhl_seasons=2024"
+    );
+    expect(fixtureName(`${YAHOO_BASE}/league/453.l.1520/players;player_keys=453.p.1%2C453.p.2/stats`)).toBe(
+      "league_453.l.1520_players_player_keys=453.p.1_453.p.2_stats"
+    );
+  });
+});
+
+describe("record / replay", () => {
+  it("replays what was recorded, and 404s for anything else", async () => {
+    const dir = tempDir();
+    const url = `${YAHOO_BASE}/league/453.l.1520/settings?format=json`;
+    const json = { fantasy_content: { league: [{ league_key: "453.l.1520" }] } };
+    const yahoo = async (requested: string): Promise<YahooResponse> =>
+      requested === url
+        ? { ok: true, status: 200, json, text: JSON.stringify(json) }
+        : { ok: false, status: 500, json: null, text: "down" };
+
+    const record = createRecordingFetch(dir, yahoo);
+    expect((await record(url, "token")).json).toEqual(json);
+    // failures pass through without leaving a fixture behind
+    const broken = `${YAHOO_BASE}/league/453.l.1520/teams?format=json`;
+    expect((await record(broken, "token")).status).toBe(500);
+    expect(fs.readdirSync(dir)).toEqual(["league_453.l.1520_settings.json"]);
+
+    const replay = createReplayFetch(dir);
+    expect(await replay(url, "")).toMatchObject({ ok: true, status: 200, json });
+    expect(await replay(broken, "")).toMatchObject({ ok: false, status: 404, json: null });
+  });
+});
+
+describe("yahooModeFromEnv", () => {
+  it("defaults to live and rejects unknown modes", () => {
+    expect(yahooModeFromEnv({})).toBe("live");
+    expect(yahooModeFromEnv({ YAHOO_MODE: "Replay" })).toBe("replay");
+    expect(() => yahooModeFromEnv({ YAHOO_MODE: "mock" })).toThrow(/Unknown YAHOO_MODE/);
+  });
+});
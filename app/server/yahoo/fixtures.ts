@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+
+import { YAHOO_BASE, type YahooResponse, yahooGetJSON } from "./client";
+import type { Json } from "./decode";
+
+/* =========================
+   Yahoo fixtures (record / replay)
+   =========================
+   YAHOO_MODE=record passes every request through to Yahoo and saves each
+   successful response as <fixtureDir>/<name>.json; YAHOO_MODE=replay serves
+   those files back without credentials or network, answering 404 for
+   anything that was never recorded (which reads as "week doesn't exist").
+*/
+
+export type YahooMode = "live" | "record" | "replay";
+
+type FetchJson = (url: string, accessToken: string) => Promise<YahooResponse>;
+
+interface FixtureFile {
+  url: string;
+  recordedAt: string;
+  json: Json;
+}
+
+// ".../league/453.l.1520/scoreboard;week=3?format=json" -> "league_453.l.1520_scoreboard_week=3"
+export function fixtureName(url: string) {
+  const rest = url.startsWith(YAHOO_BASE) ? url.slice(YAHOO_BASE.length) : url;
+  return decodeURIComponent(rest.replace(/\?format=json$/, ""))
+    .replace(/^\/+/, "")
+    .replace(/[^\w.=-]+/g, "_");
+}
+
+export function createRecordingFetch(fixtureDir: string, inner: FetchJson = yahooGetJSON): FetchJson {
+  return async (url, accessToken) => {
+    const response = await inner(url, accessToken);
+    if (response.ok && response.json != null) {
+      const file = path.join(fixtureDir, `${fixtureName(url)}.json`);
+      const fixture: FixtureFile = { url, recordedAt: new Date().toISOString(), json: response.json };
+      await fs.promises.mkdir(fixtureDir, { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2));
+    }
+    return response;
+  };
+}
+
+export function createReplayFetch(fixtureDir: string): FetchJson {
+  return async (url) => {
+    const file = path.join(fixtureDir, `${fixtureName(url)}.json`);
+    let txt: string;
+    try {
+      txt = await fs.promises.readFile(file, "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") throw e;
+      return { ok: false, status: 404, json: null, text: `No fixture recorded for ${url}` };
+    }
+    const fixture = JSON.parse(txt) as FixtureFile;
+    return { ok: true, status: 200, json: fixture.json, text: txt };
+  };
+}
+
+export function yahooModeFromEnv(env: NodeJS.ProcessEnv): YahooMode {
+  const mode = (env.YAHOO_MODE || "live").toLowerCase();
+  if (mode === "live" || mode === "record" || mode === "replay") return mode;
+  throw new Error(`Unknown YAHOO_MODE "${env.YAHOO_MODE}" (expected live, record or replay)`);
+}
+
+export function createFetchForMode(mode: YahooMode, fixtureDir: string): FetchJson {
+  if (mode === "record") return createRecordingFetch(fixtureDir);
+  if (mode === "replay") return createReplayFetch(fixtureDir);
+  return yahooGetJSON;
+}
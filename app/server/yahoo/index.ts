@@ -0,0 +1,7 @@
+export * from "./client";
+export * from "./decoders";
+export * from "./fixtures";
+export * from "./responseCache";
+export * from "./scheduler";
+export * from "./types";
+export { DecodeError } from "./decode";
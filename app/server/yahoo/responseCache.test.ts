@@ -0,0 +1,55 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createFileResponseCache, scoreboardEntry } from "./responseCache";
+
+const dirs: string[] = [];
+
+function tempCache() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hrhl-cache-"));
+  dirs.push(dir);
+  return { dir, cache: createFileResponseCache(dir) };
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createFileResponseCache", () => {
+  it("reads back what it wrote, one file per resource", async () => {
+    const { dir, cache } = tempCache();
+    const json = { fantasy_content: { league: [{ league_key: "453.l.1520" }] } };
+    expect(await cache.read("453.l.1520", "settings")).toBeNull();
+
+    await cache.write("453.l.1520", "settings", json);
+    await cache.write("453.l.1520", "settings", json);
+    expect(await cache.read("453.l.1520", "settings")).toEqual(json);
+    expect(fs.readdirSync(path.join(dir, "453.l.1520"))).toEqual(["settings.json"]);
+  });
+
+  it("drops one resource, or a whole league", async () => {
+    const { cache } = tempCache();
+    for (const week of [1, 2]) await cache.write("453.l.1520", scoreboardEntry(week), { week });
+    await cache.write("453.l.1520", "teams", {});
+    await cache.write("427.l.1520", "teams", {});
+
+    expect(await cache.invalidate("453.l.1520", scoreboardEntry(2))).toEqual(["scoreboard-week-2"]);
+    expect(await cache.invalidate("453.l.1520", scoreboardEntry(2))).toEqual([]);
+    expect(await cache.read("453.l.1520", scoreboardEntry(1))).toEqual({ week: 1 });
+
+    expect((await cache.invalidate("453.l.1520")).sort()).toEqual(["scoreboard-week-1", "teams"]);
+    expect(await cache.read("453.l.1520", "teams")).toBeNull();
+    expect(await cache.invalidate("453.l.1520")).toEqual([]);
+    // other leagues are left alone
+    expect(await cache.read("427.l.1520", "teams")).toEqual({});
+  });
+
+  it("refuses keys that would leave the cache directory", async () => {
+    const { cache } = tempCache();
+    await expect(cache.write("../453.l.1520", "teams", {})).rejects.toThrow(/Invalid cache key/);
+    await expect(cache.read("453.l.1520", "../teams")).rejects.toThrow(/Invalid cache key/);
+    await expect(cache.invalidate("..")).rejects.toThrow(/Invalid cache key/);
+  });
+});
@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+
+import type { Json } from "./decode";
+
+/* =========================
+   Durable Yahoo response cache
+   =========================
+   Raw Yahoo JSON for resources that can no longer change (finalized
+   scoreboard weeks; settings and team directories of finished seasons), one
+   file per resource under <dir>/<leagueKey>/. Raw responses rather than
+   decoded objects, so decoder fixes apply to cached seasons too.
+*/
+
+export interface ResponseCache {
+  read(leagueKey: string, name: string): Promise<Json | null>;
+  write(leagueKey: string, name: string, json: Json): Promise<void>;
+  // drops one resource, or the whole league when `name` is omitted; returns what was removed
+  invalidate(leagueKey: string, name?: string): Promise<string[]>;
+}
+
+export function scoreboardEntry(week: number) {
+  return `scoreboard-week-${week}`;
+}
+
+// league keys look like "453.l.1520"; anything else must not become a path
+function safeSegment(value: string) {
+  if (!/^[\w.-]+$/.test(value) || value.startsWith(".")) throw new Error(`Invalid cache key: ${value}`);
+  return value;
+}
+
+export function createFileResponseCache(dir: string): ResponseCache {
+  const leagueDir = (leagueKey: string) => path.join(dir, safeSegment(leagueKey));
+  const entryPath = (leagueKey: string, name: string) => path.join(leagueDir(leagueKey), `${safeSegment(name)}.json`);
+
+  return {
+    async read(leagueKey, name) {
+      const file = entryPath(leagueKey, name);
+      try {
+        return JSON.parse(await fs.promises.readFile(file, "utf8")) as Json;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") {
+          console.warn(`response cache: could not read ${file}: ${e}`);
+        }
+        return null;
+      }
+    },
+    async write(leagueKey, name, json) {
+      const file = entryPath(leagueKey, name);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      // write-then-rename so a crash mid-write never leaves a truncated file
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(json));
+      await fs.promises.rename(tmp, file);
+    },
+    async invalidate(leagueKey, name) {
+      if (name != null) {
+        try {
+          await fs.promises.unlink(entryPath(leagueKey, name));
+          return [name];
+        } catch (e) {
+          if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+          throw e;
+        }
+      }
+      let files: string[];
+      try {
+        files = await fs.promises.readdir(leagueDir(leagueKey));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+        throw e;
+      }
+      await fs.promises.rm(leagueDir(leagueKey), { recursive: true, force: true });
+      return files.filter((f) => f.endsWith(".json")).map((f) => f.slice(0, -".json".length));
+    },
+  };
+}
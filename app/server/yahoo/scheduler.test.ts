@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import { YahooHttpError } from "./client";
+import { type SchedulerOptions, createFetchScheduler, createFetchSchedulerFromEnv } from "./scheduler";
+
+const START = Date.UTC(2024, 0, 1);
+
+// A scheduler on a fake clock: sleeping moves time forward at once, and
+// every sleep is recorded.
+function fakeClock(options: SchedulerOptions = {}) {
+  let t = START;
+  const sleeps: number[] = [];
+  const scheduler = createFetchScheduler({
+    ...options,
+    now: () => t,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      t += ms;
+    },
+  });
+  return { scheduler, sleeps, elapsed: () => t - START };
+}
+
+// Fails with each error in turn, then answers "ok".
+function flaky(...errors: Error[]) {
+  const task = async () => {
+    task.calls++;
+    const e = errors.shift();
+    if (e) throw e;
+    return "ok";
+  };
+  task.calls = 0;
+  return task;
+}
+
+const httpError = (status: number, retryAfter: string | null = null) =>
+  new YahooHttpError("https://example.test", status, "", retryAfter);
+
+describe("createFetchScheduler", () => {
+  it("keeps at most `concurrency` tasks in flight", async () => {
+    const { scheduler } = fakeClock({ concurrency: 2, burst: 10 });
+    let inFlight = 0;
+    let most = 0;
+    const task = async () => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+    };
+    await Promise.all([1, 2, 3, 4, 5, 6].map(() => scheduler.run(task)));
+    expect(most).toBe(2);
+  });
+
+  it("starts requests no faster than the token bucket refills", async () => {
+    const { scheduler, elapsed } = fakeClock({ concurrency: 10, ratePerSecond: 2, burst: 2 });
+    const starts = await Promise.all([1, 2, 3, 4, 5].map(() => scheduler.run(async () => elapsed())));
+    // the burst goes at once, then one every half second
+    expect(starts).toEqual([0, 0, 500, 1000, 1500]);
+  });
+
+  it("retries 5xx with growing, jittered backoff", async () => {
+    const { scheduler, sleeps } = fakeClock({ baseDelayMs: 100, maxDelayMs: 1_000 });
+    const task = flaky(httpError(503), httpError(502));
+    expect(await scheduler.run(task)).toBe("ok");
+    expect(task.calls).toBe(3);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(50);
+    expect(sleeps[0]).toBeLessThanOrEqual(100);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(100);
+    expect(sleeps[1]).toBeLessThanOrEqual(200);
+  });
+
+  it("gives up after maxRetries and never retries a 404", async () => {
+    const { scheduler, sleeps } = fakeClock({ maxRetries: 2 });
+    const down = flaky(httpError(500), httpError(500), httpError(500), httpError(500));
+    await expect(scheduler.run(down)).rejects.toThrow(/Yahoo 500/);
+    expect(down.calls).toBe(3);
+
+    sleeps.length = 0;
+    const missing = flaky(httpError(404));
+    await expect(scheduler.run(missing)).rejects.toThrow(/Yahoo 404/);
+    expect(missing.calls).toBe(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("waits as long as a 429's Retry-After asks", async () => {
+    const { scheduler, sleeps } = fakeClock();
+    const inSeconds = flaky(httpError(429, "3"));
+    expect(await scheduler.run(inSeconds)).toBe("ok");
+    // the clock has moved on 3 s, so this date is 2 s away
+    const asDate = flaky(httpError(429, new Date(START + 5_000).toUTCString()));
+    expect(await scheduler.run(asDate)).toBe("ok");
+    expect(sleeps).toEqual([3_000, 2_000]);
+
+    // anything past a minute fails now rather than holding the request
+    const later = flaky(httpError(429, "120"));
+    await expect(scheduler.run(later)).rejects.toThrow(/Yahoo 429/);
+    expect(later.calls).toBe(1);
+  });
+});
+
+describe("createFetchSchedulerFromEnv", () => {
+  it("turns retries off with YAHOO_MAX_RETRIES=0", async () => {
+    const scheduler = createFetchSchedulerFromEnv({ YAHOO_MAX_RETRIES: "0" });
+    const task = flaky(httpError(503));
+    await expect(scheduler.run(task)).rejects.toThrow(/Yahoo 503/);
+    expect(task.calls).toBe(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { YahooHttpError } from "./client";
+
+/* =========================
+   Fetch scheduler
+   =========================
+   Every Yahoo request goes through one scheduler: at most `concurrency`
+   requests in flight, started no faster than the token bucket allows, and
+   429/5xx/network failures retried with exponential backoff, or after as
+   long as a 429's Retry-After asks. Anything else (404, decode errors, auth
+   failures) is thrown straight back to the caller.
+*/
+
+// a Retry-After longer than this fails the request instead of holding it
+const MAX_RETRY_AFTER_MS = 60_000;
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  // token bucket: sustained requests per second, and how many may burst
+  ratePerSecond?: number;
+  burst?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface FetchScheduler {
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function isRetryable(e: unknown) {
+  if (e instanceof YahooHttpError) return e.status === 429 || e.status >= 500;
+  // node-fetch network failures (DNS, reset sockets)
+  return e instanceof Error && e.name === "FetchError";
+}
+
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  // full jitter keeps parallel retries from landing on Yahoo together
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+// Retry-After is either delay-seconds or an HTTP date.
+export function retryAfterDelay(e: unknown, now: number) {
+  if (!(e instanceof YahooHttpError) || !e.retryAfter) return null;
+  const value = e.retryAfter.trim();
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value) - now;
+  return Number.isFinite(ms) ? Math.max(0, ms) : null;
+}
+
+export function createFetchScheduler({
+  concurrency = 4,
+  ratePerSecond = 5,
+  burst = concurrency,
+  maxRetries = 3,
+  baseDelayMs = 500,
+  maxDelayMs = 8_000,
+  sleep = defaultSleep,
+  now = Date.now,
+}: SchedulerOptions = {}): FetchScheduler {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  let tokens = burst;
+  let refilledAt = now();
+  // serialises token acquisition so waiters are served in arrival order
+  let bucketQueue = Promise.resolve();
+
+  async function acquireSlot() {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+
+  function releaseSlot() {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+
+  function takeToken() {
+    const turn = bucketQueue.then(async () => {
+      for (;;) {
+        const t = now();
+        tokens = Math.min(burst, tokens + ((t - refilledAt) / 1000) * ratePerSecond);
+        refilledAt = t;
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(Math.ceil(((1 - tokens) / ratePerSecond) * 1000));
+      }
+    });
+    bucketQueue = turn;
+    return turn;
+  }
+
+  async function run<T>(task: () => Promise<T>): Promise<T> {
+    await acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await takeToken();
+        try {
+          return await task();
+        } catch (e) {
+          if (attempt >= maxRetries || !isRetryable(e)) throw e;
+          const asked = retryAfterDelay(e, now());
+          if (asked != null && asked > MAX_RETRY_AFTER_MS) throw e;
+          await sleep(asked ?? backoffDelay(attempt, baseDelayMs, maxDelayMs));
+        }
+      }
+    } finally {
+      releaseSlot();
+    }
+  }
+
+  return { run };
+}
+
+function envNumber(value: string | undefined, { allowZero = false } = {}) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && (n > 0 || (allowZero && n === 0)) ? n : undefined;
+}
+
+export function createFetchSchedulerFromEnv(env: NodeJS.ProcessEnv) {
+  return createFetchScheduler({
+    concurrency: envNumber(env.YAHOO_CONCURRENCY),
+    ratePerSecond: envNumber(env.YAHOO_RATE_PER_SEC),
+    // 0 turns retries off
+    maxRetries: envNumber(env.YAHOO_MAX_RETRIES, { allowZero: true }),
+  });
+}
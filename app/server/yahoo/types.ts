@@ -0,0 +1,138 @@
+/* =========================
+   Yahoo Fantasy domain types
+   ========================= */
+
+export type StatValues = Record<string, number | null>;
+
+export interface League {
+  key: string;
+  id: string;
+  name: string;
+  season: number;
+  currentWeek: number | null;
+  startWeek: number | null;
+  endWeek: number | null;
+  numTeams: number | null;
+  isFinished: boolean;
+}
+
+export interface Manager {
+  id: string;
+  guid: string | null;
+  nickname: string | null;
+  isCommissioner: boolean;
+}
+
+export interface Team {
+  key: string;
+  id: string;
+  name: string;
+  logoUrl: string | null;
+  managers: Manager[];
+  moves: number | null;
+  trades: number | null;
+}
+
+export interface StatCategory {
+  id: string;
+  name: string;
+  displayName: string;
+  // Yahoo's sort_order: 1 = higher is better, 0 = lower is better
+  sortOrder: number | null;
+  decimalPlaces: number | null;
+  positionType: string | null;
+  isOnlyDisplay: boolean;
+  enabled: boolean;
+}
+
+export interface LeagueSettings {
+  categories: StatCategory[];
+  usesPlayoff: boolean;
+  playoffStartWeek: number | null;
+  numPlayoffTeams: number | null;
+  numPlayoffConsolationTeams: number | null;
+  hasPlayoffConsolationGames: boolean;
+}
+
+export interface TeamStanding {
+  teamKey: string;
+  teamName: string;
+  rank: number | null;
+  playoffSeed: number | null;
+  wins: number;
+  losses: number;
+  ties: number;
+  percentage: number | null;
+  moves: number | null;
+  trades: number | null;
+}
+
+export interface StatWinner {
+  statId: string;
+  winnerKey: string | null;
+  isTied: boolean;
+}
+
+export interface MatchupTeam {
+  key: string;
+  name: string;
+  points: number | null;
+  stats: StatValues;
+}
+
+export interface Matchup {
+  week: number;
+  // "YYYY-MM-DD", inclusive
+  weekStart: string | null;
+  weekEnd: string | null;
+  status: string | null;
+  isPlayoffs: boolean;
+  isConsolation: boolean;
+  isTied: boolean;
+  winnerKey: string | null;
+  teams: [MatchupTeam, MatchupTeam];
+  statWinners: StatWinner[];
+}
+
+export interface ScoreboardWeek {
+  week: number;
+  matchups: Matchup[];
+}
+
+export interface RosterPlayer {
+  key: string;
+  id: string;
+  name: string;
+  editorialTeamAbbr: string | null;
+  displayPosition: string | null;
+  selectedPosition: string | null;
+  stats: StatValues | null;
+}
+
+export interface Roster {
+  teamKey: string;
+  week: number | null;
+  players: RosterPlayer[];
+}
+
+export type TransactionType = "add" | "drop" | "add/drop" | "trade" | "commish" | string;
+
+export interface TransactionPlayer {
+  key: string;
+  name: string;
+  type: string;
+  sourceType: string | null;
+  sourceTeamKey: string | null;
+  destinationType: string | null;
+  destinationTeamKey: string | null;
+}
+
+export interface Transaction {
+  key: string;
+  type: TransactionType;
+  status: string | null;
+  timestamp: number; // epoch ms
+  traderTeamKey: string | null;
+  tradeeTeamKey: string | null;
+  players: TransactionPlayer[];
+}
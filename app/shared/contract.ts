@@ -0,0 +1,798 @@
+import { z } from "zod";
+
+/* =========================
+   API contract
+   =========================
+   Response shapes shared by the server routes and the dashboard. The server
+   validates every payload against these schemas outside production, so a
+   renamed or retyped field fails at the route instead of in a chart.
+   The client only imports the inferred types.
+*/
+
+export const ErrorResponse = z.object({
+  error: z.string(),
+});
+export type ErrorResponse = z.infer<typeof ErrorResponse>;
+
+export const Category = z.object({
+  id: z.string(),
+  name: z.string(),
+  display_name: z.string(),
+  sort_order: z.number().nullable(),
+  decimal_places: z.number().nullable(),
+  position_type: z.string().nullable(),
+  is_only_display: z.boolean(),
+});
+export type Category = z.infer<typeof Category>;
+
+const SeasonScope = {
+  league: z.string(),
+  season_year: z.number().int(),
+  league_key: z.string(),
+};
+
+// Partial-data notices: the response is still usable, but something (e.g. a
+// scoreboard week that kept failing after retries) is missing from it.
+export const ApiWarning = z.object({
+  code: z.string(),
+  message: z.string(),
+  week: z.number().int().optional(),
+  status: z.number().int().optional(),
+});
+export type ApiWarning = z.infer<typeof ApiWarning>;
+
+/* ---------- /api/leagues ---------- */
+
+export const LeaguesResponse = z.object({
+  leagues: z.array(
+    z.object({
+      slug: z.string(),
+      name: z.string(),
+      default: z.boolean(),
+      defaultYear: z.number().int().nullable(),
+      seasons: z.array(z.object({ year: z.number().int(), leagueKey: z.string() })),
+    })
+  ),
+});
+export type LeaguesResponse = z.infer<typeof LeaguesResponse>;
+
+/* ---------- /api/weekly-matrix ---------- */
+
+export const MatchResult = z.enum(["W", "L", "T"]);
+export type MatchResult = z.infer<typeof MatchResult>;
+
+// Yahoo flags consolation games as playoffs too; "consolation" wins.
+export const MatchupStage = z.enum(["regular", "playoffs", "consolation"]);
+export type MatchupStage = z.infer<typeof MatchupStage>;
+
+export const WeeklyMatrixResponse = z.object({
+  ...SeasonScope,
+  teams: z.array(z.string()),
+  // Yahoo team keys, parallel to teams
+  teamKeys: z.array(z.string()),
+  // stable across seasons (see /api/managers), parallel to teams
+  managerIds: z.array(z.string()),
+  weeks: z.array(z.number().int()),
+  points: z.array(z.array(z.number().nullable())),
+  outcome: z.array(z.array(MatchResult.nullable())),
+  oppPoints: z.array(z.array(z.number().nullable())),
+  oppName: z.array(z.array(z.string())),
+  stage: z.array(z.array(MatchupStage.nullable())),
+  warnings: z.array(ApiWarning),
+});
+export type WeeklyMatrixResponse = z.infer<typeof WeeklyMatrixResponse>;
+
+/* ---------- /api/category-stats ---------- */
+
+export const CategoryOutcome = z.object({
+  wins: z.number(),
+  losses: z.number(),
+  ties: z.number(),
+  winPct: z.number().nullable(),
+  played: z.number(),
+});
+export type CategoryOutcome = z.infer<typeof CategoryOutcome>;
+
+export const CategoryStatsTeam = z.object({
+  key: z.string(),
+  name: z.string(),
+  managerId: z.string(),
+  totals: z.record(z.number()),
+  // what each rate in `totals` is taken over, in its category's sampleLabel
+  samples: z.record(z.number()),
+  outcomes: z.record(CategoryOutcome),
+});
+export type CategoryStatsTeam = z.infer<typeof CategoryStatsTeam>;
+
+// A category with how it is scored: where lower wins, and whether its season
+// figure is a rate rather than a total. A rate's sample is counted in
+// sampleLabel units: a component such as "SA" or "TOI", or "weeks".
+export const ScoredCategory = Category.extend({
+  higherIsBetter: z.boolean(),
+  isRate: z.boolean(),
+  sampleLabel: z.string().nullable(),
+});
+export type ScoredCategory = z.infer<typeof ScoredCategory>;
+
+export const CategoryStatsResponse = z.object({
+  ...SeasonScope,
+  categories: z.array(ScoredCategory),
+  teams: z.array(CategoryStatsTeam),
+  generated_at: z.string(),
+  from_week: z.number().int(),
+  to_week: z.number().int(),
+  warnings: z.array(ApiWarning),
+});
+export type CategoryStatsResponse = z.infer<typeof CategoryStatsResponse>;
+
+/* ---------- /api/season-analytics ---------- */
+
+export const SharpeEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  categories: z.array(
+    z.object({
+      statId: z.string(),
+      label: z.string(),
+      mean: z.number(),
+      stdDev: z.number(),
+      sharpe: z.number().nullable(),
+      samples: z.number().int(),
+    })
+  ),
+});
+export type SharpeEntry = z.infer<typeof SharpeEntry>;
+
+export const EbitdaEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  totalDelta: z.number(),
+  categories: z.array(
+    z.object({
+      statId: z.string(),
+      label: z.string(),
+      actual: z.number(),
+      expected: z.number(),
+      delta: z.number(),
+    })
+  ),
+});
+export type EbitdaEntry = z.infer<typeof EbitdaEntry>;
+
+export const ContributionEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  total: z.number(),
+  categories: z.array(
+    z.object({
+      statId: z.string(),
+      label: z.string(),
+      value: z.number(),
+    })
+  ),
+});
+export type ContributionEntry = z.infer<typeof ContributionEntry>;
+
+export const RosterMovesEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  moves: z.number(),
+  trades: z.number(),
+  wins: z.number(),
+  losses: z.number(),
+  ties: z.number(),
+  winPct: z.number().nullable(),
+});
+export type RosterMovesEntry = z.infer<typeof RosterMovesEntry>;
+
+export const SeasonAnalyticsResponse = z.object({
+  ...SeasonScope,
+  from: z.number().int(),
+  to: z.number().int(),
+  sharpe: z.array(SharpeEntry),
+  ebitda: z.array(EbitdaEntry),
+  contributionTree: z.array(ContributionEntry),
+  rosterMoves: z.array(RosterMovesEntry),
+  warnings: z.array(ApiWarning),
+});
+export type SeasonAnalyticsResponse = z.infer<typeof SeasonAnalyticsResponse>;
+
+/* ---------- /api/player-contributions ---------- */
+
+export const PlayerContribution = z.object({
+  playerKey: z.string(),
+  name: z.string(),
+  nhlTeam: z.string().nullable(),
+  position: z.string().nullable(),
+  // weeks the player sat in an active lineup slot
+  weeksActive: z.number().int(),
+  // season totals; the player's own season rate for rate stats
+  totals: z.record(z.number()),
+  // fraction of the team's category total, or for rate stats of the sample
+  // behind the rate (shots faced, minutes)
+  share: z.record(z.number().nullable()),
+  // category wins credited by the player's weekly share, turned around
+  // where lower is better
+  categoryWins: z.record(z.number()),
+});
+export type PlayerContribution = z.infer<typeof PlayerContribution>;
+
+export const PlayerContributionsResponse = z.object({
+  ...SeasonScope,
+  team: z.object({ key: z.string(), name: z.string() }),
+  weeks: z.array(z.number().int()),
+  categories: z.array(Category),
+  teamTotals: z.record(z.number()),
+  teamCategoryWins: z.record(z.number()),
+  // team total not covered by active roster slots (daily lineup changes);
+  // counting stats only
+  unattributed: z.record(z.number()),
+  players: z.array(PlayerContribution),
+  warnings: z.array(ApiWarning),
+});
+export type PlayerContributionsResponse = z.infer<typeof PlayerContributionsResponse>;
+
+/* ---------- /api/transactions ---------- */
+
+export const TransactionPlayer = z.object({
+  playerKey: z.string(),
+  name: z.string(),
+  // "add", "drop" or "trade"
+  action: z.string(),
+  fromTeamKey: z.string().nullable(),
+  toTeamKey: z.string().nullable(),
+  // "freeagents", "waivers" or "team"
+  sourceType: z.string().nullable(),
+  destinationType: z.string().nullable(),
+});
+export type TransactionPlayer = z.infer<typeof TransactionPlayer>;
+
+export const TransactionEntry = z.object({
+  key: z.string(),
+  type: z.string(),
+  status: z.string().nullable(),
+  timestamp: z.string(),
+  // fantasy week the move landed in; null outside the season's schedule
+  week: z.number().int().nullable(),
+  // every team the move touched
+  teams: z.array(z.object({ key: z.string(), name: z.string() })),
+  players: z.array(TransactionPlayer),
+});
+export type TransactionEntry = z.infer<typeof TransactionEntry>;
+
+export const TransactionsResponse = z.object({
+  ...SeasonScope,
+  transactions: z.array(TransactionEntry),
+  warnings: z.array(ApiWarning),
+});
+export type TransactionsResponse = z.infer<typeof TransactionsResponse>;
+
+/* ---------- /api/trade-impact ---------- */
+
+export const CategorySplit = z.object({
+  // weekly average, since the two windows rarely have the same length
+  perWeek: z.number().nullable(),
+  wins: z.number().int(),
+  losses: z.number().int(),
+  ties: z.number().int(),
+  winPct: z.number().nullable(),
+});
+export type CategorySplit = z.infer<typeof CategorySplit>;
+
+export const TradedPlayerImpact = z.object({
+  playerKey: z.string(),
+  name: z.string(),
+  // weeks in the new team's active lineup after the trade
+  weeksActive: z.number().int(),
+  totals: z.record(z.number()),
+  perWeek: z.record(z.number().nullable()),
+});
+export type TradedPlayerImpact = z.infer<typeof TradedPlayerImpact>;
+
+export const TradeSide = z.object({
+  team: z.object({ key: z.string(), name: z.string() }),
+  received: z.array(TradedPlayerImpact),
+  sent: z.array(z.object({ playerKey: z.string(), name: z.string() })),
+  before: z.record(CategorySplit),
+  after: z.record(CategorySplit),
+});
+export type TradeSide = z.infer<typeof TradeSide>;
+
+export const TradeImpactResponse = z.object({
+  ...SeasonScope,
+  trade: TransactionEntry,
+  categories: z.array(Category),
+  // settled weeks on either side; the trade's own week is in neither
+  beforeWeeks: z.array(z.number().int()),
+  afterWeeks: z.array(z.number().int()),
+  sides: z.array(TradeSide),
+  warnings: z.array(ApiWarning),
+});
+export type TradeImpactResponse = z.infer<typeof TradeImpactResponse>;
+
+/* ---------- /api/managers ---------- */
+
+export const ManagerEntry = z.object({
+  id: z.string(),
+  name: z.string(),
+  seasons: z.array(
+    z.object({
+      year: z.number().int(),
+      teamKey: z.string(),
+      teamName: z.string(),
+    })
+  ),
+});
+export type ManagerEntry = z.infer<typeof ManagerEntry>;
+
+export const ManagersResponse = z.object({
+  league: z.string(),
+  managers: z.array(ManagerEntry),
+  warnings: z.array(ApiWarning),
+});
+export type ManagersResponse = z.infer<typeof ManagersResponse>;
+
+/* ---------- /api/head-to-head ---------- */
+
+export const HeadToHeadManager = z.object({
+  id: z.string(),
+  // team names this manager has played under, oldest first
+  names: z.array(z.string()),
+});
+export type HeadToHeadManager = z.infer<typeof HeadToHeadManager>;
+
+export const HeadToHeadGame = z.object({
+  year: z.number().int(),
+  week: z.number().int(),
+  teamA: z.object({ key: z.string(), name: z.string() }),
+  teamB: z.object({ key: z.string(), name: z.string() }),
+  // categories, from teamA's side
+  wins: z.number().int(),
+  losses: z.number().int(),
+  ties: z.number().int(),
+  result: MatchResult,
+});
+export type HeadToHeadGame = z.infer<typeof HeadToHeadGame>;
+
+export const HeadToHeadStreak = z.object({
+  result: MatchResult,
+  length: z.number().int(),
+  from: z.object({ year: z.number().int(), week: z.number().int() }),
+  to: z.object({ year: z.number().int(), week: z.number().int() }),
+});
+export type HeadToHeadStreak = z.infer<typeof HeadToHeadStreak>;
+
+export const HeadToHeadResponse = z.object({
+  league: z.string(),
+  managerA: HeadToHeadManager,
+  managerB: HeadToHeadManager,
+  seasons: z.array(z.number().int()),
+  record: z.object({ wins: z.number().int(), losses: z.number().int(), ties: z.number().int() }),
+  categoryRecords: z.array(
+    z.object({
+      statId: z.string(),
+      label: z.string(),
+      wins: z.number().int(),
+      losses: z.number().int(),
+      ties: z.number().int(),
+    })
+  ),
+  games: z.array(HeadToHeadGame),
+  // widest category margins, either direction
+  blowouts: z.array(HeadToHeadGame),
+  streaks: z.object({
+    longestA: HeadToHeadStreak.nullable(),
+    longestB: HeadToHeadStreak.nullable(),
+    current: HeadToHeadStreak.nullable(),
+  }),
+  warnings: z.array(ApiWarning),
+});
+export type HeadToHeadResponse = z.infer<typeof HeadToHeadResponse>;
+
+/* ---------- /api/records ---------- */
+
+export const RecordHolder = z.object({
+  value: z.number(),
+  managerId: z.string(),
+  teamKey: z.string(),
+  // the team's name that season
+  teamName: z.string(),
+  year: z.number().int(),
+  // null for season records
+  week: z.number().int().nullable(),
+});
+export type RecordHolder = z.infer<typeof RecordHolder>;
+
+export const CategoryRecord = z.object({
+  statId: z.string(),
+  label: z.string(),
+  higherIsBetter: z.boolean(),
+  // averages and percentages hold their weekly mean as the season value
+  isRate: z.boolean(),
+  singleWeek: RecordHolder.nullable(),
+  singleSeason: RecordHolder.nullable(),
+});
+export type CategoryRecord = z.infer<typeof CategoryRecord>;
+
+export const BestWeek = z.object({
+  managerId: z.string(),
+  teamKey: z.string(),
+  teamName: z.string(),
+  opponentName: z.string(),
+  year: z.number().int(),
+  week: z.number().int(),
+  wins: z.number().int(),
+  losses: z.number().int(),
+  ties: z.number().int(),
+});
+export type BestWeek = z.infer<typeof BestWeek>;
+
+// consecutive matchup wins, or losses
+export const MatchupStreak = z.object({
+  managerId: z.string(),
+  name: z.string(),
+  length: z.number().int(),
+  from: z.object({ year: z.number().int(), week: z.number().int() }),
+  to: z.object({ year: z.number().int(), week: z.number().int() }),
+  // still running as of the latest settled week
+  active: z.boolean(),
+});
+export type MatchupStreak = z.infer<typeof MatchupStreak>;
+
+export const ManagerRecord = z.object({
+  managerId: z.string(),
+  name: z.string(),
+  wins: z.number().int(),
+  losses: z.number().int(),
+  ties: z.number().int(),
+});
+export type ManagerRecord = z.infer<typeof ManagerRecord>;
+
+export const Championships = z.object({
+  managerId: z.string(),
+  name: z.string(),
+  titles: z.array(z.number().int()),
+  runnerUps: z.array(z.number().int()),
+});
+export type Championships = z.infer<typeof Championships>;
+
+export const RecordsResponse = z.object({
+  league: z.string(),
+  seasons: z.array(z.number().int()),
+  categories: z.array(CategoryRecord),
+  bestWeeks: z.array(BestWeek),
+  // regular-season matchups of every manager, most wins first
+  allTime: z.array(ManagerRecord),
+  winStreaks: z.array(MatchupStreak),
+  lossStreaks: z.array(MatchupStreak),
+  championships: z.array(Championships),
+  warnings: z.array(ApiWarning),
+});
+export type RecordsResponse = z.infer<typeof RecordsResponse>;
+
+/* ---------- /api/playoffs ---------- */
+
+export const PlayoffSeed = z.object({
+  teamKey: z.string(),
+  name: z.string(),
+  seed: z.number().int().nullable(),
+  inPlayoffs: z.boolean(),
+});
+export type PlayoffSeed = z.infer<typeof PlayoffSeed>;
+
+export const PlayoffTeam = z.object({
+  key: z.string(),
+  name: z.string(),
+  seed: z.number().int().nullable(),
+  categoryWins: z.number().int(),
+});
+export type PlayoffTeam = z.infer<typeof PlayoffTeam>;
+
+export const PlayoffGame = z.object({
+  bracket: z.enum(["championship", "consolation"]),
+  teams: z.tuple([PlayoffTeam, PlayoffTeam]),
+  ties: z.number().int(),
+  // null until the week is settled
+  winnerKey: z.string().nullable(),
+});
+export type PlayoffGame = z.infer<typeof PlayoffGame>;
+
+export const PlayoffRound = z.object({
+  round: z.number().int(),
+  week: z.number().int(),
+  settled: z.boolean(),
+  games: z.array(PlayoffGame),
+});
+export type PlayoffRound = z.infer<typeof PlayoffRound>;
+
+export const PlayoffsResponse = z.object({
+  ...SeasonScope,
+  usesPlayoff: z.boolean(),
+  playoffStartWeek: z.number().int().nullable(),
+  numPlayoffTeams: z.number().int().nullable(),
+  numConsolationTeams: z.number().int().nullable(),
+  seeds: z.array(PlayoffSeed),
+  rounds: z.array(PlayoffRound),
+  // championship-bracket losers, by the week they went out
+  eliminated: z.array(z.object({ teamKey: z.string(), name: z.string(), week: z.number().int() })),
+  champion: z.object({ teamKey: z.string(), name: z.string() }).nullable(),
+  warnings: z.array(ApiWarning),
+});
+export type PlayoffsResponse = z.infer<typeof PlayoffsResponse>;
+
+/* ---------- /api/playoff-odds ---------- */
+
+export const PlayoffOddsTeam = z.object({
+  teamKey: z.string(),
+  name: z.string(),
+  // 0..1
+  playoffPct: z.number(),
+  byePct: z.number(),
+  expectedSeed: z.number(),
+  // chance of finishing in each seed, index 0 = seed 1
+  seedOdds: z.array(z.number()),
+});
+export type PlayoffOddsTeam = z.infer<typeof PlayoffOddsTeam>;
+
+export const PlayoffOddsWeek = z.object({
+  // odds as they stood once this week was settled; weeks before the latest
+  // run at the default iteration count
+  week: z.number().int(),
+  teams: z.array(PlayoffOddsTeam.pick({ teamKey: true, playoffPct: true, byePct: true, expectedSeed: true })),
+});
+export type PlayoffOddsWeek = z.infer<typeof PlayoffOddsWeek>;
+
+export const PlayoffOddsResponse = z.object({
+  ...SeasonScope,
+  iterations: z.number().int(),
+  numPlayoffTeams: z.number().int(),
+  numByes: z.number().int(),
+  remainingWeeks: z.array(z.number().int()),
+  teams: z.array(PlayoffOddsTeam),
+  history: z.array(PlayoffOddsWeek),
+  warnings: z.array(ApiWarning),
+});
+export type PlayoffOddsResponse = z.infer<typeof PlayoffOddsResponse>;
+
+/* ---------- /api/matchup-preview ---------- */
+
+export const PreviewCategory = z.object({
+  statId: z.string(),
+  label: z.string(),
+  higherIsBetter: z.boolean(),
+  // chance team A takes the category, 0..1
+  probA: z.number(),
+  // mean weekly margins the probability is built from
+  marginA: z.number().nullable(),
+  marginB: z.number().nullable(),
+});
+export type PreviewCategory = z.infer<typeof PreviewCategory>;
+
+export const MatchupPreview = z.object({
+  stage: MatchupStage,
+  teamA: z.object({ key: z.string(), name: z.string() }),
+  teamB: z.object({ key: z.string(), name: z.string() }),
+  categories: z.array(PreviewCategory),
+  // expected category wins for each side
+  expectedA: z.number(),
+  expectedB: z.number(),
+  winProbA: z.number(),
+  winProbB: z.number(),
+  tieProb: z.number(),
+});
+export type MatchupPreview = z.infer<typeof MatchupPreview>;
+
+export const MatchupPreviewResponse = z.object({
+  ...SeasonScope,
+  week: z.number().int(),
+  // settled weeks the distributions were fitted on
+  basedOnWeeks: z.array(z.number().int()),
+  matchups: z.array(MatchupPreview),
+  warnings: z.array(ApiWarning),
+});
+export type MatchupPreviewResponse = z.infer<typeof MatchupPreviewResponse>;
+
+/* ---------- /api/luck-index ---------- */
+
+export const WinLossRecord = z.object({
+  wins: z.number().int(),
+  losses: z.number().int(),
+  ties: z.number().int(),
+});
+export type WinLossRecord = z.infer<typeof WinLossRecord>;
+
+export const LuckWeek = z.object({
+  week: z.number().int(),
+  // that week's stats against every other team's
+  allPlay: WinLossRecord,
+  result: MatchResult,
+});
+export type LuckWeek = z.infer<typeof LuckWeek>;
+
+export const LuckEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  actual: WinLossRecord,
+  allPlay: WinLossRecord,
+  allPlayPct: z.number().nullable(),
+  // wins with ties as half, actual vs what the all-play rate predicts
+  actualWins: z.number(),
+  expectedWins: z.number(),
+  luck: z.number(),
+  weeks: z.array(LuckWeek),
+});
+export type LuckEntry = z.infer<typeof LuckEntry>;
+
+export const LuckResponse = z.object({
+  ...SeasonScope,
+  from: z.number().int(),
+  to: z.number().int(),
+  teams: z.array(LuckEntry),
+  warnings: z.array(ApiWarning),
+});
+export type LuckResponse = z.infer<typeof LuckResponse>;
+
+/* ---------- /api/power-rankings ---------- */
+
+export const PowerRankingWeights = z.object({
+  form: z.number(),
+  allPlay: z.number(),
+  sharpe: z.number(),
+  schedule: z.number(),
+});
+export type PowerRankingWeights = z.infer<typeof PowerRankingWeights>;
+
+// Raw inputs before they're put on a common scale: recent category win
+// share, all-play win %, mean category Sharpe, and the past strength of
+// schedule from /api/strength-of-schedule.
+export const PowerRankingComponents = z.object({
+  form: z.number().nullable(),
+  allPlay: z.number().nullable(),
+  sharpe: z.number().nullable(),
+  schedule: z.number().nullable(),
+});
+export type PowerRankingComponents = z.infer<typeof PowerRankingComponents>;
+
+export const PowerRankingEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  rank: z.number().int(),
+  previousRank: z.number().int().nullable(),
+  // places gained since the week before; negative is a drop
+  delta: z.number().int().nullable(),
+  score: z.number(),
+  record: WinLossRecord,
+  components: PowerRankingComponents,
+});
+export type PowerRankingEntry = z.infer<typeof PowerRankingEntry>;
+
+export const PowerRankingWeek = z.object({
+  week: z.number().int(),
+  teams: z.array(PowerRankingEntry),
+});
+export type PowerRankingWeek = z.infer<typeof PowerRankingWeek>;
+
+export const PowerRankingsResponse = z.object({
+  ...SeasonScope,
+  weights: PowerRankingWeights,
+  formWeeks: z.number().int(),
+  week: z.number().int(),
+  teams: z.array(PowerRankingEntry),
+  history: z.array(PowerRankingWeek),
+  warnings: z.array(ApiWarning),
+});
+export type PowerRankingsResponse = z.infer<typeof PowerRankingsResponse>;
+
+/* ---------- /api/strength-of-schedule ---------- */
+
+// The average opponent: category win share, share of standings points
+// taken, and strength, the mean of the two.
+export const OpponentStrength = z.object({
+  games: z.number().int(),
+  catWinPct: z.number().nullable(),
+  pointsPct: z.number().nullable(),
+  strength: z.number().nullable(),
+});
+export type OpponentStrength = z.infer<typeof OpponentStrength>;
+
+export const ScheduleWeek = z.object({
+  week: z.number().int(),
+  opponentKey: z.string(),
+  opponentName: z.string(),
+  played: z.boolean(),
+  strength: z.number().nullable(),
+});
+export type ScheduleWeek = z.infer<typeof ScheduleWeek>;
+
+export const ScheduleStrengthEntry = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  past: OpponentStrength,
+  remaining: OpponentStrength,
+  // 1 is the toughest schedule
+  pastRank: z.number().int().nullable(),
+  remainingRank: z.number().int().nullable(),
+  weeks: z.array(ScheduleWeek),
+});
+export type ScheduleStrengthEntry = z.infer<typeof ScheduleStrengthEntry>;
+
+export const StrengthOfScheduleResponse = z.object({
+  ...SeasonScope,
+  remainingWeeks: z.array(z.number().int()),
+  teams: z.array(ScheduleStrengthEntry),
+  warnings: z.array(ApiWarning),
+});
+export type StrengthOfScheduleResponse = z.infer<typeof StrengthOfScheduleResponse>;
+
+/* ---------- /api/recap ---------- */
+
+export const RecapSide = z.object({
+  key: z.string(),
+  name: z.string(),
+  // categories won
+  wins: z.number().int(),
+});
+export type RecapSide = z.infer<typeof RecapSide>;
+
+export const RecapMatchup = z.object({
+  stage: MatchupStage,
+  teamA: RecapSide,
+  teamB: RecapSide,
+  ties: z.number().int(),
+  // null for a tied matchup
+  winnerKey: z.string().nullable(),
+  margin: z.number().int(),
+});
+export type RecapMatchup = z.infer<typeof RecapMatchup>;
+
+// The week's best figure in a scored category, held by one team alone.
+export const CategoryHero = z.object({
+  statId: z.string(),
+  label: z.string(),
+  higherIsBetter: z.boolean(),
+  teamKey: z.string(),
+  teamName: z.string(),
+  value: z.number(),
+});
+export type CategoryHero = z.infer<typeof CategoryHero>;
+
+// A run of straight wins or losses that is still going after the week.
+export const RecapStreak = z.object({
+  teamKey: z.string(),
+  teamName: z.string(),
+  result: z.enum(["W", "L"]),
+  length: z.number().int(),
+});
+export type RecapStreak = z.infer<typeof RecapStreak>;
+
+export const RecapSection = z.object({
+  heading: z.string(),
+  paragraphs: z.array(z.string()),
+});
+export type RecapSection = z.infer<typeof RecapSection>;
+
+export const WeekRecap = z.object({
+  week: z.number().int(),
+  // the article lives at /articles/:slug
+  slug: z.string(),
+  title: z.string(),
+  // "YYYY-MM-DD", the last day of the week
+  published: z.string().nullable(),
+  intro: z.string(),
+  matchups: z.array(RecapMatchup),
+  closest: RecapMatchup.nullable(),
+  blowout: RecapMatchup.nullable(),
+  heroes: z.array(CategoryHero),
+  streaks: z.array(RecapStreak),
+  sections: z.array(RecapSection),
+});
+export type WeekRecap = z.infer<typeof WeekRecap>;
+
+export const RecapResponse = z.object({
+  ...SeasonScope,
+  recap: WeekRecap,
+  // the same recap as a Webflow article page
+  html: z.string(),
+  warnings: z.array(ApiWarning),
+});
+export type RecapResponse = z.infer<typeof RecapResponse>;